@@ -0,0 +1,47 @@
+import { Currency } from './types';
+import { UnknownCurrencyError } from './errors';
+
+// ISO 4217 minor unit exponents; everything not listed here uses two decimals
+const ZERO_DECIMAL = ['BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF', 'UGX', 'UYI', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'];
+const THREE_DECIMAL = ['BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND'];
+const FOUR_DECIMAL = ['CLF', 'UYW'];
+
+const TWO_DECIMAL = [
+  'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN', 'BAM', 'BBD', 'BDT', 'BGN', 'BMD',
+  'BND', 'BOB', 'BRL', 'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF', 'CNY', 'COP', 'CRC', 'CUP',
+  'CVE', 'CZK', 'DKK', 'DOP', 'DZD', 'EGP', 'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP',
+  'GMD', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR', 'IRR', 'JMD', 'KES', 'KGS', 'KHR',
+  'KPW', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL', 'MAD', 'MDL', 'MGA', 'MKD', 'MMK', 'MNT', 'MOP',
+  'MRU', 'MUR', 'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD', 'NGN', 'NIO', 'NOK', 'NPR', 'NZD', 'PAB', 'PEN',
+  'PGK', 'PHP', 'PKR', 'PLN', 'QAR', 'RON', 'RSD', 'RUB', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD', 'SHP',
+  'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP', 'SZL', 'THB', 'TJS', 'TMT', 'TOP', 'TRY', 'TTD', 'TWD',
+  'TZS', 'UAH', 'USD', 'UYU', 'UZS', 'VES', 'WST', 'XCD', 'YER', 'ZAR', 'ZMW', 'ZWL',
+];
+
+const SYMBOLS: Record<string, string> = {
+  AUD: 'A$', BRL: 'R$', CAD: 'CA$', CNY: 'CN¥', EUR: '€', GBP: '£', HKD: 'HK$', ILS: '₪', INR: '₹',
+  JPY: '¥', KRW: '₩', MXN: 'MX$', NZD: 'NZ$', PHP: '₱', THB: '฿', TWD: 'NT$', USD: '$', VND: '₫',
+};
+
+const CURRENCIES: Map<string, Currency> = new Map(
+  ([
+    [TWO_DECIMAL, 2],
+    [ZERO_DECIMAL, 0],
+    [THREE_DECIMAL, 3],
+    [FOUR_DECIMAL, 4],
+  ] as [string[], number][]).flatMap(([codes, decimals]) =>
+    codes.map(code => [code, Object.freeze({ code, symbol: SYMBOLS[code] || code, decimals })] as [string, Currency])
+  )
+);
+
+export function getCurrency(code: string): Currency {
+  const currency = CURRENCIES.get((code || '').toUpperCase());
+  if (!currency) {
+    throw new UnknownCurrencyError(code);
+  }
+  return currency;
+}
+
+export function isSupportedCurrency(code: string): boolean {
+  return CURRENCIES.has((code || '').toUpperCase());
+}
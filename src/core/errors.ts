@@ -0,0 +1,41 @@
+export class CheckoutError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class UnknownCurrencyError extends CheckoutError {
+  readonly currency: string;
+
+  constructor(currency: string) {
+    super(`Unknown ISO 4217 currency: ${currency}`, 'unknown_currency');
+    this.currency = currency;
+  }
+}
+
+export class InvalidAmountError extends CheckoutError {
+  readonly amount: number | string;
+  readonly currency: string;
+
+  constructor(amount: number | string, currency: string, reason: string) {
+    super(`Invalid ${currency} amount ${amount}: ${reason}`, 'invalid_amount');
+    this.amount = amount;
+    this.currency = currency;
+  }
+}
+
+export class CurrencyMismatchError extends CheckoutError {
+  constructor(expected: string, actual: string) {
+    super(`Currency mismatch: expected ${expected}, got ${actual}`, 'currency_mismatch');
+  }
+}
+
+// Catch variables are unknown; anything thrown that is not an Error is reported by its string form
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,54 @@
+import type { RedisCompatibleClient } from '../payments/idempotency-store';
+
+export interface EventDedupStore {
+  // Atomically records an event key; resolves false when the key was already recorded
+  claim(key: string, ttlMs: number): Promise<boolean>;
+}
+
+export class InMemoryEventDedupStore implements EventDedupStore {
+  private keys: Map<string, number>;
+  private claims = 0;
+
+  constructor() {
+    this.keys = new Map();
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const expiresAt = this.keys.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.keys.set(key, now + ttlMs);
+
+    // Sweeping expired keys now and then keeps claims cheap
+    if (++this.claims % 1000 === 0) {
+      this.prune(now);
+    }
+    return true;
+  }
+
+  private prune(now: number): void {
+    for (const [key, expiresAt] of this.keys) {
+      if (expiresAt <= now) {
+        this.keys.delete(key);
+      }
+    }
+  }
+}
+
+export class RedisEventDedupStore implements EventDedupStore {
+  private client: RedisCompatibleClient;
+  private prefix: string;
+
+  constructor(client: RedisCompatibleClient, prefix: string = 'checkout:event:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(this.prefix + key, new Date().toISOString(), 'PX', ttlMs, 'NX');
+    return result === 'OK';
+  }
+}
@@ -1,7 +1,12 @@
 import { EventEmitter2 } from 'eventemitter2';
+import { EventDedupStore, InMemoryEventDedupStore } from './event-dedup-store';
+
+const EMITTED_KEY_TTL_MS = 24 * 60 * 60 * 1000;
 
 export class CheckoutEventEmitter extends EventEmitter2 {
   private static instance: CheckoutEventEmitter;
+  private dedupStore: EventDedupStore = new InMemoryEventDedupStore();
+  private dedupTtlMs = EMITTED_KEY_TTL_MS;
 
   private constructor() {
     super({
@@ -32,4 +37,18 @@ export class CheckoutEventEmitter extends EventEmitter2 {
 
     return this.emit(event, eventData);
   }
+
+  // Share a store such as RedisEventDedupStore so processes reporting the same event emit it once
+  setDedupStore(store: EventDedupStore, ttlMs: number = EMITTED_KEY_TTL_MS): void {
+    this.dedupStore = store;
+    this.dedupTtlMs = ttlMs;
+  }
+
+  // Emits at most once per key, for events that more than one source reports; without a key it always emits
+  async emitEventOnce(event: string, key: string | null, data: any): Promise<boolean> {
+    if (key && !(await this.dedupStore.claim(key, this.dedupTtlMs))) {
+      return false;
+    }
+    return this.emitEvent(event, data);
+  }
 }
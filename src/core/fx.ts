@@ -0,0 +1,65 @@
+import { Money, RoundingMode, roundAmount } from './money';
+import { getCurrency } from './currencies';
+
+export interface FxRateProvider {
+  // Units of `to` per one unit of `from`, in major units
+  getRate(from: string, to: string): Promise<number>;
+}
+
+export interface FxConversion {
+  source: Money;
+  converted: Money;
+  rate: number;
+}
+
+export class StaticFxRateProvider implements FxRateProvider {
+  private base: string;
+  private rates: Map<string, number>;
+
+  // Rates are quoted against the base currency, e.g. { EUR: 0.92 } means 1 USD = 0.92 EUR
+  constructor(rates: Record<string, number>, base: string = 'USD') {
+    this.base = getCurrency(base).code;
+    this.rates = new Map([[this.base, 1]]);
+    Object.entries(rates).forEach(([code, rate]) => this.setRate(code, rate));
+  }
+
+  setRate(code: string, rate: number): void {
+    if (!(rate > 0) || !Number.isFinite(rate)) {
+      throw new Error(`Invalid FX rate for ${code}: ${rate}`);
+    }
+    this.rates.set(getCurrency(code).code, rate);
+  }
+
+  async getRate(from: string, to: string): Promise<number> {
+    const fromRate = this.rates.get(getCurrency(from).code);
+    const toRate = this.rates.get(getCurrency(to).code);
+    if (fromRate === undefined || toRate === undefined) {
+      throw new Error(`No FX rate from ${from.toUpperCase()} to ${to.toUpperCase()}`);
+    }
+    return toRate / fromRate;
+  }
+}
+
+export async function convertMoney(
+  money: Money,
+  to: string,
+  fxRateProvider: FxRateProvider,
+  rounding: RoundingMode = 'half_even'
+): Promise<FxConversion> {
+  const target = getCurrency(to);
+  if (target.code === money.currency.code) {
+    return { source: money, converted: money, rate: 1 };
+  }
+
+  const rate = await fxRateProvider.getRate(money.currency.code, target.code);
+  return { source: money, converted: convertAtRate(money, target.code, rate, rounding), rate };
+}
+
+// Applies an already quoted rate, e.g. one locked when a payment was created
+export function convertAtRate(money: Money, to: string, rate: number, rounding: RoundingMode = 'half_even'): Money {
+  const target = getCurrency(to);
+
+  // Rates are in major units, so rescale between the two currencies' minor units
+  const scale = Math.pow(10, target.decimals - money.currency.decimals);
+  return Money.ofMinor(roundAmount(money.amount * rate * scale, rounding), target.code);
+}
@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from './json-file-store';
+
+describe('JsonFileStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-file-store-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists records across instances', async () => {
+    const filePath = path.join(dir, 'records.json');
+    const store = new JsonFileStore<{ id: string; value: number }>(filePath);
+    await store.put({ id: 'a', value: 1 });
+    await store.put({ id: 'b', value: 2 });
+    await store.delete('a');
+
+    const reopened = new JsonFileStore<{ id: string; value: number }>(filePath);
+    expect(await reopened.values()).toEqual([{ id: 'b', value: 2 }]);
+  });
+
+  it('keeps memory unchanged and accepts later writes after a failed flush', async () => {
+    const store = new JsonFileStore<{ id: string; value: number }>(path.join(dir, 'records.json'));
+    await store.put({ id: 'a', value: 1 });
+
+    jest.spyOn(fs, 'writeFile').mockRejectedValueOnce(new Error('disk full'));
+    await expect(store.put({ id: 'a', value: 2 })).rejects.toThrow('disk full');
+    expect(await store.get('a')).toEqual({ id: 'a', value: 1 });
+
+    await store.put({ id: 'b', value: 3 });
+    expect(await store.values()).toEqual([{ id: 'a', value: 1 }, { id: 'b', value: 3 }]);
+  });
+});
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export class JsonFileStore<T extends { id: string }> {
+  private filePath: string;
+  private loading: Promise<Map<string, T>> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const records = await this.load();
+    const record = records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  put(record: T): Promise<void> {
+    return this.update(records => records.set(record.id, { ...record }));
+  }
+
+  delete(id: string): Promise<void> {
+    return this.update(records => records.delete(id));
+  }
+
+  async values(): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values()).map(record => ({ ...record }));
+  }
+
+  private load(): Promise<Map<string, T>> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, T>> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const records: T[] = JSON.parse(contents);
+      return new Map(records.map(record => [record.id, record]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.loading = null;
+        throw error;
+      }
+      return new Map();
+    }
+  }
+
+  private update(change: (records: Map<string, T>) => void): Promise<void> {
+    // Serialize writes so concurrent saves never interleave on disk
+    const next = this.writeChain.then(async () => {
+      const updated = new Map(await this.load());
+      change(updated);
+      await this.flush(updated);
+
+      // Memory only changes once the file has the change, so a failed write leaves both as they were
+      this.loading = Promise.resolve(updated);
+    });
+
+    // One failed write must not reject every write queued after it
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+
+  private async flush(records: Map<string, T>): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(Array.from(records.values()), null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
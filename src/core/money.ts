@@ -0,0 +1,178 @@
+import { Currency } from './types';
+import { getCurrency } from './currencies';
+import { CurrencyMismatchError, InvalidAmountError } from './errors';
+
+export type RoundingMode = 'half_even' | 'half_up' | 'floor' | 'ceil';
+
+export function roundAmount(value: number, mode: RoundingMode = 'half_even'): number {
+  switch (mode) {
+    case 'floor':
+      return Math.floor(value);
+    case 'ceil':
+      return Math.ceil(value);
+    case 'half_up':
+      return Math.sign(value) * Math.round(Math.abs(value));
+    case 'half_even': {
+      // Banker's rounding: exact halves go to the nearest even integer
+      const floor = Math.floor(value);
+      const diff = value - floor;
+      const epsilon = 1e-9;
+      if (Math.abs(diff - 0.5) < epsilon) {
+        return floor % 2 === 0 ? floor : floor + 1;
+      }
+      return Math.round(value);
+    }
+    default:
+      throw new Error(`Unsupported rounding mode: ${mode}`);
+  }
+}
+
+export class Money {
+  // Integer amount in the currency's minor unit (cents, yen, fils)
+  readonly amount: number;
+  readonly currency: Currency;
+
+  private constructor(amount: number, currency: Currency) {
+    this.amount = amount === 0 ? 0 : amount;
+    this.currency = currency;
+    Object.freeze(this);
+  }
+
+  static ofMinor(amount: number, currencyCode: string): Money {
+    const currency = getCurrency(currencyCode);
+    if (!Number.isSafeInteger(amount)) {
+      throw new InvalidAmountError(amount, currency.code, 'minor unit amounts must be safe integers');
+    }
+    return new Money(amount, currency);
+  }
+
+  static of(amount: number | string, currencyCode: string): Money {
+    const currency = getCurrency(currencyCode);
+    const text = typeof amount === 'number' ? amount.toString() : amount.trim();
+
+    const match = /^(-)?(\d+)(?:\.(\d+))?$/.exec(text);
+    if (!match) {
+      throw new InvalidAmountError(amount, currency.code, 'not a decimal number');
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    if (fraction.replace(/0+$/, '').length > currency.decimals) {
+      throw new InvalidAmountError(amount, currency.code, `${currency.code} allows at most ${currency.decimals} decimals`);
+    }
+
+    // Build the minor amount from digits so no floating point rounding creeps in
+    const minor = Number(whole + fraction.padEnd(currency.decimals, '0').slice(0, currency.decimals));
+    return Money.ofMinor(sign ? -minor : minor, currency.code);
+  }
+
+  static zero(currencyCode: string): Money {
+    return Money.ofMinor(0, currencyCode);
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.ofMinor(this.amount + other.amount, this.currency.code);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.ofMinor(this.amount - other.amount, this.currency.code);
+  }
+
+  multiply(factor: number, rounding: RoundingMode = 'half_even'): Money {
+    return Money.ofMinor(roundAmount(this.amount * factor, rounding), this.currency.code);
+  }
+
+  negate(): Money {
+    return Money.ofMinor(-this.amount, this.currency.code);
+  }
+
+  allocate(ratios: number[]): Money[] {
+    if (ratios.length === 0 || ratios.some(ratio => ratio < 0 || !Number.isFinite(ratio))) {
+      throw new Error('Allocation ratios must be a non-empty list of non-negative numbers');
+    }
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (total === 0) {
+      throw new Error('Allocation ratios must not all be zero');
+    }
+
+    // Largest remainder: floor every share, then hand out the leftover minor units one by one
+    const sign = this.amount < 0 ? -1 : 1;
+    const absolute = Math.abs(this.amount);
+    const exact = ratios.map(ratio => absolute * ratio / total);
+    const shares = exact.map(share => Math.floor(share));
+    let remainder = absolute - shares.reduce((sum, share) => sum + share, 0);
+
+    const order = exact
+      .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+      .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+    for (let i = 0; remainder > 0; i = (i + 1) % order.length) {
+      shares[order[i].index] += 1;
+      remainder -= 1;
+    }
+
+    return shares.map(share => Money.ofMinor(sign * share, this.currency.code));
+  }
+
+  split(parts: number): Money[] {
+    if (!Number.isInteger(parts) || parts < 1) {
+      throw new Error(`Cannot split into ${parts} parts`);
+    }
+    return this.allocate(new Array(parts).fill(1));
+  }
+
+  equals(other: Money): boolean {
+    return this.currency.code === other.currency.code && this.amount === other.amount;
+  }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return Math.sign(this.amount - other.amount);
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  isNegative(): boolean {
+    return this.amount < 0;
+  }
+
+  isPositive(): boolean {
+    return this.amount > 0;
+  }
+
+  toMajor(): number {
+    return this.amount / Math.pow(10, this.currency.decimals);
+  }
+
+  toDecimalString(): string {
+    const digits = Math.abs(this.amount).toString().padStart(this.currency.decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - this.currency.decimals);
+    const fraction = digits.slice(digits.length - this.currency.decimals);
+    return `${this.amount < 0 ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  format(locale: string = 'en-US'): string {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: this.currency.code,
+      minimumFractionDigits: this.currency.decimals,
+      maximumFractionDigits: this.currency.decimals,
+    }).format(this.toMajor());
+  }
+
+  toJSON(): { amount: number; currency: string } {
+    return { amount: this.amount, currency: this.currency.code };
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.currency.code}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (this.currency.code !== other.currency.code) {
+      throw new CurrencyMismatchError(this.currency.code, other.currency.code);
+    }
+  }
+}
@@ -1,3 +1,8 @@
+import type { PaymentEventData } from '../payments/payment-events';
+import type { SubscriptionEventData } from '../subscriptions/subscription-events';
+import type { WebhookEventData } from '../webhooks/webhook-events';
+import type { RetryEventData } from '../retry/retry-events';
+
 export interface BaseEvent {
   eventId: string;
   type: string;
@@ -0,0 +1,56 @@
+import { CustomerService } from './customer-service';
+import { CardExpiryConfig } from './types';
+import { systemClock } from '../core/clock';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+export class CardExpiryTracker {
+  private customerService: CustomerService;
+  private config: CardExpiryConfig;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(customerService: CustomerService, config?: Partial<CardExpiryConfig>) {
+    this.customerService = customerService;
+    this.config = {
+      noticeDays: config?.noticeDays ?? 30,
+      intervalMs: config?.intervalMs || 24 * 60 * 60 * 1000,
+      clock: config?.clock || systemClock,
+    };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error(`Card expiry run failed: ${error.message}`);
+      });
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now: Date = this.config.clock.now()): Promise<void> {
+    const expiring = await this.customerService.listExpiringPaymentMethods(this.config.noticeDays, now);
+
+    for (const { customer, paymentMethod } of expiring) {
+      if (paymentMethod.expiryNotifiedAt) {
+        continue;
+      }
+
+      try {
+        await this.customerService.notifyPaymentMethodExpiring(customer.id, paymentMethod.id);
+      } catch (error) {
+        logger.error(`Card expiry notice failed for payment method ${paymentMethod.id}: ${errorMessage(error)}`);
+      }
+    }
+  }
+}
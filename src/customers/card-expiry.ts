@@ -0,0 +1,14 @@
+import { PaymentMethod } from '../core/types';
+
+export function getCardExpiry(method: PaymentMethod): Date | null {
+  if (!method.expiryMonth || !method.expiryYear) {
+    return null;
+  }
+  // Cards stay valid through the last day of their expiry month
+  return new Date(Date.UTC(method.expiryYear, method.expiryMonth, 1));
+}
+
+export function isCardExpired(method: PaymentMethod, now: Date): boolean {
+  const expiresAt = getCardExpiry(method);
+  return expiresAt !== null && expiresAt.getTime() <= now.getTime();
+}
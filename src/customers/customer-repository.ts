@@ -0,0 +1,59 @@
+import { JsonFileStore } from '../core/json-file-store';
+import { Customer, CustomerRepository } from './types';
+
+export class InMemoryCustomerRepository implements CustomerRepository {
+  private customers: Map<string, Customer>;
+
+  constructor() {
+    this.customers = new Map();
+  }
+
+  async get(id: string): Promise<Customer | null> {
+    const customer = this.customers.get(id);
+    return customer ? clone(customer) : null;
+  }
+
+  async save(customer: Customer): Promise<void> {
+    this.customers.set(customer.id, clone(customer));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.customers.delete(id);
+  }
+
+  async list(): Promise<Customer[]> {
+    return Array.from(this.customers.values()).map(clone);
+  }
+}
+
+export class FileCustomerRepository implements CustomerRepository {
+  private store: JsonFileStore<Customer>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(id: string): Promise<Customer | null> {
+    return this.store.get(id);
+  }
+
+  async save(customer: Customer): Promise<void> {
+    await this.store.put(customer);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  async list(): Promise<Customer[]> {
+    return this.store.values();
+  }
+}
+
+function clone(customer: Customer): Customer {
+  return {
+    ...customer,
+    providerCustomerIds: { ...customer.providerCustomerIds },
+    paymentMethods: customer.paymentMethods.map(method => ({ ...method })),
+  };
+}
@@ -0,0 +1,86 @@
+import { ManualClock } from '../core/clock';
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { PaymentMethod } from '../core/types';
+import { CardExpiryTracker } from './card-expiry-tracker';
+import { CustomerService } from './customer-service';
+import { PaymentMethodExpiredError } from './errors';
+
+const eventEmitter = CheckoutEventEmitter.getInstance();
+
+function card(id: string, expiryMonth: number, expiryYear: number): PaymentMethod {
+  return { id, type: 'card', brand: 'visa', lastFour: '4242', expiryMonth, expiryYear };
+}
+
+describe('CustomerService default payment method', () => {
+  it('defaults to the first method and switches on request', async () => {
+    const customerService = new CustomerService({ clock: new ManualClock(new Date('2024-04-10T00:00:00Z')) });
+    const customer = await customerService.createCustomer({ email: 'ada@example.com' });
+
+    await customerService.attachPaymentMethod({ customerId: customer.id, provider: 'stripe', paymentMethod: card('pm_1', 12, 2030) });
+    await customerService.attachPaymentMethod({ customerId: customer.id, provider: 'paypal', paymentMethod: card('pm_2', 6, 2031) });
+    expect((await customerService.getDefaultPaymentMethod(customer.id))!.id).toBe('pm_1');
+
+    await customerService.setDefaultPaymentMethod(customer.id, 'pm_2');
+    expect(await customerService.getDefaultPaymentMethod(customer.id)).toMatchObject({ id: 'pm_2', provider: 'paypal' });
+
+    const detached = await customerService.detachPaymentMethod(customer.id, 'pm_2');
+    expect(detached.defaultPaymentMethodId).toBeUndefined();
+    expect(detached.paymentMethods.map(method => method.id)).toEqual(['pm_1']);
+  });
+
+  it('refuses to attach an expired card', async () => {
+    const customerService = new CustomerService({ clock: new ManualClock(new Date('2024-04-10T00:00:00Z')) });
+    const customer = await customerService.createCustomer();
+
+    await expect(customerService.attachPaymentMethod({
+      customerId: customer.id,
+      provider: 'stripe',
+      paymentMethod: card('pm_old', 3, 2024),
+    })).rejects.toBeInstanceOf(PaymentMethodExpiredError);
+  });
+});
+
+describe('CardExpiryTracker', () => {
+  it('sends one expiring notice per card within noticeDays of its expiry', async () => {
+    const clock = new ManualClock(new Date('2024-04-10T00:00:00Z'));
+    const customerService = new CustomerService({ clock });
+    const tracker = new CardExpiryTracker(customerService, { noticeDays: 30, clock });
+    const customer = await customerService.createCustomer({ email: 'grace@example.com' });
+    await customerService.attachPaymentMethod({ customerId: customer.id, provider: 'stripe', paymentMethod: card('pm_april', 4, 2024) });
+    await customerService.attachPaymentMethod({ customerId: customer.id, provider: 'stripe', paymentMethod: card('pm_later', 12, 2030) });
+    const notices: any[] = [];
+    const listener = (data: any) => notices.push(data);
+    eventEmitter.on('payment_method:expiring', listener);
+
+    await tracker.runOnce();
+    clock.advance(24 * 60 * 60 * 1000);
+    await tracker.runOnce();
+    eventEmitter.off('payment_method:expiring', listener);
+
+    expect(notices).toHaveLength(1);
+    expect(notices[0]).toMatchObject({
+      customerId: customer.id,
+      email: 'grace@example.com',
+      paymentMethodId: 'pm_april',
+      expiresAt: '2024-05-01T00:00:00.000Z',
+      isDefault: true,
+    });
+  });
+
+  it('notifies again when the card is re-attached with a new expiry date', async () => {
+    const clock = new ManualClock(new Date('2024-04-10T00:00:00Z'));
+    const customerService = new CustomerService({ clock });
+    const tracker = new CardExpiryTracker(customerService, { noticeDays: 30, clock });
+    const customer = await customerService.createCustomer();
+    await customerService.attachPaymentMethod({ customerId: customer.id, provider: 'stripe', paymentMethod: card('pm_1', 4, 2024) });
+    await tracker.runOnce();
+
+    // The card updater extended the card, which then nears its new expiry
+    await customerService.attachPaymentMethod({ customerId: customer.id, provider: 'stripe', paymentMethod: card('pm_1', 5, 2024) });
+    expect((await customerService.getDefaultPaymentMethod(customer.id))!.expiryNotifiedAt).toBeUndefined();
+
+    clock.set(new Date('2024-05-15T00:00:00Z'));
+    await tracker.runOnce();
+    expect((await customerService.getDefaultPaymentMethod(customer.id))!.expiryNotifiedAt).toBe('2024-05-15T00:00:00.000Z');
+  });
+});
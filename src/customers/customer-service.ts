@@ -0,0 +1,332 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { Clock, systemClock } from '../core/clock';
+import { PaymentService } from '../payments/payment-service';
+import {
+  AttachPaymentMethodParams,
+  CreateCustomerParams,
+  Customer,
+  CustomerRepository,
+  CustomerServiceConfig,
+  ExpiringPaymentMethod,
+  StoredPaymentMethod,
+  UpdateCustomerParams
+} from './types';
+import { InMemoryCustomerRepository } from './customer-repository';
+import { getCardExpiry, isCardExpired } from './card-expiry';
+import { CustomerNotFoundError, PaymentMethodExpiredError, PaymentMethodNotFoundError } from './errors';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CustomerService {
+  private eventEmitter: CheckoutEventEmitter;
+  private repository: CustomerRepository;
+  private clock: Clock;
+  private paymentService?: PaymentService;
+
+  constructor(config: CustomerServiceConfig = {}) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.repository = config.repository || new InMemoryCustomerRepository();
+    this.clock = config.clock || systemClock;
+    this.paymentService = config.paymentService;
+  }
+
+  async createCustomer(params: CreateCustomerParams = {}): Promise<Customer> {
+    try {
+      const now = this.clock.now();
+      const customer: Customer = {
+        id: `cus_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        email: params.email,
+        name: params.name,
+        providerCustomerIds: { ...params.providerCustomerIds },
+        paymentMethods: [],
+        metadata: params.metadata || {},
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+
+      await this.repository.save(customer);
+
+      // Emit customer created event
+      this.eventEmitter.emitEvent('customer:created', {
+        customerId: customer.id,
+        email: customer.email,
+        metadata: customer.metadata,
+        timestamp: customer.createdAt,
+      });
+
+      logger.info(`Customer created: ${customer.id}`);
+      return customer;
+
+    } catch (error) {
+      this.eventEmitter.emitEvent('customer:creation:failed', {
+        error: errorMessage(error),
+        params,
+        timestamp: this.clock.now().toISOString(),
+      });
+      throw error;
+    }
+  }
+
+  async getCustomer(customerId: string): Promise<Customer | null> {
+    return this.repository.get(customerId);
+  }
+
+  async listCustomers(): Promise<Customer[]> {
+    return this.repository.list();
+  }
+
+  async updateCustomer(params: UpdateCustomerParams): Promise<Customer> {
+    const customer = await this.loadCustomer(params.customerId);
+    const updated: Customer = {
+      ...customer,
+      ...params.updates,
+      providerCustomerIds: { ...customer.providerCustomerIds, ...params.updates.providerCustomerIds },
+      updatedAt: this.clock.now().toISOString(),
+    };
+
+    await this.repository.save(updated);
+
+    // Emit customer updated event
+    this.eventEmitter.emitEvent('customer:updated', {
+      customerId: updated.id,
+      email: updated.email,
+      changes: Object.keys(params.updates),
+      metadata: updated.metadata,
+      timestamp: updated.updatedAt,
+    });
+
+    logger.info(`Customer updated: ${updated.id}`);
+    return updated;
+  }
+
+  async deleteCustomer(customerId: string): Promise<void> {
+    const customer = await this.loadCustomer(customerId);
+    await this.repository.delete(customer.id);
+
+    // Emit customer deleted event
+    this.eventEmitter.emitEvent('customer:deleted', {
+      customerId: customer.id,
+      email: customer.email,
+      timestamp: this.clock.now().toISOString(),
+    });
+
+    logger.info(`Customer deleted: ${customer.id}`);
+  }
+
+  async attachPaymentMethod(params: AttachPaymentMethodParams): Promise<StoredPaymentMethod> {
+    const customer = await this.loadCustomer(params.customerId);
+    const { paymentMethod } = params;
+    const now = this.clock.now();
+
+    if (isCardExpired(paymentMethod, now)) {
+      throw new PaymentMethodExpiredError(paymentMethod.id, paymentMethod.expiryMonth!, paymentMethod.expiryYear!);
+    }
+
+    // Re-attaching refreshes the card details; a new expiry date earns a new expiry notice
+    const existing = customer.paymentMethods.find(method => method.id === paymentMethod.id);
+    const sameExpiry = existing
+      && existing.expiryMonth === paymentMethod.expiryMonth
+      && existing.expiryYear === paymentMethod.expiryYear;
+    const stored: StoredPaymentMethod = {
+      ...paymentMethod,
+      provider: params.provider,
+      attachedAt: existing?.attachedAt || now.toISOString(),
+      expiryNotifiedAt: sameExpiry ? existing!.expiryNotifiedAt : undefined,
+    };
+
+    const setAsDefault = params.setAsDefault || !customer.defaultPaymentMethodId;
+    const updated: Customer = {
+      ...customer,
+      paymentMethods: existing
+        ? customer.paymentMethods.map(method => method.id === stored.id ? stored : method)
+        : [...customer.paymentMethods, stored],
+      defaultPaymentMethodId: setAsDefault ? stored.id : customer.defaultPaymentMethodId,
+      updatedAt: now.toISOString(),
+    };
+    await this.repository.save(updated);
+
+    // Emit payment method attached event
+    this.eventEmitter.emitEvent('payment_method:attached', {
+      customerId: updated.id,
+      paymentMethodId: stored.id,
+      provider: stored.provider,
+      type: stored.type,
+      brand: stored.brand,
+      lastFour: stored.lastFour,
+      isDefault: updated.defaultPaymentMethodId === stored.id,
+      timestamp: now.toISOString(),
+    });
+
+    if (setAsDefault && customer.defaultPaymentMethodId !== stored.id) {
+      this.emitDefaultChanged(updated, customer.defaultPaymentMethodId);
+    }
+
+    logger.info(`Payment method ${stored.id} attached to customer ${updated.id}`);
+    return stored;
+  }
+
+  async detachPaymentMethod(customerId: string, paymentMethodId: string): Promise<Customer> {
+    const customer = await this.loadCustomer(customerId);
+    const method = this.findPaymentMethod(customer, paymentMethodId);
+
+    // Detaching the default leaves the customer without one rather than guessing a replacement
+    const wasDefault = customer.defaultPaymentMethodId === method.id;
+    const updated: Customer = {
+      ...customer,
+      paymentMethods: customer.paymentMethods.filter(candidate => candidate.id !== method.id),
+      defaultPaymentMethodId: wasDefault ? undefined : customer.defaultPaymentMethodId,
+      updatedAt: this.clock.now().toISOString(),
+    };
+    await this.repository.save(updated);
+
+    // Emit payment method detached event
+    this.eventEmitter.emitEvent('payment_method:detached', {
+      customerId: updated.id,
+      paymentMethodId: method.id,
+      provider: method.provider,
+      wasDefault,
+      timestamp: updated.updatedAt,
+    });
+
+    if (wasDefault) {
+      this.emitDefaultChanged(updated, method.id);
+    }
+
+    logger.info(`Payment method ${method.id} detached from customer ${updated.id}`);
+    return updated;
+  }
+
+  async setDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<Customer> {
+    const customer = await this.loadCustomer(customerId);
+    const method = this.findPaymentMethod(customer, paymentMethodId);
+    if (customer.defaultPaymentMethodId === method.id) {
+      return customer;
+    }
+
+    const updated: Customer = {
+      ...customer,
+      defaultPaymentMethodId: method.id,
+      updatedAt: this.clock.now().toISOString(),
+    };
+    await this.repository.save(updated);
+
+    this.emitDefaultChanged(updated, customer.defaultPaymentMethodId);
+    return updated;
+  }
+
+  async getDefaultPaymentMethod(customerId: string): Promise<StoredPaymentMethod | null> {
+    const customer = await this.loadCustomer(customerId);
+    return customer.paymentMethods.find(method => method.id === customer.defaultPaymentMethodId) || null;
+  }
+
+  async listPaymentMethods(customerId: string, provider?: string): Promise<StoredPaymentMethod[]> {
+    const customer = await this.loadCustomer(customerId);
+    return provider
+      ? customer.paymentMethods.filter(method => method.provider === provider)
+      : customer.paymentMethods;
+  }
+
+  async syncPaymentMethods(customerId: string, provider: string): Promise<StoredPaymentMethod[]> {
+    if (!this.paymentService) {
+      throw new Error('Syncing payment methods requires a PaymentService');
+    }
+
+    const customer = await this.loadCustomer(customerId);
+    const providerCustomerId = customer.providerCustomerIds[provider] || customer.id;
+    const methods = await this.paymentService.getPaymentMethods(providerCustomerId, provider);
+    const now = this.clock.now();
+
+    for (const method of methods) {
+      if (isCardExpired(method, now)) {
+        logger.warn(`Skipping expired payment method ${method.id} for customer ${customer.id}`);
+        continue;
+      }
+      await this.attachPaymentMethod({ customerId: customer.id, provider, paymentMethod: method });
+    }
+
+    return this.listPaymentMethods(customer.id, provider);
+  }
+
+  async listExpiringPaymentMethods(noticeDays: number, now: Date = this.clock.now()): Promise<ExpiringPaymentMethod[]> {
+    const horizon = now.getTime() + noticeDays * DAY_MS;
+    const expiring: ExpiringPaymentMethod[] = [];
+
+    for (const customer of await this.repository.list()) {
+      for (const paymentMethod of customer.paymentMethods) {
+        const expiresAt = getCardExpiry(paymentMethod);
+        if (expiresAt && expiresAt.getTime() <= horizon) {
+          expiring.push({
+            customer,
+            paymentMethod,
+            expiresAt: expiresAt.toISOString(),
+            expired: expiresAt.getTime() <= now.getTime(),
+          });
+        }
+      }
+    }
+
+    return expiring;
+  }
+
+  async notifyPaymentMethodExpiring(customerId: string, paymentMethodId: string): Promise<StoredPaymentMethod> {
+    const customer = await this.loadCustomer(customerId);
+    const method = this.findPaymentMethod(customer, paymentMethodId);
+    if (method.expiryNotifiedAt) {
+      return method;
+    }
+
+    const now = this.clock.now();
+    const notified: StoredPaymentMethod = { ...method, expiryNotifiedAt: now.toISOString() };
+    await this.repository.save({
+      ...customer,
+      paymentMethods: customer.paymentMethods.map(candidate => candidate.id === method.id ? notified : candidate),
+      updatedAt: now.toISOString(),
+    });
+
+    // Emit payment method expiring event
+    this.eventEmitter.emitEvent('payment_method:expiring', {
+      customerId: customer.id,
+      email: customer.email,
+      paymentMethodId: method.id,
+      provider: method.provider,
+      brand: method.brand,
+      lastFour: method.lastFour,
+      expiryMonth: method.expiryMonth,
+      expiryYear: method.expiryYear,
+      expiresAt: getCardExpiry(method)?.toISOString(),
+      isDefault: customer.defaultPaymentMethodId === method.id,
+      timestamp: now.toISOString(),
+    });
+
+    logger.info(`Payment method ${method.id} of customer ${customer.id} is expiring`);
+    return notified;
+  }
+
+  private emitDefaultChanged(customer: Customer, previousPaymentMethodId?: string): void {
+    // Emit default payment method changed event
+    this.eventEmitter.emitEvent('payment_method:default:changed', {
+      customerId: customer.id,
+      paymentMethodId: customer.defaultPaymentMethodId,
+      previousPaymentMethodId,
+      timestamp: this.clock.now().toISOString(),
+    });
+  }
+
+  private findPaymentMethod(customer: Customer, paymentMethodId: string): StoredPaymentMethod {
+    const method = customer.paymentMethods.find(candidate => candidate.id === paymentMethodId);
+    if (!method) {
+      throw new PaymentMethodNotFoundError(customer.id, paymentMethodId);
+    }
+    return method;
+  }
+
+  private async loadCustomer(customerId: string): Promise<Customer> {
+    const customer = await this.repository.get(customerId);
+    if (!customer) {
+      throw new CustomerNotFoundError(customerId);
+    }
+    return customer;
+  }
+}
@@ -0,0 +1,30 @@
+import { CheckoutError } from '../core/errors';
+
+export class CustomerNotFoundError extends CheckoutError {
+  readonly customerId: string;
+
+  constructor(customerId: string) {
+    super(`Customer not found: ${customerId}`, 'customer_not_found');
+    this.customerId = customerId;
+  }
+}
+
+export class PaymentMethodNotFoundError extends CheckoutError {
+  readonly customerId: string;
+  readonly paymentMethodId: string;
+
+  constructor(customerId: string, paymentMethodId: string) {
+    super(`Payment method ${paymentMethodId} is not attached to customer ${customerId}`, 'payment_method_not_found');
+    this.customerId = customerId;
+    this.paymentMethodId = paymentMethodId;
+  }
+}
+
+export class PaymentMethodExpiredError extends CheckoutError {
+  readonly paymentMethodId: string;
+
+  constructor(paymentMethodId: string, expiryMonth: number, expiryYear: number) {
+    super(`Payment method ${paymentMethodId} expired ${expiryMonth}/${expiryYear}`, 'payment_method_expired');
+    this.paymentMethodId = paymentMethodId;
+  }
+}
@@ -0,0 +1,69 @@
+import { Clock } from '../core/clock';
+import { PaymentMethod } from '../core/types';
+import type { PaymentService } from '../payments/payment-service';
+
+export interface StoredPaymentMethod extends PaymentMethod {
+  provider: string;
+  attachedAt: string;
+  // Set once payment_method:expiring fired for the current expiry date
+  expiryNotifiedAt?: string;
+}
+
+export interface Customer {
+  id: string;
+  email?: string;
+  name?: string;
+  // The same customer is known under a different id at every provider
+  providerCustomerIds: Record<string, string>;
+  paymentMethods: StoredPaymentMethod[];
+  defaultPaymentMethodId?: string;
+  metadata?: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCustomerParams {
+  email?: string;
+  name?: string;
+  providerCustomerIds?: Record<string, string>;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateCustomerParams {
+  customerId: string;
+  updates: Partial<Pick<Customer, 'email' | 'name' | 'providerCustomerIds' | 'metadata'>>;
+}
+
+export interface AttachPaymentMethodParams {
+  customerId: string;
+  provider: string;
+  paymentMethod: PaymentMethod;
+  setAsDefault?: boolean;
+}
+
+export interface CustomerRepository {
+  get(id: string): Promise<Customer | null>;
+  save(customer: Customer): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<Customer[]>;
+}
+
+export interface CustomerServiceConfig {
+  repository?: CustomerRepository;
+  clock?: Clock;
+  paymentService?: PaymentService;
+}
+
+export interface CardExpiryConfig {
+  // How many days before a card stops working payment_method:expiring fires
+  noticeDays: number;
+  intervalMs: number;
+  clock: Clock;
+}
+
+export interface ExpiringPaymentMethod {
+  customer: Customer;
+  paymentMethod: StoredPaymentMethod;
+  expiresAt: string;
+  expired: boolean;
+}
@@ -1,5 +1,21 @@
 // Core exports
 export { CheckoutEventEmitter } from './core/event-emitter';
+export { InMemoryEventDedupStore, RedisEventDedupStore } from './core/event-dedup-store';
+export type { EventDedupStore } from './core/event-dedup-store';
+export { 
+  CheckoutError, 
+  UnknownCurrencyError,
+  InvalidAmountError,
+  CurrencyMismatchError,
+  errorMessage
+} from './core/errors';
+export { ManualClock, systemClock } from './core/clock';
+export type { Clock } from './core/clock';
+export { Money, roundAmount } from './core/money';
+export type { RoundingMode } from './core/money';
+export { getCurrency, isSupportedCurrency } from './core/currencies';
+export { StaticFxRateProvider, convertMoney, convertAtRate } from './core/fx';
+export type { FxRateProvider, FxConversion } from './core/fx';
 export type { 
   BaseEvent, 
   PaymentEvent, 
@@ -12,35 +28,300 @@ export type {
 // Payment exports
 export { PaymentService } from './payments/payment-service';
 export { PAYMENT_EVENTS } from './payments/payment-events';
+export type { PaymentEventData } from './payments/payment-events';
+export { IdempotencyManager } from './payments/idempotency-manager';
+export type { IdempotencyContext, IdempotentResult } from './payments/idempotency-manager';
+export { InMemoryIdempotencyStore, RedisIdempotencyStore } from './payments/idempotency-store';
+export type { RedisCompatibleClient } from './payments/idempotency-store';
+export { 
+  IdempotencyKeyReusedError, 
+  IdempotencyKeyInProgressError,
+  PaymentProviderError,
+  UnsupportedProviderError,
+  CapabilityNotSupportedError,
+  NoEligibleProviderError,
+  InvalidAuthorizationStateError,
+  CaptureExceedsAuthorizationError,
+  RefundExceedsCapturedError,
+  InvalidRefundReasonError,
+  PaymentActionRequiredError 
+} from './payments/errors';
+export { AuthorizationExpiryTracker } from './payments/authorization-expiry-tracker';
+export { 
+  InMemoryPaymentLedgerRepository, 
+  FilePaymentLedgerRepository 
+} from './payments/payment-ledger-repository';
+export { remainingAuthorization, refundableAmount, REFUND_REASONS } from './payments/payment-ledger';
+export { RefundReconciler, parseRefundWebhook } from './payments/refund-reconciler';
+export { PaymentRouter, isRetryableError } from './payments/payment-router';
+export { BasePaymentProvider } from './providers/base-provider';
+export { ProviderRegistry, BUILT_IN_CAPABILITIES } from './providers/provider-registry';
+export type { 
+  ProviderCapabilities, 
+  ProviderCapability,
+  ProviderInfo,
+  RegisteredProvider 
+} from './providers/types';
+export { MockProvider, MockWebhookVerifier, MOCK_CARDS } from './providers/mock/mock-provider';
+export type { MockCardScenario, MockProviderConfig } from './providers/mock/mock-provider';
 export type { 
   PaymentIntent, 
   PaymentResult, 
   PaymentMethod,
+  PaymentStatus,
   CreatePaymentParams,
   CapturePaymentParams,
-  RefundPaymentParams 
+  ConfirmPaymentParams,
+  PaymentNextAction,
+  RefundPaymentParams,
+  RefundReason,
+  RefundStatus,
+  RefundStatusUpdate,
+  IdempotencyRecord,
+  IdempotencyStore,
+  PaymentServiceConfig,
+  RoutingRule,
+  RoutingPolicy,
+  RoutingDecision,
+  VoidAuthorizationParams,
+  AuthorizationStatus,
+  AuthorizationExpiryConfig,
+  LedgerCapture,
+  LedgerRefund,
+  LedgerSettlement,
+  PaymentLedger,
+  PaymentLedgerRepository 
 } from './payments/types';
 
+// Risk exports
+export { RiskEngine } from './risk/risk-engine';
+export { 
+  VelocityRule, 
+  AmountThresholdRule,
+  CountryMismatchRule,
+  BlocklistRule 
+} from './risk/risk-rules';
+export type { 
+  VelocityDimension, 
+  VelocityRuleOptions,
+  AmountThresholdRuleOptions,
+  CountryMismatchRuleOptions,
+  BlocklistEntries 
+} from './risk/risk-rules';
+export { InMemoryVelocityCounter } from './risk/velocity-counter';
+export { PaymentBlockedError } from './risk/errors';
+export type { 
+  RiskDecision, 
+  RiskSignals,
+  RiskContext,
+  RiskRule,
+  RiskRuleResult,
+  RiskAssessment,
+  RiskEngineConfig,
+  VelocityCounter 
+} from './risk/types';
+
+// Customer exports
+export { CustomerService } from './customers/customer-service';
+export { CardExpiryTracker } from './customers/card-expiry-tracker';
+export { getCardExpiry, isCardExpired } from './customers/card-expiry';
+export { 
+  InMemoryCustomerRepository, 
+  FileCustomerRepository 
+} from './customers/customer-repository';
+export { 
+  CustomerNotFoundError, 
+  PaymentMethodNotFoundError,
+  PaymentMethodExpiredError 
+} from './customers/errors';
+export type { 
+  Customer, 
+  StoredPaymentMethod,
+  CreateCustomerParams,
+  UpdateCustomerParams,
+  AttachPaymentMethodParams,
+  CustomerRepository,
+  CustomerServiceConfig,
+  CardExpiryConfig,
+  ExpiringPaymentMethod 
+} from './customers/types';
+
 // Subscription exports
 export { SubscriptionService } from './subscriptions/subscription-service';
 export { SUBSCRIPTION_EVENTS } from './subscriptions/subscription-events';
+export type { SubscriptionEventData } from './subscriptions/subscription-events';
+export { TrialScheduler } from './subscriptions/trial-scheduler';
+export { RenewalRunner } from './subscriptions/renewal-runner';
+export { DunningService } from './subscriptions/dunning-service';
+export { calculateProration } from './subscriptions/proration';
+export { 
+  billingDateAt, 
+  nextBillingDate, 
+  resolveBillingInterval 
+} from './subscriptions/billing-anchor';
+export type { BillingAnchor, BillingInterval } from './subscriptions/billing-anchor';
+export { SUBSCRIPTION_TRANSITIONS, canTransition } from './subscriptions/subscription-state-machine';
+export { 
+  SubscriptionNotFoundError, 
+  InvalidSubscriptionTransitionError,
+  PlanNotFoundError 
+} from './subscriptions/errors';
+export { 
+  InMemorySubscriptionRepository, 
+  FileSubscriptionRepository 
+} from './subscriptions/subscription-repository';
 export type { 
   Subscription, 
   SubscriptionPlan,
+  SubscriptionStatus,
+  BillingCycle,
   CreateSubscriptionParams,
   UpdateSubscriptionParams,
-  CancelSubscriptionParams 
+  CancelSubscriptionParams,
+  PauseBehavior,
+  PauseCollection,
+  PauseSubscriptionParams,
+  ResumeSubscriptionParams,
+  SubscriptionRepository,
+  SubscriptionServiceConfig,
+  TrialSchedulerConfig,
+  ProrationBehavior,
+  ProrationLineItem,
+  ProrationResult,
+  BillingPeriod,
+  RecurringPaymentData,
+  RenewalRunnerConfig,
+  DunningConfig,
+  DunningState,
+  DunningStep,
+  DunningStepData 
 } from './subscriptions/types';
 
+// Invoice exports
+export { InvoiceService } from './invoices/invoice-service';
+export { InMemoryInvoiceRepository, FileInvoiceRepository } from './invoices/invoice-repository';
+export { renderInvoiceText, renderInvoiceHtml } from './invoices/invoice-renderer';
+export { InvoiceNotFoundError, InvalidInvoiceTransitionError } from './invoices/errors';
+export type { 
+  Invoice, 
+  InvoiceStatus,
+  InvoiceLineItem,
+  InvoiceDiscount,
+  InvoiceExportFormat,
+  InvoiceRepository,
+  InvoiceServiceConfig,
+  CreateInvoiceParams,
+  ListInvoicesParams 
+} from './invoices/types';
+
+// Usage exports
+export { UsageService } from './usage/usage-service';
+export { InMemoryUsageRepository, FileUsageRepository } from './usage/usage-repository';
+export { aggregateUsage, priceUsage } from './usage/usage-pricing';
+export { MeterNotFoundError, UsageIdempotencyError } from './usage/errors';
+export type { 
+  UsageAggregation, 
+  UsageBillingScheme,
+  PriceTier,
+  MeteredPrice,
+  UsageRecord,
+  UsageCharge,
+  UsageSummary,
+  UsageRepository,
+  UsageServiceConfig 
+} from './usage/types';
+
 // Webhook exports
 export { WebhookHandler } from './webhooks/webhook-handler';
+export type { WebhookHandlerOptions, WebhookDispatchOptions } from './webhooks/webhook-handler';
+export { InMemoryWebhookDedupStore, RedisWebhookDedupStore } from './webhooks/webhook-dedup-store';
+export type { WebhookDedupStore, WebhookReplayOptions } from './webhooks/webhook-dedup-store';
+export { WebhookInbox } from './webhooks/webhook-inbox';
+export type { WebhookInboxOptions } from './webhooks/webhook-inbox';
+export { WebhookInboxWorker } from './webhooks/webhook-inbox-worker';
+export { InMemoryWebhookInboxRepository, FileWebhookInboxRepository } from './webhooks/webhook-inbox-repository';
+export type {
+  InboxEntry,
+  InboxEntryStatus,
+  InboxFilter,
+  StoreInboxEntryParams,
+  WebhookInboxRepository,
+  WebhookInboxConfig,
+  WebhookInboxWorkerConfig
+} from './webhooks/webhook-inbox-types';
+export { InboxEntryNotFoundError } from './webhooks/errors';
+export { DEFAULT_EVENT_MAPS, DEFAULT_NORMALIZERS, mergeByProvider } from './webhooks/webhook-event-map';
+export type { ProviderEventMap, WebhookNormalizers, WebhookEventMapOptions } from './webhooks/webhook-event-map';
+export {
+  normalizeStripePayment,
+  normalizeStripeSubscription,
+  normalizePayPalPayment,
+  normalizePayPalSubscription
+} from './webhooks/webhook-normalizers';
 export { WEBHOOK_EVENTS } from './webhooks/webhook-events';
+export type { WebhookEventData } from './webhooks/webhook-events';
+export { getHeader } from './webhooks/webhook-verifier';
+export type { 
+  WebhookVerifier, 
+  WebhookVerificationRequest,
+  WebhookVerifierOptions 
+} from './webhooks/webhook-verifier';
+export { StripeWebhookVerifier } from './webhooks/stripe-webhook-verifier';
+export { 
+  PayPalWebhookVerifier, 
+  RemoteCertificateCache,
+  StaticCertificateCache,
+  crc32 
+} from './webhooks/paypal-webhook-verifier';
+export type { CertificateCache, PayPalWebhookVerifierConfig } from './webhooks/paypal-webhook-verifier';
 export type { 
   WebhookEvent as WebhookEventType,
   WebhookHandlerConfig,
   ProcessWebhookParams 
 } from './webhooks/types';
 
+// Outbound webhook exports
+export { OutboundWebhookService, matchesEventFilter } from './outbound/outbound-webhook-service';
+export {
+  InMemoryWebhookEndpointRepository,
+  FileWebhookEndpointRepository,
+  InMemoryWebhookDeliveryRepository,
+  FileWebhookDeliveryRepository
+} from './outbound/outbound-repository';
+export {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  EVENT_HEADER,
+  DELIVERY_HEADER,
+  generateEndpointSecret,
+  signOutboundPayload,
+  verifyOutboundSignature
+} from './outbound/outbound-signature';
+export { httpTransport } from './outbound/outbound-transport';
+export { LocalWebhookReceiver } from './outbound/local-webhook-receiver';
+export type { ReceivedWebhook, LocalWebhookReceiverOptions } from './outbound/local-webhook-receiver';
+export {
+  WebhookEndpointNotFoundError,
+  WebhookEndpointDisabledError,
+  WebhookDeliveryNotFoundError,
+  InvalidWebhookEndpointError
+} from './outbound/errors';
+export type {
+  WebhookEndpoint,
+  CreateWebhookEndpointParams,
+  UpdateWebhookEndpointParams,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryAttempt,
+  OutboundEventPayload,
+  WebhookEndpointRepository,
+  WebhookDeliveryRepository,
+  WebhookTransport,
+  WebhookTransportRequest,
+  WebhookTransportResponse,
+  OutboundWebhookConfig
+} from './outbound/types';
+
 // Retry exports
 export { RetryService } from './retry/retry-service';
 export { RetryQueue } from './retry/retry-queue';
@@ -49,25 +330,63 @@ export type {
   RetryableOperation, 
   RetryConfig, 
   RetryStrategy,
-  RetryResult 
+  RetryResult,
+  RetryQueueItem
 } from './retry/types';
+export type { RetryEventData } from './retry/retry-events';
+
+// Utility exports
+export { logger } from './utils/logger';
+export {
+  ValidationError,
+  validatePaymentParams,
+  validateSubscriptionParams,
+  validateWebhookSignature
+} from './utils/validation';
 
 // Main CheckoutCore class
+import { CheckoutEventEmitter } from './core/event-emitter';
+import type { EventDedupStore } from './core/event-dedup-store';
+import { PaymentService } from './payments/payment-service';
+import { SubscriptionService } from './subscriptions/subscription-service';
+import { CustomerService } from './customers/customer-service';
+import { WebhookHandler } from './webhooks/webhook-handler';
+import { OutboundWebhookService } from './outbound/outbound-webhook-service';
+import { RetryService } from './retry/retry-service';
+import type { SubscriptionServiceConfig } from './subscriptions/types';
+import type { PaymentServiceConfig } from './payments/types';
+import type { CustomerServiceConfig } from './customers/types';
+import type { OutboundWebhookConfig } from './outbound/types';
+import type { BasePaymentProvider } from './providers/base-provider';
+import type { ProviderCapabilities } from './providers/types';
+
 export class GitDigitalCheckoutCore {
   private paymentService: PaymentService;
   private subscriptionService: SubscriptionService;
+  private customerService: CustomerService;
   private webhookHandler: WebhookHandler;
+  private outboundWebhookService: OutboundWebhookService;
   private retryService: RetryService;
   private eventEmitter: CheckoutEventEmitter;
 
   constructor(config?: {
     webhookConfig?: any;
     retryConfig?: any;
+    paymentConfig?: PaymentServiceConfig;
+    subscriptionConfig?: SubscriptionServiceConfig;
+    customerConfig?: CustomerServiceConfig;
+    outboundConfig?: Partial<OutboundWebhookConfig>;
+    eventDedupStore?: EventDedupStore;
   }) {
     this.eventEmitter = CheckoutEventEmitter.getInstance();
-    this.paymentService = new PaymentService();
-    this.subscriptionService = new SubscriptionService();
+    if (config?.eventDedupStore) {
+      this.eventEmitter.setDedupStore(config.eventDedupStore);
+    }
+    this.paymentService = new PaymentService(config?.paymentConfig);
+    this.subscriptionService = new SubscriptionService(config?.subscriptionConfig);
+    this.customerService = new CustomerService({ paymentService: this.paymentService, ...config?.customerConfig });
     this.webhookHandler = new WebhookHandler(config?.webhookConfig || {});
+    this.outboundWebhookService = new OutboundWebhookService(config?.outboundConfig);
     this.retryService = new RetryService(config?.retryConfig);
   }
 
@@ -80,10 +399,18 @@ export class GitDigitalCheckoutCore {
     return this.subscriptionService;
   }
 
+  get customers(): CustomerService {
+    return this.customerService;
+  }
+
   get webhooks(): WebhookHandler {
     return this.webhookHandler;
   }
 
+  get outboundWebhooks(): OutboundWebhookService {
+    return this.outboundWebhookService;
+  }
+
   get retry(): RetryService {
     return this.retryService;
   }
@@ -92,6 +419,10 @@ export class GitDigitalCheckoutCore {
     return this.eventEmitter;
   }
 
+  registerProvider(name: string, provider: BasePaymentProvider, capabilities?: ProviderCapabilities): void {
+    this.paymentService.registerProvider(name, provider, capabilities);
+  }
+
   // Helper method to listen to all events
   onAllEvents(listener: (event: string, data: any) => void): void {
     this.eventEmitter.on('**', listener);
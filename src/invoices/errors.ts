@@ -0,0 +1,24 @@
+import { CheckoutError } from '../core/errors';
+import { InvoiceStatus } from './types';
+
+export class InvoiceNotFoundError extends CheckoutError {
+  readonly invoiceId: string;
+
+  constructor(invoiceId: string) {
+    super(`Invoice not found: ${invoiceId}`, 'invoice_not_found');
+    this.invoiceId = invoiceId;
+  }
+}
+
+export class InvalidInvoiceTransitionError extends CheckoutError {
+  readonly invoiceId: string;
+  readonly from: InvoiceStatus;
+  readonly to: InvoiceStatus;
+
+  constructor(invoiceId: string, from: InvoiceStatus, to: InvoiceStatus) {
+    super(`Invalid invoice status transition for ${invoiceId}: ${from} -> ${to}`, 'invalid_invoice_transition');
+    this.invoiceId = invoiceId;
+    this.from = from;
+    this.to = to;
+  }
+}
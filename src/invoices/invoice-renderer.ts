@@ -0,0 +1,94 @@
+import { Invoice } from './types';
+
+export function formatAmount(amount: number, currency: string): string {
+  const formatter = new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() });
+  const decimals = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+  return formatter.format(amount / Math.pow(10, decimals));
+}
+
+export function renderInvoiceText(invoice: Invoice): string {
+  const money = (amount: number) => formatAmount(amount, invoice.currency);
+  const lines: string[] = [
+    `Invoice ${invoice.number || invoice.id}`,
+    `Status: ${invoice.status}`,
+    `Customer: ${invoice.customerId}`,
+  ];
+
+  if (invoice.periodStart && invoice.periodEnd) {
+    lines.push(`Period: ${invoice.periodStart} - ${invoice.periodEnd}`);
+  }
+  if (invoice.dueDate) {
+    lines.push(`Due: ${invoice.dueDate}`);
+  }
+
+  lines.push('');
+  for (const item of invoice.lineItems) {
+    lines.push(`${item.description} x${item.quantity}  ${money(item.amount)}`);
+  }
+
+  lines.push('');
+  lines.push(`Subtotal: ${money(invoice.subtotal)}`);
+  for (const discount of invoice.discounts) {
+    lines.push(`Discount (${discount.description}): -${money(discount.amount)}`);
+  }
+  lines.push(`Tax: ${money(invoice.tax)}`);
+  lines.push(`Total: ${money(invoice.total)}`);
+  if (invoice.creditApplied) {
+    lines.push(`Credit applied: -${money(invoice.creditApplied)}`);
+  }
+  if (invoice.creditIssued) {
+    lines.push(`Credited to balance: ${money(invoice.creditIssued)}`);
+  }
+  lines.push(`Amount paid: ${money(invoice.amountPaid)}`);
+  lines.push(`Amount due: ${money(invoice.amountDue - invoice.amountPaid)}`);
+
+  return lines.join('\n');
+}
+
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const money = (amount: number) => escapeHtml(formatAmount(amount, invoice.currency));
+  const rows = invoice.lineItems.map(item =>
+    `<tr><td>${escapeHtml(item.description)}</td><td>${item.quantity}</td><td>${money(item.amount)}</td></tr>`
+  );
+  const discounts = invoice.discounts.map(discount =>
+    `<tr><td colspan="2">Discount (${escapeHtml(discount.description)})</td><td>-${money(discount.amount)}</td></tr>`
+  );
+  const credits = [
+    ...(invoice.creditApplied
+      ? [`<tr><td colspan="2">Credit applied</td><td>-${money(invoice.creditApplied)}</td></tr>`]
+      : []),
+    ...(invoice.creditIssued
+      ? [`<tr><td colspan="2">Credited to balance</td><td>${money(invoice.creditIssued)}</td></tr>`]
+      : []),
+  ];
+
+  return [
+    '<div class="invoice">',
+    `<h1>Invoice ${escapeHtml(invoice.number || invoice.id)}</h1>`,
+    `<p>Status: ${escapeHtml(invoice.status)}<br>Customer: ${escapeHtml(invoice.customerId)}</p>`,
+    '<table>',
+    '<thead><tr><th>Description</th><th>Qty</th><th>Amount</th></tr></thead>',
+    '<tbody>',
+    ...rows,
+    '</tbody>',
+    '<tfoot>',
+    `<tr><td colspan="2">Subtotal</td><td>${money(invoice.subtotal)}</td></tr>`,
+    ...discounts,
+    `<tr><td colspan="2">Tax</td><td>${money(invoice.tax)}</td></tr>`,
+    `<tr><td colspan="2">Total</td><td>${money(invoice.total)}</td></tr>`,
+    ...credits,
+    `<tr><td colspan="2">Amount due</td><td>${money(invoice.amountDue - invoice.amountPaid)}</td></tr>`,
+    '</tfoot>',
+    '</table>',
+    '</div>',
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
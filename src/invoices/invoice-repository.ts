@@ -0,0 +1,55 @@
+import { JsonFileStore } from '../core/json-file-store';
+import { Invoice, InvoiceRepository } from './types';
+
+export class InMemoryInvoiceRepository implements InvoiceRepository {
+  private invoices: Map<string, Invoice>;
+  private sequence: number;
+
+  constructor() {
+    this.invoices = new Map();
+    this.sequence = 0;
+  }
+
+  async get(id: string): Promise<Invoice | null> {
+    const invoice = this.invoices.get(id);
+    return invoice ? { ...invoice } : null;
+  }
+
+  async save(invoice: Invoice): Promise<void> {
+    this.invoices.set(invoice.id, { ...invoice });
+  }
+
+  async list(): Promise<Invoice[]> {
+    return Array.from(this.invoices.values()).map(invoice => ({ ...invoice }));
+  }
+
+  async nextSequence(): Promise<number> {
+    this.sequence += 1;
+    return this.sequence;
+  }
+}
+
+export class FileInvoiceRepository implements InvoiceRepository {
+  private store: JsonFileStore<Invoice>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(id: string): Promise<Invoice | null> {
+    return this.store.get(id);
+  }
+
+  async save(invoice: Invoice): Promise<void> {
+    await this.store.put(invoice);
+  }
+
+  async list(): Promise<Invoice[]> {
+    return this.store.values();
+  }
+
+  async nextSequence(): Promise<number> {
+    const invoices = await this.store.values();
+    return invoices.reduce((max, invoice) => Math.max(max, invoice.sequence || 0), 0) + 1;
+  }
+}
@@ -0,0 +1,95 @@
+import { ManualClock } from '../core/clock';
+import { InvoiceService } from './invoice-service';
+import { renderInvoiceText } from './invoice-renderer';
+
+function setup() {
+  const clock = new ManualClock(new Date('2024-03-01T00:00:00Z'));
+  return new InvoiceService({ clock });
+}
+
+describe('InvoiceService credit balance', () => {
+  it('keeps a negative total as customer credit and applies it to the next invoice', async () => {
+    const invoiceService = setup();
+
+    const credit = await invoiceService.createInvoice({
+      customerId: 'cus_1',
+      currency: 'USD',
+      lineItems: [{ description: 'Unused time on Premium', unitAmount: -1500 }],
+      autoFinalize: true,
+    });
+    expect(credit.status).toBe('paid');
+    expect(credit.amountDue).toBe(0);
+    expect(credit.creditIssued).toBe(1500);
+    expect(await invoiceService.getCreditBalance('cus_1', 'USD')).toBe(1500);
+
+    const next = await invoiceService.createInvoice({
+      customerId: 'cus_1',
+      currency: 'USD',
+      lineItems: [{ description: 'Pro', unitAmount: 1000 }],
+      autoFinalize: true,
+    });
+    expect(next.creditApplied).toBe(1000);
+    expect(next.amountDue).toBe(0);
+    expect(next.status).toBe('paid');
+    expect(await invoiceService.getCreditBalance('cus_1', 'USD')).toBe(500);
+
+    const after = await invoiceService.createInvoice({
+      customerId: 'cus_1',
+      currency: 'USD',
+      lineItems: [{ description: 'Pro', unitAmount: 1000 }],
+      autoFinalize: true,
+    });
+    expect(after.creditApplied).toBe(500);
+    expect(after.amountDue).toBe(500);
+    expect(after.status).toBe('open');
+    expect(renderInvoiceText(after)).toContain('Credit applied');
+    expect(await invoiceService.getCreditBalance('cus_1', 'USD')).toBe(0);
+  });
+
+  it('keeps credit per customer and currency', async () => {
+    const invoiceService = setup();
+    await invoiceService.createInvoice({
+      customerId: 'cus_1',
+      currency: 'USD',
+      lineItems: [{ description: 'Refund of overcharge', unitAmount: -700 }],
+      autoFinalize: true,
+    });
+
+    const otherCurrency = await invoiceService.createInvoice({
+      customerId: 'cus_1',
+      currency: 'EUR',
+      lineItems: [{ description: 'Pro', unitAmount: 1000 }],
+      autoFinalize: true,
+    });
+    const otherCustomer = await invoiceService.createInvoice({
+      customerId: 'cus_2',
+      currency: 'USD',
+      lineItems: [{ description: 'Pro', unitAmount: 1000 }],
+      autoFinalize: true,
+    });
+
+    expect(otherCurrency.amountDue).toBe(1000);
+    expect(otherCustomer.amountDue).toBe(1000);
+    expect(await invoiceService.getCreditBalance('cus_1', 'USD')).toBe(700);
+  });
+
+  it('returns applied credit when the invoice is voided', async () => {
+    const invoiceService = setup();
+    await invoiceService.createInvoice({
+      customerId: 'cus_1',
+      currency: 'USD',
+      lineItems: [{ description: 'Downgrade credit', unitAmount: -300 }],
+      autoFinalize: true,
+    });
+    const invoice = await invoiceService.createInvoice({
+      customerId: 'cus_1',
+      currency: 'USD',
+      lineItems: [{ description: 'Pro', unitAmount: 1000 }],
+      autoFinalize: true,
+    });
+    expect(await invoiceService.getCreditBalance('cus_1', 'USD')).toBe(0);
+
+    await invoiceService.voidInvoice(invoice.id);
+    expect(await invoiceService.getCreditBalance('cus_1', 'USD')).toBe(300);
+  });
+});
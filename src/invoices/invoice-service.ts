@@ -0,0 +1,370 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { Clock, systemClock } from '../core/clock';
+import { SUBSCRIPTION_EVENTS } from '../subscriptions/subscription-events';
+import { BillingPeriod, Subscription, SubscriptionPlan } from '../subscriptions/types';
+import {
+  Invoice,
+  InvoiceStatus,
+  CreateInvoiceLineItemParams,
+  InvoiceDiscount,
+  InvoiceLineItem,
+  InvoiceExportFormat,
+  InvoiceRepository,
+  InvoiceServiceConfig,
+  CreateInvoiceParams,
+  ListInvoicesParams
+} from './types';
+import { InMemoryInvoiceRepository } from './invoice-repository';
+import { renderInvoiceHtml, renderInvoiceText } from './invoice-renderer';
+import { InvalidInvoiceTransitionError, InvoiceNotFoundError } from './errors';
+import { logger } from '../utils/logger';
+
+const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['open', 'void'],
+  open: ['paid', 'void', 'uncollectible'],
+  uncollectible: ['paid', 'void'],
+  paid: [],
+  void: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InvoiceService {
+  private eventEmitter: CheckoutEventEmitter;
+  private repository: InvoiceRepository;
+  private clock: Clock;
+  private numberPrefix: string;
+  private taxRate: number;
+  private daysUntilDue: number;
+  private finalizeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(config: InvoiceServiceConfig = {}) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.repository = config.repository || new InMemoryInvoiceRepository();
+    this.clock = config.clock || systemClock;
+    this.numberPrefix = config.numberPrefix || 'INV';
+    this.taxRate = config.taxRate || 0;
+    this.daysUntilDue = config.daysUntilDue ?? 0;
+  }
+
+  async getInvoice(invoiceId: string): Promise<Invoice | null> {
+    return this.repository.get(invoiceId);
+  }
+
+  async listInvoices(params: ListInvoicesParams = {}): Promise<Invoice[]> {
+    return (await this.repository.list()).filter(invoice =>
+      (!params.customerId || invoice.customerId === params.customerId)
+      && (!params.subscriptionId || invoice.subscriptionId === params.subscriptionId)
+      && (!params.status || invoice.status === params.status)
+    );
+  }
+
+  async getCreditBalance(customerId: string, currency: string): Promise<number> {
+    // Voided invoices hand back the credit they used
+    return (await this.listInvoices({ customerId }))
+      .filter(invoice => invoice.currency === currency && invoice.status !== 'void')
+      .reduce((balance, invoice) => balance + (invoice.creditIssued || 0) - (invoice.creditApplied || 0), 0);
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<Invoice> {
+    const now = this.clock.now();
+    const lineItems: InvoiceLineItem[] = params.lineItems.map((item, index) => {
+      const quantity = item.quantity ?? 1;
+      if (!Number.isInteger(item.unitAmount) || !Number.isInteger(quantity) || quantity < 0) {
+        throw new Error(`Invalid invoice line item: ${item.description}`);
+      }
+      return {
+        id: `il_${now.getTime()}_${index}`,
+        description: item.description,
+        quantity,
+        unitAmount: item.unitAmount,
+        amount: item.unitAmount * quantity,
+        currency: params.currency,
+        planId: item.planId,
+        periodStart: item.periodStart,
+        periodEnd: item.periodEnd,
+        proration: item.proration,
+        metadata: item.metadata,
+      };
+    });
+
+    const invoice: Invoice = {
+      id: `in_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      customerId: params.customerId,
+      subscriptionId: params.subscriptionId,
+      status: 'draft',
+      currency: params.currency,
+      lineItems,
+      discounts: [],
+      subtotal: 0,
+      discountTotal: 0,
+      taxRate: params.taxRate ?? this.taxRate,
+      tax: 0,
+      total: 0,
+      amountDue: 0,
+      amountPaid: 0,
+      attemptCount: 0,
+      periodStart: params.periodStart,
+      periodEnd: params.periodEnd,
+      metadata: params.metadata || {},
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    this.applyTotals(invoice, params.discounts || []);
+
+    await this.repository.save(invoice);
+
+    // Emit invoice created event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.INVOICE_CREATED, this.toEventData(invoice));
+
+    logger.info(`Invoice created: ${invoice.id}`);
+    return params.autoFinalize ? this.finalizeInvoice(invoice.id) : invoice;
+  }
+
+  async createRenewalInvoice(
+    subscription: Subscription,
+    plan: SubscriptionPlan,
+    period: BillingPeriod,
+    options: { autoFinalize?: boolean; lineItems?: CreateInvoiceLineItemParams[] } = {}
+  ): Promise<Invoice> {
+    // One invoice per subscription period, so repeated renewal runs reuse the same invoice
+    const existing = (await this.listInvoices({ subscriptionId: subscription.id }))
+      .find(invoice => invoice.periodStart === period.start && invoice.metadata.renewal);
+    if (existing) {
+      return existing;
+    }
+
+    return this.createInvoice({
+      customerId: subscription.customerId,
+      subscriptionId: subscription.id,
+      currency: plan.currency,
+      periodStart: period.start,
+      periodEnd: period.end,
+      lineItems: [
+        {
+          description: plan.name,
+          unitAmount: plan.amount,
+          planId: plan.id,
+          periodStart: period.start,
+          periodEnd: period.end,
+        },
+        ...(subscription.pendingProrations || []).map(proration => ({
+          description: proration.description,
+          unitAmount: proration.amount,
+          planId: proration.planId,
+          periodStart: proration.periodStart,
+          periodEnd: proration.periodEnd,
+          proration: true,
+        })),
+        ...(options.lineItems || []),
+      ],
+      autoFinalize: options.autoFinalize ?? true,
+      metadata: { renewal: true },
+    });
+  }
+
+  async finalizeInvoice(invoiceId: string): Promise<Invoice> {
+    // Serialize finalization so sequential numbers are never handed out twice
+    const result = this.finalizeChain.then(async () => {
+      const invoice = await this.loadInvoice(invoiceId);
+      this.assertTransition(invoice, 'open');
+
+      const now = this.clock.now();
+      const sequence = await this.repository.nextSequence();
+      const creditBalance = await this.getCreditBalance(invoice.customerId, invoice.currency);
+      const creditApplied = Math.min(creditBalance, invoice.amountDue);
+      const creditIssued = Math.max(-invoice.total, 0);
+      const finalized: Invoice = {
+        ...invoice,
+        creditApplied,
+        creditIssued,
+        amountDue: invoice.amountDue - creditApplied,
+        status: 'open',
+        sequence,
+        number: `${this.numberPrefix}-${String(sequence).padStart(6, '0')}`,
+        finalizedAt: now.toISOString(),
+        dueDate: new Date(now.getTime() + this.daysUntilDue * DAY_MS).toISOString(),
+        updatedAt: now.toISOString(),
+      };
+
+      // Nothing to collect on zero or credit balances
+      if (finalized.amountDue === 0) {
+        finalized.status = 'paid';
+        finalized.paidAt = now.toISOString();
+      }
+
+      await this.repository.save(finalized);
+      logger.info(`Invoice finalized: ${finalized.id} (${finalized.number})`);
+
+      if (creditApplied > 0 || creditIssued > 0) {
+        // Emit invoice credit event
+        this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.INVOICE_CREDIT_UPDATED, {
+          ...this.toEventData(finalized),
+          creditBalance: creditBalance - creditApplied + creditIssued,
+        });
+      }
+
+      if (finalized.status === 'paid') {
+        this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.INVOICE_PAID, this.toEventData(finalized));
+      }
+      return finalized;
+    });
+
+    this.finalizeChain = result.catch(() => undefined);
+    return result;
+  }
+
+  async markPaid(invoiceId: string, payment: { paymentId: string; amount?: number }): Promise<Invoice> {
+    const invoice = await this.loadInvoice(invoiceId);
+    this.assertTransition(invoice, 'paid');
+
+    const now = this.clock.now();
+    const paid: Invoice = {
+      ...invoice,
+      status: 'paid',
+      paymentId: payment.paymentId,
+      amountPaid: payment.amount ?? invoice.amountDue,
+      attemptCount: invoice.attemptCount + 1,
+      paidAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await this.repository.save(paid);
+
+    // Emit invoice paid event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.INVOICE_PAID, this.toEventData(paid));
+
+    logger.info(`Invoice paid: ${paid.id} by payment ${payment.paymentId}`);
+    return paid;
+  }
+
+  async recordPaymentFailure(invoiceId: string, error: string): Promise<Invoice> {
+    const invoice = await this.loadInvoice(invoiceId);
+    if (invoice.status !== 'open' && invoice.status !== 'uncollectible') {
+      throw new InvalidInvoiceTransitionError(invoice.id, invoice.status, 'paid');
+    }
+
+    const failed: Invoice = {
+      ...invoice,
+      attemptCount: invoice.attemptCount + 1,
+      updatedAt: this.clock.now().toISOString(),
+    };
+    await this.repository.save(failed);
+
+    // Emit invoice payment failed event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.INVOICE_PAYMENT_FAILED, {
+      ...this.toEventData(failed),
+      error,
+    });
+
+    logger.warn(`Invoice payment failed: ${failed.id}: ${error}`);
+    return failed;
+  }
+
+  async voidInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.loadInvoice(invoiceId);
+    this.assertTransition(invoice, 'void');
+
+    const now = this.clock.now();
+    const voided: Invoice = {
+      ...invoice,
+      status: 'void',
+      voidedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await this.repository.save(voided);
+
+    logger.info(`Invoice voided: ${voided.id}`);
+    return voided;
+  }
+
+  async markUncollectible(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.loadInvoice(invoiceId);
+    this.assertTransition(invoice, 'uncollectible');
+
+    const now = this.clock.now();
+    const uncollectible: Invoice = {
+      ...invoice,
+      status: 'uncollectible',
+      markedUncollectibleAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await this.repository.save(uncollectible);
+
+    logger.info(`Invoice marked uncollectible: ${uncollectible.id}`);
+    return uncollectible;
+  }
+
+  async exportInvoice(invoiceId: string, format: InvoiceExportFormat = 'json'): Promise<string> {
+    const invoice = await this.loadInvoice(invoiceId);
+
+    switch (format) {
+      case 'json':
+        return JSON.stringify(invoice, null, 2);
+      case 'text':
+        return renderInvoiceText(invoice);
+      case 'html':
+        return renderInvoiceHtml(invoice);
+      default:
+        throw new Error(`Unsupported invoice export format: ${format}`);
+    }
+  }
+
+  private async loadInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.repository.get(invoiceId);
+    if (!invoice) {
+      throw new InvoiceNotFoundError(invoiceId);
+    }
+    return invoice;
+  }
+
+  private assertTransition(invoice: Invoice, to: InvoiceStatus): void {
+    if (!INVOICE_TRANSITIONS[invoice.status].includes(to)) {
+      throw new InvalidInvoiceTransitionError(invoice.id, invoice.status, to);
+    }
+  }
+
+  private applyTotals(invoice: Invoice, discounts: CreateInvoiceParams['discounts'] = []): void {
+    const subtotal = invoice.lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+    // Discounts apply in order and never take the subtotal below zero
+    let remaining = Math.max(subtotal, 0);
+    const applied: InvoiceDiscount[] = discounts.map(discount => {
+      const amount = discount.percentOff !== undefined
+        ? Math.round(remaining * discount.percentOff / 100)
+        : Math.min(discount.amountOff || 0, remaining);
+      remaining -= amount;
+      return { ...discount, amount };
+    });
+
+    const discountTotal = applied.reduce((sum, discount) => sum + discount.amount, 0);
+    const taxable = Math.max(subtotal - discountTotal, 0);
+    const tax = Math.round(taxable * invoice.taxRate);
+    const total = subtotal - discountTotal + tax;
+
+    invoice.subtotal = subtotal;
+    invoice.discounts = applied;
+    invoice.discountTotal = discountTotal;
+    invoice.tax = tax;
+    invoice.total = total;
+    // A credit total is not collected; finalization moves it to the customer's credit balance
+    invoice.amountDue = Math.max(total, 0);
+  }
+
+  private toEventData(invoice: Invoice): Record<string, any> {
+    return {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.number,
+      customerId: invoice.customerId,
+      subscriptionId: invoice.subscriptionId,
+      status: invoice.status,
+      amount: invoice.total,
+      creditApplied: invoice.creditApplied,
+      creditIssued: invoice.creditIssued,
+      amountDue: invoice.amountDue,
+      amountPaid: invoice.amountPaid,
+      currency: invoice.currency,
+      paymentId: invoice.paymentId,
+      timestamp: this.clock.now().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { Clock } from '../core/clock';
+
+export type InvoiceStatus = 'draft' | 'open' | 'paid' | 'void' | 'uncollectible';
+
+export type InvoiceExportFormat = 'json' | 'text' | 'html';
+
+export interface InvoiceLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+  currency: string;
+  planId?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  proration?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface InvoiceDiscount {
+  description: string;
+  percentOff?: number;
+  amountOff?: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  number?: string;
+  sequence?: number;
+  customerId: string;
+  subscriptionId?: string;
+  status: InvoiceStatus;
+  currency: string;
+  lineItems: InvoiceLineItem[];
+  discounts: InvoiceDiscount[];
+  subtotal: number;
+  discountTotal: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+  // Customer credit balance used to pay this invoice, set at finalization
+  creditApplied?: number;
+  // A negative total becomes customer credit for later invoices
+  creditIssued?: number;
+  amountDue: number;
+  amountPaid: number;
+  paymentId?: string;
+  attemptCount: number;
+  periodStart?: string;
+  periodEnd?: string;
+  dueDate?: string;
+  finalizedAt?: string;
+  paidAt?: string;
+  voidedAt?: string;
+  markedUncollectibleAt?: string;
+  metadata: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateInvoiceLineItemParams {
+  description: string;
+  unitAmount: number;
+  quantity?: number;
+  planId?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  proration?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface CreateInvoiceDiscountParams {
+  description: string;
+  percentOff?: number;
+  amountOff?: number;
+}
+
+export interface CreateInvoiceParams {
+  customerId: string;
+  subscriptionId?: string;
+  currency: string;
+  lineItems: CreateInvoiceLineItemParams[];
+  discounts?: CreateInvoiceDiscountParams[];
+  taxRate?: number;
+  periodStart?: string;
+  periodEnd?: string;
+  autoFinalize?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface ListInvoicesParams {
+  customerId?: string;
+  subscriptionId?: string;
+  status?: InvoiceStatus;
+}
+
+export interface InvoiceRepository {
+  get(id: string): Promise<Invoice | null>;
+  save(invoice: Invoice): Promise<void>;
+  list(): Promise<Invoice[]>;
+  nextSequence(): Promise<number>;
+}
+
+export interface InvoiceServiceConfig {
+  repository?: InvoiceRepository;
+  clock?: Clock;
+  numberPrefix?: string;
+  // Fraction of the discounted subtotal, e.g. 0.2 for 20%
+  taxRate?: number;
+  daysUntilDue?: number;
+}
@@ -0,0 +1,34 @@
+import { CheckoutError } from '../core/errors';
+
+export class WebhookEndpointNotFoundError extends CheckoutError {
+  readonly endpointId: string;
+
+  constructor(endpointId: string) {
+    super(`Webhook endpoint not found: ${endpointId}`, 'webhook_endpoint_not_found');
+    this.endpointId = endpointId;
+  }
+}
+
+export class WebhookEndpointDisabledError extends CheckoutError {
+  readonly endpointId: string;
+
+  constructor(endpointId: string) {
+    super(`Webhook endpoint ${endpointId} is disabled`, 'webhook_endpoint_disabled');
+    this.endpointId = endpointId;
+  }
+}
+
+export class WebhookDeliveryNotFoundError extends CheckoutError {
+  readonly deliveryId: string;
+
+  constructor(deliveryId: string) {
+    super(`Webhook delivery not found: ${deliveryId}`, 'webhook_delivery_not_found');
+    this.deliveryId = deliveryId;
+  }
+}
+
+export class InvalidWebhookEndpointError extends CheckoutError {
+  constructor(reason: string) {
+    super(`Invalid webhook endpoint: ${reason}`, 'invalid_webhook_endpoint');
+  }
+}
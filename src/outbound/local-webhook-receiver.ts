@@ -0,0 +1,116 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { SIGNATURE_HEADER, verifyOutboundSignature } from './outbound-signature';
+import { OutboundEventPayload } from './types';
+
+export interface ReceivedWebhook {
+  path: string;
+  headers: Record<string, string>;
+  body: string;
+  event?: OutboundEventPayload;
+  // Only set when the receiver knows the endpoint secret
+  signatureValid?: boolean;
+  respondedWith: number;
+  receivedAt: string;
+}
+
+export interface LocalWebhookReceiverOptions {
+  secret?: string;
+  defaultStatus?: number;
+}
+
+// A local HTTP stand-in for a subscriber, for tests and development
+export class LocalWebhookReceiver {
+  private server: Server | null = null;
+  private secret?: string;
+  private defaultStatus: number;
+  private queuedStatuses: number[] = [];
+  private requests: ReceivedWebhook[] = [];
+
+  constructor(options: LocalWebhookReceiverOptions = {}) {
+    this.secret = options.secret;
+    this.defaultStatus = options.defaultStatus || 200;
+  }
+
+  get received(): ReceivedWebhook[] {
+    return [...this.requests];
+  }
+
+  setSecret(secret: string): void {
+    this.secret = secret;
+  }
+
+  // Answer the next requests with these statuses, then fall back to the default status
+  respondWith(...statuses: number[]): void {
+    this.queuedStatuses.push(...statuses);
+  }
+
+  clear(): void {
+    this.requests = [];
+    this.queuedStatuses = [];
+  }
+
+  async start(port: number = 0): Promise<string> {
+    if (!this.server) {
+      this.server = createServer((request, response) => this.handle(request, response));
+      const server = this.server;
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => resolve());
+      });
+    }
+    return this.url;
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('LocalWebhookReceiver is not started');
+    }
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}/webhooks`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse): void {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(request.headers)) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value || '';
+      }
+
+      let event: OutboundEventPayload | undefined;
+      try {
+        event = JSON.parse(body);
+      } catch {
+        event = undefined;
+      }
+
+      // Timestamps are not checked; the sender may run on a manual clock
+      const signature = headers[SIGNATURE_HEADER];
+      const status = this.queuedStatuses.shift() ?? this.defaultStatus;
+      this.requests.push({
+        path: request.url || '/',
+        headers,
+        body,
+        event,
+        signatureValid: this.secret ? !!signature && verifyOutboundSignature(this.secret, body, signature, 0) : undefined,
+        respondedWith: status,
+        receivedAt: new Date().toISOString(),
+      });
+
+      response.writeHead(status, { 'content-type': 'text/plain' });
+      response.end(status >= 200 && status < 300 ? 'ok' : 'error');
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import { JsonFileStore } from '../core/json-file-store';
+import {
+  WebhookDelivery,
+  WebhookDeliveryRepository,
+  WebhookEndpoint,
+  WebhookEndpointRepository
+} from './types';
+
+export class InMemoryWebhookEndpointRepository implements WebhookEndpointRepository {
+  private endpoints: Map<string, WebhookEndpoint>;
+
+  constructor() {
+    this.endpoints = new Map();
+  }
+
+  async get(id: string): Promise<WebhookEndpoint | null> {
+    const endpoint = this.endpoints.get(id);
+    return endpoint ? { ...endpoint } : null;
+  }
+
+  async save(endpoint: WebhookEndpoint): Promise<void> {
+    this.endpoints.set(endpoint.id, { ...endpoint });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.endpoints.delete(id);
+  }
+
+  async list(): Promise<WebhookEndpoint[]> {
+    return Array.from(this.endpoints.values()).map(endpoint => ({ ...endpoint }));
+  }
+}
+
+export class FileWebhookEndpointRepository implements WebhookEndpointRepository {
+  private store: JsonFileStore<WebhookEndpoint>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(id: string): Promise<WebhookEndpoint | null> {
+    return this.store.get(id);
+  }
+
+  async save(endpoint: WebhookEndpoint): Promise<void> {
+    await this.store.put(endpoint);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  async list(): Promise<WebhookEndpoint[]> {
+    return this.store.values();
+  }
+}
+
+export class InMemoryWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private deliveries: Map<string, WebhookDelivery>;
+
+  constructor() {
+    this.deliveries = new Map();
+  }
+
+  async get(id: string): Promise<WebhookDelivery | null> {
+    const delivery = this.deliveries.get(id);
+    return delivery ? { ...delivery } : null;
+  }
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async listByEndpoint(endpointId: string): Promise<WebhookDelivery[]> {
+    return newestFirst(Array.from(this.deliveries.values()).filter(delivery => delivery.endpointId === endpointId))
+      .map(delivery => ({ ...delivery }));
+  }
+
+  async listPending(): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.status === 'pending')
+      .map(delivery => ({ ...delivery }));
+  }
+}
+
+export class FileWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private store: JsonFileStore<WebhookDelivery>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(id: string): Promise<WebhookDelivery | null> {
+    return this.store.get(id);
+  }
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    await this.store.put(delivery);
+  }
+
+  async listByEndpoint(endpointId: string): Promise<WebhookDelivery[]> {
+    return newestFirst((await this.store.values()).filter(delivery => delivery.endpointId === endpointId));
+  }
+
+  async listPending(): Promise<WebhookDelivery[]> {
+    return (await this.store.values()).filter(delivery => delivery.status === 'pending');
+  }
+}
+
+function newestFirst(deliveries: WebhookDelivery[]): WebhookDelivery[] {
+  return deliveries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,38 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-checkout-signature';
+export const TIMESTAMP_HEADER = 'x-checkout-timestamp';
+export const EVENT_HEADER = 'x-checkout-event';
+export const DELIVERY_HEADER = 'x-checkout-delivery';
+
+export function generateEndpointSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// The timestamp is signed with the body so a captured delivery cannot be replayed later
+export function signOutboundPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function verifyOutboundSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceMs: number = 5 * 60 * 1000,
+  now: Date = new Date()
+): boolean {
+  const parts = new Map(header.split(',').map(part => part.trim().split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isFinite(timestamp) || !signature) {
+    return false;
+  }
+  if (toleranceMs && Math.abs(now.getTime() - timestamp * 1000) > toleranceMs) {
+    return false;
+  }
+
+  const expected = Buffer.from(signOutboundPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,120 @@
+import { ManualClock } from '../core/clock';
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { LocalWebhookReceiver } from './local-webhook-receiver';
+import { OutboundWebhookService } from './outbound-webhook-service';
+import { DELIVERY_HEADER, EVENT_HEADER, SIGNATURE_HEADER, verifyOutboundSignature } from './outbound-signature';
+import { OutboundWebhookConfig, WebhookTransportResponse } from './types';
+
+const receiver = new LocalWebhookReceiver();
+
+afterEach(async () => {
+  receiver.clear();
+  await receiver.stop();
+});
+
+async function setup(config: Partial<OutboundWebhookConfig> = {}) {
+  const clock = new ManualClock(new Date('2024-03-01T00:00:00Z'));
+  const outboundWebhooks = new OutboundWebhookService({
+    clock,
+    retryConfig: { initialDelay: 1000, strategy: 'fixed' },
+    ...config,
+  });
+  const endpoint = await outboundWebhooks.createEndpoint({ url: await receiver.start(), events: ['payment:*'] });
+  receiver.setSecret(endpoint.secret);
+  return { clock, outboundWebhooks, endpoint };
+}
+
+describe('OutboundWebhookService', () => {
+  it('signs deliveries with the endpoint secret', async () => {
+    const { outboundWebhooks } = await setup();
+
+    const [delivery] = await outboundWebhooks.publish('payment:captured', { paymentId: 'ch_1', amount: 1000 });
+
+    const [request] = receiver.received;
+    expect(delivery.status).toBe('succeeded');
+    expect(request.signatureValid).toBe(true);
+    expect(request.headers[EVENT_HEADER]).toBe('payment:captured');
+    expect(request.headers[DELIVERY_HEADER]).toBe(delivery.id);
+    expect(request.event).toMatchObject({ id: delivery.event.id, data: { paymentId: 'ch_1', amount: 1000 } });
+    expect(verifyOutboundSignature('whsec_other', request.body, request.headers[SIGNATURE_HEADER], 0)).toBe(false);
+  });
+
+  it('skips events outside the endpoint filters', async () => {
+    const { outboundWebhooks } = await setup();
+
+    const deliveries = await outboundWebhooks.publish('subscription:created', { subscriptionId: 'sub_1' });
+
+    expect(deliveries).toHaveLength(0);
+    expect(receiver.received).toHaveLength(0);
+  });
+
+  it('schedules a retry after a failed attempt and sends it once due', async () => {
+    const { clock, outboundWebhooks } = await setup();
+    receiver.respondWith(500);
+
+    const [delivery] = await outboundWebhooks.publish('payment:captured', { paymentId: 'ch_2' });
+    expect(delivery.status).toBe('pending');
+    expect(delivery.nextAttemptAt).toBe('2024-03-01T00:00:01.000Z');
+
+    await outboundWebhooks.processDueDeliveries();
+    expect(receiver.received).toHaveLength(1);
+
+    clock.advance(1000);
+    await outboundWebhooks.processDueDeliveries();
+
+    const retried = await outboundWebhooks.getDelivery(delivery.id);
+    expect(retried!.status).toBe('succeeded');
+    expect(retried!.attempts.map(attempt => attempt.responseStatus)).toEqual([500, 200]);
+    expect(receiver.received.map(request => request.event!.id)).toEqual([delivery.event.id, delivery.event.id]);
+  });
+
+  it('does not send a delivery again while its first attempt is in flight', async () => {
+    let respond: (response: WebhookTransportResponse) => void = () => undefined;
+    const transport = jest.fn(() => new Promise<WebhookTransportResponse>(resolve => { respond = resolve; }));
+    const { outboundWebhooks } = await setup({ transport });
+
+    const publishing = outboundWebhooks.publish('payment:captured', { paymentId: 'ch_3' });
+    while (transport.mock.calls.length === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    await outboundWebhooks.processDueDeliveries();
+    respond({ status: 200 });
+    await publishing;
+
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('disables an endpoint after disableAfterFailures failed attempts', async () => {
+    const { outboundWebhooks, endpoint } = await setup({ disableAfterFailures: 2 });
+    const disabled: any[] = [];
+    const listener = (data: any) => disabled.push(data);
+    CheckoutEventEmitter.getInstance().on('outbound:endpoint:disabled', listener);
+    receiver.respondWith(500, 500);
+
+    await outboundWebhooks.publish('payment:captured', { paymentId: 'ch_4' });
+    await outboundWebhooks.publish('payment:refunded', { paymentId: 'ch_4' });
+    const skipped = await outboundWebhooks.publish('payment:captured', { paymentId: 'ch_5' });
+    CheckoutEventEmitter.getInstance().off('outbound:endpoint:disabled', listener);
+
+    const current = await outboundWebhooks.getEndpoint(endpoint.id);
+    expect(current!.enabled).toBe(false);
+    expect(current!.consecutiveFailures).toBe(2);
+    expect(disabled).toHaveLength(1);
+    expect(disabled[0].endpointId).toBe(endpoint.id);
+    expect(skipped).toHaveLength(0);
+    expect(receiver.received).toHaveLength(2);
+  });
+
+  it('redelivers a logged event with the same event id', async () => {
+    const { outboundWebhooks } = await setup();
+    const [original] = await outboundWebhooks.publish('payment:captured', { paymentId: 'ch_6' });
+
+    const redelivery = await outboundWebhooks.redeliver(original.id);
+
+    expect(redelivery.id).not.toBe(original.id);
+    expect(redelivery.redeliveryOf).toBe(original.id);
+    expect(redelivery.status).toBe('succeeded');
+    expect(receiver.received.map(request => request.event!.id)).toEqual([original.event.id, original.event.id]);
+    expect(receiver.received.every(request => request.signatureValid)).toBe(true);
+  });
+});
@@ -0,0 +1,452 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { systemClock } from '../core/clock';
+import { RetryService } from '../retry/retry-service';
+import {
+  CreateWebhookEndpointParams,
+  OutboundEventPayload,
+  OutboundWebhookConfig,
+  UpdateWebhookEndpointParams,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEndpoint
+} from './types';
+import { InMemoryWebhookDeliveryRepository, InMemoryWebhookEndpointRepository } from './outbound-repository';
+import { httpTransport } from './outbound-transport';
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  generateEndpointSecret,
+  signOutboundPayload
+} from './outbound-signature';
+import {
+  InvalidWebhookEndpointError,
+  WebhookDeliveryNotFoundError,
+  WebhookEndpointDisabledError,
+  WebhookEndpointNotFoundError
+} from './errors';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+const MAX_LOGGED_RESPONSE = 1024;
+const IN_FLIGHT_MARGIN_MS = 60 * 1000;
+
+export function matchesEventFilter(filters: string[], event: string): boolean {
+  return filters.some(filter =>
+    filter === '*' || filter === event || (filter.endsWith('*') && event.startsWith(filter.slice(0, -1)))
+  );
+}
+
+export class OutboundWebhookService {
+  private eventEmitter: CheckoutEventEmitter;
+  private config: OutboundWebhookConfig;
+  private retryService: RetryService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private eventListener = (event: string | string[], data: any) => {
+    const name = Array.isArray(event) ? event.join(':') : event;
+
+    // Our own delivery events are never forwarded, or a failing endpoint would feed itself
+    if (name.startsWith('outbound:') || !matchesEventFilter(this.config.events, name)) {
+      return;
+    }
+
+    this.publish(name, data).catch(error => {
+      logger.error(`Outbound webhook publish failed for ${name}: ${error.message}`);
+    });
+  };
+
+  constructor(config?: Partial<OutboundWebhookConfig>) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.config = {
+      endpointRepository: config?.endpointRepository || new InMemoryWebhookEndpointRepository(),
+      deliveryRepository: config?.deliveryRepository || new InMemoryWebhookDeliveryRepository(),
+      transport: config?.transport || httpTransport,
+      events: config?.events || ['payment:*', 'subscription:*'],
+      maxAttempts: config?.maxAttempts || 6,
+      retryConfig: config?.retryConfig,
+      disableAfterFailures: config?.disableAfterFailures || 20,
+      timeoutMs: config?.timeoutMs || 10000,
+      intervalMs: config?.intervalMs || 5000,
+      clock: config?.clock || systemClock,
+    };
+    this.retryService = new RetryService({ initialDelay: 30000, maxDelay: 6 * 60 * 60 * 1000, ...config?.retryConfig });
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.eventEmitter.onAny(this.eventListener);
+    this.timer = setInterval(() => {
+      this.processDueDeliveries().catch(error => {
+        logger.error(`Outbound webhook retry run failed: ${error.message}`);
+      });
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    this.eventEmitter.offAny(this.eventListener);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async createEndpoint(params: CreateWebhookEndpointParams): Promise<WebhookEndpoint> {
+    this.validateEndpoint(params.url, params.events);
+
+    const now = this.config.clock.now().toISOString();
+    const endpoint: WebhookEndpoint = {
+      id: `we_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      url: params.url,
+      secret: params.secret || generateEndpointSecret(),
+      events: params.events,
+      description: params.description,
+      enabled: true,
+      consecutiveFailures: 0,
+      metadata: params.metadata || {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.config.endpointRepository.save(endpoint);
+
+    // Emit endpoint created event
+    this.eventEmitter.emitEvent('outbound:endpoint:created', {
+      endpointId: endpoint.id,
+      url: endpoint.url,
+      events: endpoint.events,
+      timestamp: now,
+    });
+
+    logger.info(`Webhook endpoint created: ${endpoint.id} (${endpoint.url})`);
+    return endpoint;
+  }
+
+  async getEndpoint(endpointId: string): Promise<WebhookEndpoint | null> {
+    return this.config.endpointRepository.get(endpointId);
+  }
+
+  async listEndpoints(): Promise<WebhookEndpoint[]> {
+    return this.config.endpointRepository.list();
+  }
+
+  async updateEndpoint(params: UpdateWebhookEndpointParams): Promise<WebhookEndpoint> {
+    const endpoint = await this.loadEndpoint(params.endpointId);
+    const updated: WebhookEndpoint = {
+      ...endpoint,
+      ...params.updates,
+      updatedAt: this.config.clock.now().toISOString(),
+    };
+    this.validateEndpoint(updated.url, updated.events);
+    await this.config.endpointRepository.save(updated);
+    return updated;
+  }
+
+  async deleteEndpoint(endpointId: string): Promise<void> {
+    const endpoint = await this.loadEndpoint(endpointId);
+    await this.config.endpointRepository.delete(endpoint.id);
+
+    // Emit endpoint deleted event
+    this.eventEmitter.emitEvent('outbound:endpoint:deleted', {
+      endpointId: endpoint.id,
+      url: endpoint.url,
+      timestamp: this.config.clock.now().toISOString(),
+    });
+  }
+
+  async rotateSecret(endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.loadEndpoint(endpointId);
+    const updated: WebhookEndpoint = {
+      ...endpoint,
+      secret: generateEndpointSecret(),
+      updatedAt: this.config.clock.now().toISOString(),
+    };
+    await this.config.endpointRepository.save(updated);
+    return updated;
+  }
+
+  async enableEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.loadEndpoint(endpointId);
+    const updated: WebhookEndpoint = {
+      ...endpoint,
+      enabled: true,
+      consecutiveFailures: 0,
+      disabledAt: undefined,
+      disabledReason: undefined,
+      updatedAt: this.config.clock.now().toISOString(),
+    };
+    await this.config.endpointRepository.save(updated);
+
+    // Emit endpoint enabled event
+    this.eventEmitter.emitEvent('outbound:endpoint:enabled', {
+      endpointId: updated.id,
+      url: updated.url,
+      timestamp: updated.updatedAt,
+    });
+
+    return updated;
+  }
+
+  async disableEndpoint(endpointId: string, reason: string = 'Disabled manually'): Promise<WebhookEndpoint> {
+    return this.disable(await this.loadEndpoint(endpointId), reason);
+  }
+
+  async publish(event: string, data: Record<string, any>): Promise<WebhookDelivery[]> {
+    const { _metadata, ...fields } = data;
+    const now = this.config.clock.now().toISOString();
+    const payload: OutboundEventPayload = {
+      id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: event,
+      createdAt: now,
+      data: fields,
+    };
+
+    const endpoints = (await this.config.endpointRepository.list())
+      .filter(endpoint => endpoint.enabled && matchesEventFilter(endpoint.events, event));
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const endpoint of endpoints) {
+      const delivery = await this.createDelivery(endpoint, payload);
+      deliveries.push(await this.attemptDelivery(delivery, endpoint));
+    }
+    return deliveries;
+  }
+
+  async listDeliveries(endpointId: string, limit?: number): Promise<WebhookDelivery[]> {
+    const deliveries = await this.config.deliveryRepository.listByEndpoint(endpointId);
+    return limit ? deliveries.slice(0, limit) : deliveries;
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.config.deliveryRepository.get(deliveryId);
+  }
+
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const original = await this.config.deliveryRepository.get(deliveryId);
+    if (!original) {
+      throw new WebhookDeliveryNotFoundError(deliveryId);
+    }
+
+    const endpoint = await this.loadEndpoint(original.endpointId);
+    if (!endpoint.enabled) {
+      throw new WebhookEndpointDisabledError(endpoint.id);
+    }
+
+    // The subscriber sees the same event id again, so it can deduplicate redeliveries
+    const delivery = await this.createDelivery(endpoint, original.event, original.id);
+    logger.info(`Redelivering ${original.id} to ${endpoint.url} as ${delivery.id}`);
+    return this.attemptDelivery(delivery, endpoint);
+  }
+
+  async processDueDeliveries(now: Date = this.config.clock.now()): Promise<void> {
+    // Overlapping ticks would send the same delivery twice
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const due = (await this.config.deliveryRepository.listPending())
+        .filter(delivery => !delivery.nextAttemptAt || new Date(delivery.nextAttemptAt).getTime() <= now.getTime());
+
+      for (const delivery of due) {
+        const endpoint = await this.config.endpointRepository.get(delivery.endpointId);
+
+        // Deliveries to disabled endpoints wait; enabling the endpoint lets them continue
+        if (!endpoint || !endpoint.enabled) {
+          continue;
+        }
+
+        try {
+          const held: WebhookDelivery = { ...delivery, nextAttemptAt: this.inFlightUntil(now) };
+          await this.config.deliveryRepository.save(held);
+          await this.attemptDelivery(held, endpoint);
+        } catch (error) {
+          logger.error(`Outbound webhook delivery ${delivery.id} failed: ${errorMessage(error)}`);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async createDelivery(
+    endpoint: WebhookEndpoint,
+    event: OutboundEventPayload,
+    redeliveryOf?: string
+  ): Promise<WebhookDelivery> {
+    const now = this.config.clock.now();
+    const delivery: WebhookDelivery = {
+      id: `whd_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      endpointId: endpoint.id,
+      event,
+      status: 'pending',
+      attempts: [],
+      // The first attempt follows right away; the sweep only takes over if it never finishes
+      nextAttemptAt: this.inFlightUntil(now),
+      redeliveryOf,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await this.config.deliveryRepository.save(delivery);
+    return delivery;
+  }
+
+  // An attempt holds its delivery past the request timeout, so a sweep cannot send it a second time
+  private inFlightUntil(now: Date): string {
+    return new Date(now.getTime() + this.config.timeoutMs + IN_FLIGHT_MARGIN_MS).toISOString();
+  }
+
+  private async attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+    const requestedAt = this.config.clock.now();
+    const body = JSON.stringify(delivery.event);
+    const timestamp = Math.floor(requestedAt.getTime() / 1000);
+    const attempt: WebhookDeliveryAttempt = {
+      attempt: delivery.attempts.length + 1,
+      requestedAt: requestedAt.toISOString(),
+      durationMs: 0,
+    };
+
+    const started = Date.now();
+    try {
+      const response = await this.config.transport({
+        url: endpoint.url,
+        headers: {
+          'content-type': 'application/json',
+          'user-agent': 'checkout-core-webhooks',
+          [SIGNATURE_HEADER]: signOutboundPayload(endpoint.secret, body, timestamp),
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [EVENT_HEADER]: delivery.event.type,
+          [DELIVERY_HEADER]: delivery.id,
+        },
+        body,
+        timeoutMs: this.config.timeoutMs,
+      });
+
+      attempt.responseStatus = response.status;
+      attempt.responseBody = response.body?.slice(0, MAX_LOGGED_RESPONSE);
+      if (response.status < 200 || response.status >= 300) {
+        attempt.error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      attempt.error = errorMessage(error);
+    }
+    attempt.durationMs = Date.now() - started;
+
+    const now = this.config.clock.now();
+    const attempts = [...delivery.attempts, attempt];
+    const exhausted = attempts.length >= this.config.maxAttempts;
+    const updated: WebhookDelivery = {
+      ...delivery,
+      attempts,
+      status: !attempt.error ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      nextAttemptAt: attempt.error && !exhausted
+        ? new Date(now.getTime() + this.retryService.calculateDelay(attempts.length)).toISOString()
+        : undefined,
+      updatedAt: now.toISOString(),
+    };
+    await this.config.deliveryRepository.save(updated);
+    await this.recordEndpointResult(endpoint.id, !attempt.error);
+
+    const eventData = {
+      deliveryId: updated.id,
+      endpointId: endpoint.id,
+      url: endpoint.url,
+      eventId: updated.event.id,
+      eventType: updated.event.type,
+      attempt: attempt.attempt,
+      responseStatus: attempt.responseStatus,
+      timestamp: updated.updatedAt,
+    };
+    if (updated.status === 'succeeded') {
+      // Emit delivery succeeded event
+      this.eventEmitter.emitEvent('outbound:delivery:succeeded', eventData);
+    } else if (updated.status === 'pending') {
+      // Emit delivery retry scheduled event
+      this.eventEmitter.emitEvent('outbound:delivery:retry:scheduled', {
+        ...eventData,
+        error: attempt.error,
+        nextAttemptAt: updated.nextAttemptAt,
+      });
+      logger.warn(`Webhook delivery ${updated.id} to ${endpoint.url} failed: ${attempt.error}`);
+    } else {
+      // Emit delivery failed event
+      this.eventEmitter.emitEvent('outbound:delivery:failed', { ...eventData, error: attempt.error });
+      logger.error(`Webhook delivery ${updated.id} to ${endpoint.url} failed after ${attempts.length} attempts`);
+    }
+
+    return updated;
+  }
+
+  private async recordEndpointResult(endpointId: string, succeeded: boolean): Promise<void> {
+    // Reload so concurrent deliveries to one endpoint all count
+    const endpoint = await this.config.endpointRepository.get(endpointId);
+    if (!endpoint || (succeeded && endpoint.consecutiveFailures === 0)) {
+      return;
+    }
+
+    const consecutiveFailures = succeeded ? 0 : endpoint.consecutiveFailures + 1;
+    const updated: WebhookEndpoint = {
+      ...endpoint,
+      consecutiveFailures,
+      updatedAt: this.config.clock.now().toISOString(),
+    };
+
+    if (endpoint.enabled && consecutiveFailures >= this.config.disableAfterFailures) {
+      await this.disable(updated, `${consecutiveFailures} consecutive failed delivery attempts`);
+      return;
+    }
+    await this.config.endpointRepository.save(updated);
+  }
+
+  private async disable(endpoint: WebhookEndpoint, reason: string): Promise<WebhookEndpoint> {
+    const now = this.config.clock.now().toISOString();
+    const disabled: WebhookEndpoint = {
+      ...endpoint,
+      enabled: false,
+      disabledAt: now,
+      disabledReason: reason,
+      updatedAt: now,
+    };
+    await this.config.endpointRepository.save(disabled);
+
+    // Emit endpoint disabled event
+    this.eventEmitter.emitEvent('outbound:endpoint:disabled', {
+      endpointId: disabled.id,
+      url: disabled.url,
+      reason,
+      consecutiveFailures: disabled.consecutiveFailures,
+      timestamp: now,
+    });
+
+    logger.warn(`Webhook endpoint ${disabled.id} disabled: ${reason}`);
+    return disabled;
+  }
+
+  private validateEndpoint(url: string, events: string[]): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new InvalidWebhookEndpointError(`${url} is not a valid URL`);
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new InvalidWebhookEndpointError(`${url} must use http or https`);
+    }
+    if (!events || events.length === 0) {
+      throw new InvalidWebhookEndpointError('at least one event filter is required');
+    }
+  }
+
+  private async loadEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.config.endpointRepository.get(endpointId);
+    if (!endpoint) {
+      throw new WebhookEndpointNotFoundError(endpointId);
+    }
+    return endpoint;
+  }
+}
@@ -0,0 +1,110 @@
+import { Clock } from '../core/clock';
+import type { RetryConfig } from '../retry/types';
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  // Shared secret for the HMAC-SHA256 signature
+  secret: string;
+  // Event names or prefixes ending in '*', e.g. 'payment:captured' or 'subscription:*'
+  events: string[];
+  description?: string;
+  enabled: boolean;
+  // Failed delivery attempts since the last success
+  consecutiveFailures: number;
+  disabledAt?: string;
+  disabledReason?: string;
+  metadata: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebhookEndpointParams {
+  url: string;
+  events: string[];
+  description?: string;
+  secret?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateWebhookEndpointParams {
+  endpointId: string;
+  updates: Partial<Pick<WebhookEndpoint, 'url' | 'events' | 'description' | 'metadata'>>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  requestedAt: string;
+  durationMs: number;
+  responseStatus?: number;
+  // Truncated response body, kept for debugging subscriber errors
+  responseBody?: string;
+  error?: string;
+}
+
+export interface OutboundEventPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: OutboundEventPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: string;
+  // Set on manual redeliveries to the delivery they repeat
+  redeliveryOf?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookEndpointRepository {
+  get(id: string): Promise<WebhookEndpoint | null>;
+  save(endpoint: WebhookEndpoint): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<WebhookEndpoint[]>;
+}
+
+export interface WebhookDeliveryRepository {
+  get(id: string): Promise<WebhookDelivery | null>;
+  save(delivery: WebhookDelivery): Promise<void>;
+  // Newest first
+  listByEndpoint(endpointId: string): Promise<WebhookDelivery[]>;
+  listPending(): Promise<WebhookDelivery[]>;
+}
+
+export interface WebhookTransportRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+}
+
+export interface WebhookTransportResponse {
+  status: number;
+  body?: string;
+}
+
+export type WebhookTransport = (request: WebhookTransportRequest) => Promise<WebhookTransportResponse>;
+
+export interface OutboundWebhookConfig {
+  endpointRepository: WebhookEndpointRepository;
+  deliveryRepository: WebhookDeliveryRepository;
+  transport: WebhookTransport;
+  // Internal events forwarded to endpoints; endpoint filters narrow these further
+  events: string[];
+  // Attempts per delivery, including the first
+  maxAttempts: number;
+  retryConfig?: Partial<RetryConfig>;
+  // Consecutive failed attempts after which an endpoint is disabled
+  disableAfterFailures: number;
+  timeoutMs: number;
+  intervalMs: number;
+  clock: Clock;
+}
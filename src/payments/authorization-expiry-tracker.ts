@@ -0,0 +1,62 @@
+import { PaymentService } from './payment-service';
+import { AuthorizationExpiryConfig } from './types';
+import { systemClock } from '../core/clock';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+export class AuthorizationExpiryTracker {
+  private paymentService: PaymentService;
+  private config: AuthorizationExpiryConfig;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(paymentService: PaymentService, config?: Partial<AuthorizationExpiryConfig>) {
+    this.paymentService = paymentService;
+    this.config = {
+      warningMs: config?.warningMs ?? 24 * 60 * 60 * 1000,
+      intervalMs: config?.intervalMs || 15 * 60 * 1000,
+      clock: config?.clock || systemClock,
+    };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error(`Authorization expiry run failed: ${error.message}`);
+      });
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now: Date = this.config.clock.now()): Promise<void> {
+    const open = await this.paymentService.listOpenAuthorizations();
+
+    for (const ledger of open) {
+      if (!ledger.expiresAt) {
+        continue;
+      }
+
+      try {
+        const expiresAt = new Date(ledger.expiresAt).getTime();
+
+        if (expiresAt <= now.getTime()) {
+          await this.paymentService.expireAuthorization(ledger.id);
+        } else if (expiresAt - this.config.warningMs <= now.getTime() && !ledger.expiryNotifiedAt) {
+          await this.paymentService.notifyAuthorizationExpiring(ledger.id);
+        }
+      } catch (error) {
+        logger.error(`Authorization expiry check failed for payment intent ${ledger.id}: ${errorMessage(error)}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { CheckoutError } from '../core/errors';
+import type { PaymentNextAction } from './types';
+
+export class IdempotencyKeyReusedError extends CheckoutError {
+  readonly idempotencyKey: string;
+
+  constructor(idempotencyKey: string) {
+    super(`Idempotency key was already used with different parameters: ${idempotencyKey}`, 'idempotency_key_reused');
+    this.idempotencyKey = idempotencyKey;
+  }
+}
+
+export class IdempotencyKeyInProgressError extends CheckoutError {
+  readonly idempotencyKey: string;
+
+  constructor(idempotencyKey: string) {
+    super(`A request with this idempotency key is still in progress: ${idempotencyKey}`, 'idempotency_key_in_progress');
+    this.idempotencyKey = idempotencyKey;
+  }
+}
+
+export class PaymentProviderError extends CheckoutError {
+  readonly provider: string;
+  readonly retryable: boolean;
+  readonly declineCode?: string;
+  readonly paymentIntentId?: string;
+
+  constructor(
+    message: string,
+    code: string,
+    provider: string,
+    options: { retryable?: boolean; declineCode?: string; paymentIntentId?: string } = {}
+  ) {
+    super(message, code);
+    this.provider = provider;
+    this.retryable = options.retryable || false;
+    this.declineCode = options.declineCode;
+    this.paymentIntentId = options.paymentIntentId;
+  }
+}
+
+export class UnsupportedProviderError extends CheckoutError {
+  readonly provider: string;
+
+  constructor(provider: string) {
+    super(`Unsupported payment provider: ${provider}`, 'unsupported_provider');
+    this.provider = provider;
+  }
+}
+
+export class CapabilityNotSupportedError extends CheckoutError {
+  readonly provider: string;
+  readonly capability: string;
+
+  constructor(provider: string, capability: string, detail?: string) {
+    super(
+      `Payment provider ${provider} does not support ${capability}${detail ? `: ${detail}` : ''}`,
+      'capability_not_supported'
+    );
+    this.provider = provider;
+    this.capability = capability;
+  }
+}
+
+export class NoEligibleProviderError extends CheckoutError {
+  constructor(detail: string) {
+    super(`No eligible payment provider: ${detail}`, 'no_eligible_provider');
+  }
+}
+
+export class InvalidAuthorizationStateError extends CheckoutError {
+  readonly paymentIntentId: string;
+  readonly status: string;
+
+  constructor(paymentIntentId: string, status: string, action: string) {
+    super(`Cannot ${action} payment intent ${paymentIntentId} in authorization status ${status}`, 'invalid_authorization_state');
+    this.paymentIntentId = paymentIntentId;
+    this.status = status;
+  }
+}
+
+export class CaptureExceedsAuthorizationError extends CheckoutError {
+  readonly paymentIntentId: string;
+  readonly amount: number;
+  readonly remaining: number;
+
+  constructor(paymentIntentId: string, amount: number, remaining: number) {
+    super(
+      `Capture of ${amount} exceeds the ${remaining} remaining on payment intent ${paymentIntentId}`,
+      'capture_exceeds_authorization'
+    );
+    this.paymentIntentId = paymentIntentId;
+    this.amount = amount;
+    this.remaining = remaining;
+  }
+}
+
+export class RefundExceedsCapturedError extends CheckoutError {
+  readonly paymentIntentId: string;
+  readonly amount: number;
+  readonly refundable: number;
+
+  constructor(paymentIntentId: string, amount: number, refundable: number) {
+    super(
+      `Refund of ${amount} exceeds the ${refundable} still refundable on payment intent ${paymentIntentId}`,
+      'refund_exceeds_captured'
+    );
+    this.paymentIntentId = paymentIntentId;
+    this.amount = amount;
+    this.refundable = refundable;
+  }
+}
+
+export class InvalidRefundReasonError extends CheckoutError {
+  constructor(reason: string) {
+    super(`Unknown refund reason: ${reason}`, 'invalid_refund_reason');
+  }
+}
+
+export class PaymentActionRequiredError extends CheckoutError {
+  readonly paymentIntentId: string;
+  readonly nextAction?: PaymentNextAction;
+
+  constructor(paymentIntentId: string, nextAction?: PaymentNextAction) {
+    super(`Payment intent ${paymentIntentId} requires customer action: ${nextAction?.type || 'unknown'}`, 'payment_action_required');
+    this.paymentIntentId = paymentIntentId;
+    this.nextAction = nextAction;
+  }
+}
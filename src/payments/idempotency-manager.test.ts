@@ -0,0 +1,91 @@
+import { IdempotencyManager } from './idempotency-manager';
+import { InMemoryIdempotencyStore } from './idempotency-store';
+import { IdempotencyKeyReusedError } from './errors';
+
+describe('IdempotencyManager', () => {
+  it('replays the stored result for a repeated key', async () => {
+    const manager = new IdempotencyManager();
+    const run = jest.fn().mockResolvedValue({ id: 'pi_1' });
+
+    const first = await manager.execute('payment_intent.create', { idempotencyKey: 'k1', amount: 100 }, run);
+    const second = await manager.execute('payment_intent.create', { idempotencyKey: 'k1', amount: 100 }, run);
+
+    expect(first).toEqual({ result: { id: 'pi_1' }, replayed: false });
+    expect(second).toEqual({ result: { id: 'pi_1' }, replayed: true });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one execution between concurrent callers', async () => {
+    const manager = new IdempotencyManager();
+    const run = jest.fn(() => new Promise(resolve => setTimeout(() => resolve('done'), 20)));
+
+    const results = await Promise.all([
+      manager.execute('payment.capture', { idempotencyKey: 'k1' }, run),
+      manager.execute('payment.capture', { idempotencyKey: 'k1' }, run),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.replayed).sort()).toEqual([false, true]);
+  });
+
+  it('rejects a key reused with different parameters', async () => {
+    const manager = new IdempotencyManager();
+    await manager.execute('payment.refund', { idempotencyKey: 'k1', amount: 100 }, async () => 'ok');
+
+    await expect(
+      manager.execute('payment.refund', { idempotencyKey: 'k1', amount: 200 }, async () => 'ok')
+    ).rejects.toBeInstanceOf(IdempotencyKeyReusedError);
+  });
+
+  it('scopes keys by operation', async () => {
+    const manager = new IdempotencyManager();
+    await manager.execute('payment_intent.create', { idempotencyKey: 'k1' }, async () => 'intent');
+
+    const capture = await manager.execute('payment.capture', { idempotencyKey: 'k1' }, async () => 'capture');
+
+    expect(capture).toEqual({ result: 'capture', replayed: false });
+  });
+
+  it('does not cache failures', async () => {
+    const manager = new IdempotencyManager();
+    await expect(
+      manager.execute('payment.capture', { idempotencyKey: 'k1' }, async () => { throw new Error('declined'); })
+    ).rejects.toThrow('declined');
+
+    const retry = await manager.execute('payment.capture', { idempotencyKey: 'k1' }, async () => 'captured');
+    expect(retry).toEqual({ result: 'captured', replayed: false });
+  });
+
+  it('takes over an in_progress record whose lease has run out', async () => {
+    const store = new InMemoryIdempotencyStore();
+    const manager = new IdempotencyManager(store, 60 * 1000, 1000, 1000);
+    const first = await manager.execute('payment.capture', { idempotencyKey: 'k1' }, async () => 'captured');
+    const record = await store.get('payment.capture:k1');
+
+    // A process that crashed mid-request leaves its record behind with an expired lease
+    await store.save({
+      ...record!,
+      status: 'in_progress',
+      response: undefined,
+      leaseExpiresAt: new Date(Date.now() - 1).toISOString(),
+    });
+
+    const recovered = await manager.execute('payment.capture', { idempotencyKey: 'k1' }, async () => 'recaptured');
+    expect(first.result).toBe('captured');
+    expect(recovered).toEqual({ result: 'recaptured', replayed: false });
+  });
+
+  it('waits on an in_progress record whose owner still holds the lease', async () => {
+    const store = new InMemoryIdempotencyStore();
+    const owner = new IdempotencyManager(store, 60 * 1000, 1000, 1000);
+    const waiter = new IdempotencyManager(store, 60 * 1000, 1000, 1000);
+    const run = jest.fn(() => new Promise(resolve => setTimeout(() => resolve('done'), 100)));
+
+    const running = owner.execute('payment.capture', { idempotencyKey: 'k1' }, run);
+    const waited = await waiter.execute('payment.capture', { idempotencyKey: 'k1' }, run);
+
+    expect(await running).toEqual({ result: 'done', replayed: false });
+    expect(waited).toEqual({ result: 'done', replayed: true });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
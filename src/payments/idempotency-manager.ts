@@ -0,0 +1,210 @@
+import { createHash } from 'crypto';
+import { IdempotencyRecord, IdempotencyStore } from './types';
+import { InMemoryIdempotencyStore } from './idempotency-store';
+import { IdempotencyKeyInProgressError, IdempotencyKeyReusedError } from './errors';
+
+export interface IdempotentResult<T> {
+  result: T;
+  replayed: boolean;
+}
+
+export interface IdempotencyContext {
+  // Choices pinned by an earlier attempt with the same key that failed or died, e.g. its provider
+  pinned?: Record<string, any>;
+  // Stored on the key so a retry after a failure or crash makes the same choice
+  pin(values: Record<string, any>): Promise<void>;
+}
+
+interface InFlightExecution {
+  paramsHash: string;
+  execution: Promise<IdempotentResult<any>>;
+}
+
+const POLL_INTERVAL_MS = 50;
+
+export class IdempotencyManager {
+  private store: IdempotencyStore;
+  private ttlMs: number;
+  private waitTimeoutMs: number;
+  private leaseMs: number;
+  private inFlight: Map<string, InFlightExecution>;
+
+  constructor(
+    store?: IdempotencyStore,
+    ttlMs: number = 24 * 60 * 60 * 1000,
+    waitTimeoutMs: number = 30 * 1000,
+    leaseMs: number = 30 * 1000
+  ) {
+    this.store = store || new InMemoryIdempotencyStore();
+    this.ttlMs = ttlMs;
+    this.waitTimeoutMs = waitTimeoutMs;
+    this.leaseMs = leaseMs;
+    this.inFlight = new Map();
+  }
+
+  async execute<T>(
+    operation: string,
+    params: { idempotencyKey?: string },
+    run: (context: IdempotencyContext) => Promise<T>
+  ): Promise<IdempotentResult<T>> {
+    if (!params.idempotencyKey) {
+      return { result: await run({ pin: async () => undefined }), replayed: false };
+    }
+
+    // Keys are scoped by operation, so a capture may reuse the key of the intent it captures
+    const key = `${operation}:${params.idempotencyKey}`;
+    const paramsHash = hashParams(operation, params);
+
+    // Concurrent callers in this process share the pending execution
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      if (pending.paramsHash !== paramsHash) {
+        throw new IdempotencyKeyReusedError(params.idempotencyKey);
+      }
+      return { ...(await pending.execution), replayed: true };
+    }
+
+    const execution = this.executeOnce(operation, key, params.idempotencyKey, paramsHash, run);
+    this.inFlight.set(key, { paramsHash, execution });
+
+    try {
+      return await execution;
+    } finally {
+      if (this.inFlight.get(key)?.execution === execution) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  private async executeOnce<T>(
+    operation: string,
+    key: string,
+    idempotencyKey: string,
+    paramsHash: string,
+    run: (context: IdempotencyContext) => Promise<T>,
+    pinned?: Record<string, any>
+  ): Promise<IdempotentResult<T>> {
+    const now = new Date();
+    let record: IdempotencyRecord = {
+      key,
+      operation,
+      paramsHash,
+      status: 'in_progress',
+      pinned,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+      leaseExpiresAt: new Date(now.getTime() + this.leaseMs).toISOString(),
+    };
+
+    if (!(await this.store.create(record))) {
+      const settled = await this.waitForSettled(key, idempotencyKey, paramsHash);
+      if (settled?.status === 'completed') {
+        return { result: settled.response, replayed: true };
+      }
+      // The earlier attempt failed, or its owner died and the lease ran out; what it pinned carries over
+      return this.executeOnce(operation, key, idempotencyKey, paramsHash, run, settled?.pinned || pinned);
+    }
+
+    // In-progress writes go out in order, so a late lease renewal never overwrites the outcome
+    let writes: Promise<void> = Promise.resolve();
+    const write = (next: IdempotencyRecord) => {
+      writes = writes.then(() => this.store.save(next)).catch(() => undefined);
+      return writes;
+    };
+
+    // Renew the lease while running so other processes only take over from an owner that is gone
+    const heartbeat = setInterval(() => {
+      record = { ...record, leaseExpiresAt: new Date(Date.now() + this.leaseMs).toISOString() };
+      write(record);
+    }, this.leaseMs / 2);
+    heartbeat.unref();
+    const settle = async () => {
+      clearInterval(heartbeat);
+      await writes;
+    };
+
+    const context: IdempotencyContext = {
+      pinned,
+      pin: values => {
+        record = { ...record, pinned: { ...record.pinned, ...values } };
+        return write(record);
+      },
+    };
+
+    try {
+      const result = await run(context);
+      await settle();
+      await this.store.save({ ...record, status: 'completed', response: result, leaseExpiresAt: undefined });
+      return { result, replayed: false };
+    } catch (error) {
+      await settle();
+      // Failures are not cached so the caller can retry with the same key; pinned choices are kept for that retry
+      if (record.pinned) {
+        await this.store.save({ ...record, status: 'failed', leaseExpiresAt: undefined });
+      } else {
+        await this.store.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  private async waitForSettled(
+    key: string,
+    idempotencyKey: string,
+    paramsHash: string
+  ): Promise<IdempotencyRecord | null> {
+    // Another process owns the key; poll the shared store until it settles
+    const deadline = Date.now() + this.waitTimeoutMs;
+
+    while (true) {
+      const record = await this.store.get(key);
+      if (!record) {
+        return null;
+      }
+      if (record.paramsHash !== paramsHash) {
+        throw new IdempotencyKeyReusedError(idempotencyKey);
+      }
+      if (record.status === 'completed') {
+        return record;
+      }
+      if (record.status === 'failed'
+        || (record.leaseExpiresAt && new Date(record.leaseExpiresAt).getTime() <= Date.now())) {
+        await this.release(record);
+        return record;
+      }
+      if (Date.now() >= deadline) {
+        throw new IdempotencyKeyInProgressError(idempotencyKey);
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  private async release(settled: IdempotencyRecord): Promise<void> {
+    // Re-read first so a record another waiter already took over is left alone;
+    // the atomic create that follows decides which waiter runs
+    const current = await this.store.get(settled.key);
+    if (current && current.status === settled.status && current.createdAt === settled.createdAt
+      && current.leaseExpiresAt === settled.leaseExpiresAt) {
+      await this.store.delete(settled.key);
+    }
+  }
+}
+
+function hashParams(operation: string, params: Record<string, any>): string {
+  const { idempotencyKey, ...rest } = params;
+  return createHash('sha256').update(`${operation}:${stableStringify(rest)}`).digest('hex');
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
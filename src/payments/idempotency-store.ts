@@ -0,0 +1,88 @@
+import { IdempotencyRecord, IdempotencyStore } from './types';
+
+// Subset of the ioredis client API; any client with the same command signatures works
+export interface RedisCompatibleClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ...args: (string | number)[]): Promise<string | null>;
+  del(key: string): Promise<number>;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records: Map<string, IdempotencyRecord>;
+
+  constructor() {
+    this.records = new Map();
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const record = this.live(key);
+    return record ? { ...record } : null;
+  }
+
+  async create(record: IdempotencyRecord): Promise<boolean> {
+    // Checked and set without yielding, so concurrent creates cannot both win
+    if (this.live(record.key)) {
+      return false;
+    }
+    this.records.set(record.key, { ...record });
+    return true;
+  }
+
+  async save(record: IdempotencyRecord): Promise<void> {
+    this.records.set(record.key, { ...record });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  private live(key: string): IdempotencyRecord | null {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+    if (new Date(record.expiresAt) <= new Date()) {
+      this.records.delete(key);
+      return null;
+    }
+    return record;
+  }
+}
+
+export class RedisIdempotencyStore implements IdempotencyStore {
+  private client: RedisCompatibleClient;
+  private prefix: string;
+
+  constructor(client: RedisCompatibleClient, prefix: string = 'checkout:idempotency:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const value = await this.client.get(this.prefix + key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async create(record: IdempotencyRecord): Promise<boolean> {
+    const result = await this.client.set(
+      this.prefix + record.key,
+      JSON.stringify(record),
+      'PX',
+      this.ttlMs(record),
+      'NX'
+    );
+    return result === 'OK';
+  }
+
+  async save(record: IdempotencyRecord): Promise<void> {
+    await this.client.set(this.prefix + record.key, JSON.stringify(record), 'PX', this.ttlMs(record));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  private ttlMs(record: IdempotencyRecord): number {
+    return Math.max(new Date(record.expiresAt).getTime() - Date.now(), 1);
+  }
+}
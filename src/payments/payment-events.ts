@@ -0,0 +1,67 @@
+export const PAYMENT_EVENTS = {
+  // Intent Events
+  INTENT_CREATED: 'payment:intent:created',
+  INTENT_FAILED: 'payment:intent:failed',
+  ROUTED: 'payment:routed',
+  FAILOVER: 'payment:failover',
+
+  // Authentication Events
+  ACTION_REQUIRED: 'payment:action:required',
+  ACTION_COMPLETED: 'payment:action:completed',
+  CONFIRM_FAILED: 'payment:confirm:failed',
+
+  // Capture Events
+  CAPTURED: 'payment:captured',
+  CAPTURE_FAILED: 'payment:capture:failed',
+  FAILED: 'payment:failed',
+  DECLINED: 'payment:declined',
+
+  // Authorization Events
+  AUTHORIZATION_VOIDED: 'payment:authorization:voided',
+  AUTHORIZATION_VOID_FAILED: 'payment:authorization:void:failed',
+  AUTHORIZATION_EXPIRING: 'payment:authorization:expiring',
+  AUTHORIZATION_EXPIRED: 'payment:authorization:expired',
+  AUTHORIZATION_RELEASED: 'payment:authorization:released',
+
+  // Refund Events
+  REFUNDED: 'payment:refunded',
+  REFUND_FAILED: 'payment:refund:failed',
+  REFUND_UPDATED: 'payment:refund:updated',
+
+  // Risk Events
+  RISK_BLOCKED: 'payment:risk:blocked',
+  RISK_REVIEW: 'payment:risk:review',
+
+  // Provider Events
+  PROVIDER_REGISTERED: 'payment:provider:registered',
+} as const;
+
+export interface PaymentEventData {
+  paymentId: string;
+  paymentIntentId?: string;
+  chargeId?: string;
+  refundId?: string;
+  provider?: string;
+  amount?: number;
+  currency?: string;
+  status: string;
+  customerId?: string;
+  metadata?: Record<string, any>;
+  error?: string;
+  timestamp: string;
+}
+
+// Captures and refunds are reported both by PaymentService and by provider webhooks.
+// Both key them the same way so listeners hear about each one once.
+export function paymentEventKey(
+  event: string,
+  data: Partial<Pick<PaymentEventData, 'paymentIntentId' | 'chargeId' | 'refundId' | 'status'>>
+): string | null {
+  if (event === PAYMENT_EVENTS.CAPTURED && data.paymentIntentId && data.chargeId) {
+    return `${event}:${data.paymentIntentId}:${data.chargeId}:${data.status}`;
+  }
+  if (event === PAYMENT_EVENTS.REFUNDED && data.refundId) {
+    return `${event}:${data.refundId}`;
+  }
+  return null;
+}
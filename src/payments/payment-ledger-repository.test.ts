@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FilePaymentLedgerRepository, InMemoryPaymentLedgerRepository } from './payment-ledger-repository';
+import { PaymentLedger } from './types';
+
+const createdAt = '2024-04-10T00:00:00.000Z';
+
+function ledger(id: string, captureIds: string[], refundIds: string[]): PaymentLedger {
+  return {
+    id,
+    provider: 'mock',
+    currency: 'USD',
+    status: 'captured',
+    authorizedAmount: 1000,
+    capturedAmount: 1000,
+    refundedAmount: 0,
+    releasedAmount: 0,
+    captures: captureIds.map(captureId => ({ id: captureId, amount: 500, status: 'succeeded', final: false, createdAt })),
+    refunds: refundIds.map(refundId => ({
+      id: refundId,
+      paymentId: id,
+      amount: 100,
+      status: 'succeeded',
+      source: 'api',
+      createdAt,
+      updatedAt: createdAt,
+    })),
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+describe('payment ledger repositories', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'payment-ledgers-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['in memory', () => new InMemoryPaymentLedgerRepository()],
+    ['file', () => new FilePaymentLedgerRepository(path.join(dir, 'ledgers.json'))],
+  ])('finds a ledger by intent, capture or refund id (%s)', async (_name, createRepository) => {
+    const repository = createRepository();
+    await repository.save(ledger('pi_1', ['ch_1'], []));
+    await repository.save(ledger('pi_2', ['ch_2'], []));
+    await repository.save(ledger('pi_1', ['ch_1', 'ch_3'], ['re_1']));
+
+    for (const reference of ['pi_1', 'ch_1', 'ch_3', 're_1']) {
+      expect((await repository.findByReference(reference))!.id).toBe('pi_1');
+    }
+    expect((await repository.findByReference('ch_2'))!.id).toBe('pi_2');
+    expect(await repository.findByReference('ch_unknown')).toBeNull();
+  });
+
+  it('indexes ledgers already in the file when reopened', async () => {
+    const filePath = path.join(dir, 'ledgers.json');
+    await new FilePaymentLedgerRepository(filePath).save(ledger('pi_1', ['ch_1'], ['re_1']));
+
+    const reopened = new FilePaymentLedgerRepository(filePath);
+
+    expect((await reopened.findByReference('re_1'))!.id).toBe('pi_1');
+  });
+});
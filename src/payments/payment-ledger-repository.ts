@@ -0,0 +1,84 @@
+import { JsonFileStore } from '../core/json-file-store';
+import { PaymentLedger, PaymentLedgerRepository } from './types';
+
+export class InMemoryPaymentLedgerRepository implements PaymentLedgerRepository {
+  private ledgers: Map<string, PaymentLedger>;
+  private references: Map<string, string>;
+
+  constructor() {
+    this.ledgers = new Map();
+    this.references = new Map();
+  }
+
+  async get(id: string): Promise<PaymentLedger | null> {
+    const ledger = this.ledgers.get(id);
+    return ledger ? clone(ledger) : null;
+  }
+
+  async findByReference(reference: string): Promise<PaymentLedger | null> {
+    const id = this.references.get(reference);
+    return id ? this.get(id) : null;
+  }
+
+  async save(ledger: PaymentLedger): Promise<void> {
+    this.ledgers.set(ledger.id, clone(ledger));
+    indexReferences(this.references, ledger);
+  }
+
+  async list(): Promise<PaymentLedger[]> {
+    return Array.from(this.ledgers.values()).map(clone);
+  }
+}
+
+export class FilePaymentLedgerRepository implements PaymentLedgerRepository {
+  private store: JsonFileStore<PaymentLedger>;
+  private references: Promise<Map<string, string>> | null = null;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(id: string): Promise<PaymentLedger | null> {
+    return this.store.get(id);
+  }
+
+  async findByReference(reference: string): Promise<PaymentLedger | null> {
+    const id = (await this.loadReferences()).get(reference);
+    return id ? this.store.get(id) : null;
+  }
+
+  async save(ledger: PaymentLedger): Promise<void> {
+    await this.store.put(ledger);
+    indexReferences(await this.loadReferences(), ledger);
+  }
+
+  async list(): Promise<PaymentLedger[]> {
+    return this.store.values();
+  }
+
+  private loadReferences(): Promise<Map<string, string>> {
+    // Built from the file once, then kept current by save()
+    if (!this.references) {
+      this.references = this.store.values().then(ledgers => {
+        const references = new Map<string, string>();
+        ledgers.forEach(ledger => indexReferences(references, ledger));
+        return references;
+      });
+      this.references.catch(() => {
+        this.references = null;
+      });
+    }
+    return this.references;
+  }
+}
+
+function indexReferences(references: Map<string, string>, ledger: PaymentLedger): void {
+  for (const id of [ledger.id, ...ledger.captures.map(capture => capture.id), ...ledger.refunds.map(refund => refund.id)]) {
+    references.set(id, ledger.id);
+  }
+}
+
+function clone(ledger: PaymentLedger): PaymentLedger {
+  // Capture and refund lists are nested, so a shallow copy would leak mutations
+  return { ...ledger, captures: [...ledger.captures], refunds: [...ledger.refunds] };
+}
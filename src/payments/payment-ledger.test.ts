@@ -0,0 +1,94 @@
+import {
+  openLedger,
+  recordCapture,
+  recordRefund,
+  recordRelease,
+  refundableAmount,
+  remainingAuthorization,
+  updateRefundStatus
+} from './payment-ledger';
+import { LedgerRefund, PaymentIntent, PaymentResult } from './types';
+
+const now = new Date('2024-03-01T00:00:00Z');
+
+function intent(status: PaymentIntent['status']): PaymentIntent {
+  return { id: 'pi_1', amount: 1000, currency: 'USD', status, provider: 'mock', createdAt: now.toISOString() };
+}
+
+function capture(id: string, amount: number): PaymentResult {
+  return { id, amount, currency: 'USD', status: 'succeeded', provider: 'mock' };
+}
+
+function refund(id: string, amount: number, status: LedgerRefund['status']): LedgerRefund {
+  return { id, paymentId: 'pi_1', amount, status, source: 'api', createdAt: now.toISOString(), updatedAt: now.toISOString() };
+}
+
+describe('payment ledger', () => {
+  it('opens an authorization with the provider hold', () => {
+    const ledger = openLedger(intent('requires_capture'), 7, now);
+
+    expect(ledger.status).toBe('authorized');
+    expect(ledger.authorizedAmount).toBe(1000);
+    expect(ledger.expiresAt).toBe('2024-03-08T00:00:00.000Z');
+    expect(openLedger(intent('requires_payment_method'), 7, now).status).toBe('pending');
+  });
+
+  it('treats an automatic capture as authorized and captured at once', () => {
+    const ledger = openLedger(intent('succeeded'), 7, now);
+
+    expect(ledger.status).toBe('captured');
+    expect(ledger.capturedAmount).toBe(1000);
+    expect(ledger.expiresAt).toBeUndefined();
+  });
+
+  it('keeps the authorization open after a non-final partial capture', () => {
+    const ledger = recordCapture(openLedger(intent('requires_capture'), 7, now), capture('ch_1', 400), false, now);
+
+    expect(ledger.status).toBe('partially_captured');
+    expect(remainingAuthorization(ledger)).toBe(600);
+
+    const closed = recordCapture(ledger, capture('ch_2', 300), true, now);
+    expect(closed.status).toBe('captured');
+    expect(closed.capturedAmount).toBe(700);
+    expect(closed.releasedAmount).toBe(300);
+    expect(remainingAuthorization(closed)).toBe(0);
+  });
+
+  it('releases the whole authorization on void and keeps captured amounts', () => {
+    const authorized = openLedger(intent('requires_capture'), 7, now);
+    const partial = recordCapture(authorized, capture('ch_1', 250), false, now);
+
+    expect(recordRelease(authorized, 'voided', now)).toMatchObject({ status: 'voided', releasedAmount: 1000 });
+    expect(recordRelease(partial, 'expired', now)).toMatchObject({ status: 'captured', releasedAmount: 750 });
+  });
+
+  it('holds pending refunds against the refundable balance', () => {
+    let ledger = openLedger(intent('succeeded'), 7, now);
+    ledger = recordRefund(ledger, refund('re_1', 300, 'pending'), now);
+
+    expect(refundableAmount(ledger)).toBe(700);
+    expect(ledger.refundedAmount).toBe(0);
+
+    ledger = updateRefundStatus(ledger, 're_1', 'succeeded', undefined, now);
+    expect(ledger.refundedAmount).toBe(300);
+    expect(refundableAmount(ledger)).toBe(700);
+  });
+
+  it('returns a failed refund to the refundable balance', () => {
+    let ledger = recordRefund(openLedger(intent('succeeded'), 7, now), refund('re_1', 300, 'pending'), now);
+    ledger = updateRefundStatus(ledger, 're_1', 'failed', 'card_expired', now);
+
+    expect(refundableAmount(ledger)).toBe(1000);
+    expect(ledger.refunds[0]).toMatchObject({ status: 'failed', failureReason: 'card_expired' });
+  });
+
+  it('records settlement amounts at the locked rate', () => {
+    const settlement = { currency: 'USD', rate: 1.1, authorizedAmount: 1100, lockedAt: now.toISOString() };
+    let ledger = openLedger({ ...intent('requires_capture'), currency: 'EUR' }, 7, now, settlement);
+    ledger = recordCapture(ledger, { ...capture('ch_1', 1000), currency: 'EUR' }, true, now);
+    ledger = recordRefund(ledger, refund('re_1', 250, 'succeeded'), now);
+
+    expect(ledger.captures[0].settlementAmount).toBe(1100);
+    expect(ledger.refunds[0].settlementAmount).toBe(275);
+  });
+});
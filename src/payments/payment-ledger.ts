@@ -0,0 +1,161 @@
+import { convertAtRate } from '../core/fx';
+import { Money } from '../core/money';
+import {
+  LedgerRefund,
+  LedgerSettlement,
+  PaymentIntent,
+  PaymentLedger,
+  PaymentResult,
+  RefundReason,
+  RefundStatus
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REFUND_REASONS: RefundReason[] = [
+  'duplicate',
+  'fraudulent',
+  'requested_by_customer',
+  'product_not_received',
+  'product_unacceptable',
+  'subscription_canceled',
+  'other',
+];
+
+export function remainingAuthorization(ledger: PaymentLedger): number {
+  return ledger.authorizedAmount - ledger.capturedAmount - ledger.releasedAmount;
+}
+
+export function isAuthorizationOpen(ledger: PaymentLedger): boolean {
+  return ledger.status === 'authorized' || ledger.status === 'partially_captured';
+}
+
+export function settlementAmount(ledger: PaymentLedger, amount: number): number | undefined {
+  return ledger.settlement
+    ? convertAtRate(Money.ofMinor(amount, ledger.currency), ledger.settlement.currency, ledger.settlement.rate).amount
+    : undefined;
+}
+
+export function openLedger(
+  intent: PaymentIntent,
+  holdDays: number,
+  now: Date,
+  settlement?: LedgerSettlement
+): PaymentLedger {
+  const ledger: PaymentLedger = {
+    id: intent.id,
+    provider: intent.provider,
+    currency: intent.currency,
+    customerId: intent.customerId,
+    status: 'pending',
+    authorizedAmount: 0,
+    capturedAmount: 0,
+    refundedAmount: 0,
+    releasedAmount: 0,
+    captures: [],
+    refunds: [],
+    settlement,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+
+  return intent.status === 'requires_capture' || intent.status === 'succeeded'
+    ? recordAuthorization(ledger, intent, holdDays, now)
+    : ledger;
+}
+
+export function recordAuthorization(
+  ledger: PaymentLedger,
+  intent: PaymentIntent,
+  holdDays: number,
+  now: Date
+): PaymentLedger {
+  // Automatic captures authorize and capture in one step
+  const captured = intent.status === 'succeeded' ? intent.amount : 0;
+  return {
+    ...ledger,
+    status: captured > 0 ? 'captured' : 'authorized',
+    authorizedAmount: intent.amount,
+    capturedAmount: captured,
+    authorizedAt: now.toISOString(),
+    expiresAt: captured > 0 ? undefined : new Date(now.getTime() + holdDays * DAY_MS).toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+export function recordCapture(ledger: PaymentLedger, result: PaymentResult, final: boolean, now: Date): PaymentLedger {
+  const captured: PaymentLedger = {
+    ...ledger,
+    capturedAmount: ledger.capturedAmount + result.amount,
+    captures: [...ledger.captures, {
+      id: result.id,
+      amount: result.amount,
+      settlementAmount: settlementAmount(ledger, result.amount),
+      status: result.status,
+      final,
+      createdAt: now.toISOString(),
+    }],
+    updatedAt: now.toISOString(),
+  };
+
+  if (final || remainingAuthorization(captured) === 0) {
+    return { ...releaseRemaining(captured, now), status: 'captured' };
+  }
+  return { ...captured, status: 'partially_captured' };
+}
+
+export function refundableAmount(ledger: PaymentLedger): number {
+  // Pending refunds already hold their share of the captured amount
+  const committed = ledger.refunds
+    .filter(refund => refund.status === 'pending' || refund.status === 'succeeded')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  return ledger.capturedAmount - committed;
+}
+
+export function recordRefund(ledger: PaymentLedger, refund: LedgerRefund, now: Date): PaymentLedger {
+  return withRefundTotals({
+    ...ledger,
+    refunds: [...ledger.refunds, { ...refund, settlementAmount: settlementAmount(ledger, refund.amount) }],
+    updatedAt: now.toISOString(),
+  });
+}
+
+export function updateRefundStatus(
+  ledger: PaymentLedger,
+  refundId: string,
+  status: RefundStatus,
+  failureReason: string | undefined,
+  now: Date
+): PaymentLedger {
+  return withRefundTotals({
+    ...ledger,
+    refunds: ledger.refunds.map(refund => refund.id === refundId
+      ? { ...refund, status, failureReason: failureReason ?? refund.failureReason, updatedAt: now.toISOString() }
+      : refund),
+    updatedAt: now.toISOString(),
+  });
+}
+
+export function recordRelease(ledger: PaymentLedger, status: 'voided' | 'expired', now: Date): PaymentLedger {
+  // Closing a partially captured authorization keeps what was captured
+  const released = releaseRemaining(ledger, now);
+  return { ...released, status: ledger.capturedAmount > 0 ? 'captured' : status };
+}
+
+function withRefundTotals(ledger: PaymentLedger): PaymentLedger {
+  return {
+    ...ledger,
+    refundedAmount: ledger.refunds
+      .filter(refund => refund.status === 'succeeded')
+      .reduce((sum, refund) => sum + refund.amount, 0),
+  };
+}
+
+function releaseRemaining(ledger: PaymentLedger, now: Date): PaymentLedger {
+  return {
+    ...ledger,
+    releasedAmount: ledger.releasedAmount + remainingAuthorization(ledger),
+    expiresAt: undefined,
+    updatedAt: now.toISOString(),
+  };
+}
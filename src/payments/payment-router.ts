@@ -0,0 +1,99 @@
+import { ProviderRegistry } from '../providers/provider-registry';
+import { RetryService } from '../retry/retry-service';
+import { CreatePaymentParams, RoutingDecision, RoutingPolicy, RoutingRule } from './types';
+import { NoEligibleProviderError } from './errors';
+
+const RETRYABLE_CODES = ['network_timeout', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'ECONNABORTED'];
+
+export function isRetryableError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+  if (typeof error.retryable === 'boolean') {
+    return error.retryable;
+  }
+
+  const status = error.statusCode ?? error.status ?? error.response?.status;
+  return RETRYABLE_CODES.includes(error.code)
+    || (typeof status === 'number' && status >= 500)
+    || error.type === 'StripeConnectionError'
+    || error.type === 'StripeAPIError';
+}
+
+export class PaymentRouter {
+  private registry: ProviderRegistry;
+  private policy: RoutingPolicy;
+  private retryService: RetryService;
+
+  constructor(registry: ProviderRegistry, policy: RoutingPolicy) {
+    this.registry = registry;
+    this.policy = policy;
+    this.retryService = new RetryService({
+      maxAttempts: 1,
+      ...policy.retry,
+      shouldRetry: isRetryableError,
+    });
+  }
+
+  get failoverEnabled(): boolean {
+    return this.policy.failover !== false;
+  }
+
+  route(params: CreatePaymentParams): RoutingDecision {
+    const rule = this.policy.rules.find(candidate => this.matches(candidate, params));
+    const configured = rule
+      ? rule.providers
+      : this.policy.defaultProviders || this.registry.list().map(provider => provider.name);
+
+    const eligible = configured.filter(name =>
+      this.registry.has(name) && this.registry.supports(name, 'currency', params.currency)
+    );
+    const providers = rule?.weights ? this.orderByWeight(eligible, rule.weights) : eligible;
+
+    if (providers.length === 0) {
+      throw new NoEligibleProviderError(
+        `${params.amount} ${params.currency.toUpperCase()}${rule ? ` (rule ${rule.name || this.policy.rules.indexOf(rule)})` : ''}`
+      );
+    }
+
+    return {
+      rule: rule ? rule.name || String(this.policy.rules.indexOf(rule)) : undefined,
+      providers,
+    };
+  }
+
+  execute<T>(provider: string, operation: () => Promise<T>): Promise<T> {
+    return this.retryService.executeWithRetry({ name: `payment:${provider}`, execute: operation }, { provider });
+  }
+
+  private matches(rule: RoutingRule, params: CreatePaymentParams): boolean {
+    return includesCode(rule.currencies, params.currency)
+      && (rule.minAmount === undefined || params.amount >= rule.minAmount)
+      && (rule.maxAmount === undefined || params.amount <= rule.maxAmount)
+      && includesCode(rule.cardBrands, params.cardBrand)
+      && includesCode(rule.countries, params.country);
+  }
+
+  private orderByWeight(providers: string[], weights: Record<string, number>): string[] {
+    // Draw providers without replacement so the whole list doubles as the failover order
+    const random = this.policy.random || Math.random;
+    const remaining = providers.filter(name => (weights[name] ?? 0) > 0);
+    const ordered: string[] = [];
+
+    while (remaining.length > 0) {
+      const total = remaining.reduce((sum, name) => sum + weights[name], 0);
+      let pick = random() * total;
+      const index = remaining.findIndex(name => (pick -= weights[name]) < 0);
+      ordered.push(...remaining.splice(index === -1 ? remaining.length - 1 : index, 1));
+    }
+
+    return ordered;
+  }
+}
+
+function includesCode(codes: string[] | undefined, value: string | undefined): boolean {
+  if (!codes || codes.length === 0) {
+    return true;
+  }
+  return value !== undefined && codes.some(code => code.toUpperCase() === value.toUpperCase());
+}
@@ -0,0 +1,251 @@
+import { StaticFxRateProvider } from '../core/fx';
+import { RiskEngine } from '../risk/risk-engine';
+import { VelocityRule } from '../risk/risk-rules';
+import { MOCK_CARDS, MockProvider } from '../providers/mock/mock-provider';
+import { CapabilityNotSupportedError } from './errors';
+import { PaymentService } from './payment-service';
+import { RoutingPolicy } from './types';
+
+function routedSetup(policy: Partial<RoutingPolicy> = {}) {
+  const providers = { a: new MockProvider({ name: 'a' }), b: new MockProvider({ name: 'b' }) };
+  // A low draw routes to a, a high one to b
+  let draw = 0;
+  const paymentService = new PaymentService({
+    providers,
+    routing: {
+      rules: [{ providers: ['a', 'b'], weights: { a: 1, b: 1 } }],
+      random: () => draw,
+      ...policy,
+    },
+  });
+  return { providers, paymentService, routeTo: (provider: 'a' | 'b') => { draw = provider === 'a' ? 0 : 0.99; } };
+}
+
+describe('PaymentService idempotent routing', () => {
+  it('replays a routed payment from the provider it was routed to', async () => {
+    const { providers, paymentService, routeTo } = routedSetup();
+    const params = {
+      amount: 1000,
+      currency: 'USD',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+      idempotencyKey: 'order_1',
+    };
+
+    const first = await paymentService.createPaymentIntent(params);
+    routeTo('b');
+    const createOnB = jest.spyOn(providers.b, 'createPaymentIntent');
+    const retry = await paymentService.createPaymentIntent(params);
+
+    expect(first.provider).toBe('a');
+    expect(retry).toEqual(first);
+    expect(createOnB).not.toHaveBeenCalled();
+  });
+
+  it('sends a retry after a failed attempt back to the pinned provider', async () => {
+    const { providers, paymentService, routeTo } = routedSetup({ failover: false });
+    const params = {
+      amount: 1000,
+      currency: 'USD',
+      paymentMethodId: `pm_card_${MOCK_CARDS.network_timeout}`,
+      idempotencyKey: 'order_2',
+    };
+    const createOnA = jest.spyOn(providers.a, 'createPaymentIntent');
+    const createOnB = jest.spyOn(providers.b, 'createPaymentIntent');
+
+    await expect(paymentService.createPaymentIntent(params)).rejects.toThrow('timed out');
+    routeTo('b');
+    await expect(paymentService.createPaymentIntent(params)).rejects.toThrow('timed out');
+
+    expect(createOnA).toHaveBeenCalledTimes(2);
+    expect(createOnB).not.toHaveBeenCalled();
+  });
+
+  it('routes requests without a key independently', async () => {
+    const { paymentService, routeTo } = routedSetup();
+    const params = { amount: 1000, currency: 'USD', paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}` };
+
+    const first = await paymentService.createPaymentIntent(params);
+    routeTo('b');
+    const second = await paymentService.createPaymentIntent(params);
+
+    expect([first.provider, second.provider]).toEqual(['a', 'b']);
+  });
+});
+
+describe('PaymentService settlement FX', () => {
+  function fxSetup() {
+    return new PaymentService({
+      providers: { mock: new MockProvider() },
+      fxRateProvider: new StaticFxRateProvider({ EUR: 0.8 }),
+      settlementCurrency: 'USD',
+    });
+  }
+
+  it('locks the rate at creation and settles captures and refunds at it', async () => {
+    const paymentService = fxSetup();
+    const intent = await paymentService.createPaymentIntent({
+      amount: 1000,
+      currency: 'EUR',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+      captureMethod: 'manual',
+    });
+
+    await paymentService.capturePayment({ paymentIntentId: intent.id, provider: 'mock' });
+    await paymentService.refundPayment({ paymentId: intent.id, provider: 'mock', amount: 400 });
+
+    const ledger = await paymentService.getLedger(intent.id);
+    expect(ledger!.settlement).toMatchObject({ currency: 'USD', rate: 1.25, authorizedAmount: 1250 });
+    expect(ledger!.captures[0].settlementAmount).toBe(1250);
+    expect(ledger!.refunds[0].settlementAmount).toBe(500);
+  });
+
+  it('skips settlement for payments already in the settlement currency', async () => {
+    const paymentService = fxSetup();
+    const intent = await paymentService.createPaymentIntent({
+      amount: 1000,
+      currency: 'USD',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+
+    const ledger = await paymentService.getLedger(intent.id);
+    expect(ledger!.settlement).toBeUndefined();
+  });
+
+  it('fails before charging when no rate is available', async () => {
+    const provider = new MockProvider();
+    const createOnProvider = jest.spyOn(provider, 'createPaymentIntent');
+    const paymentService = new PaymentService({
+      providers: { mock: provider },
+      fxRateProvider: new StaticFxRateProvider({ EUR: 0.8 }),
+      settlementCurrency: 'USD',
+    });
+
+    await expect(paymentService.createPaymentIntent({
+      amount: 1000,
+      currency: 'GBP',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    })).rejects.toThrow('No FX rate from GBP to USD');
+    expect(createOnProvider).not.toHaveBeenCalled();
+  });
+});
+
+describe('PaymentService partial refunds', () => {
+  async function capturedWithoutPartialRefunds() {
+    const paymentService = new PaymentService({
+      providers: { mock: new MockProvider({ capabilities: { partialRefund: false } }) },
+    });
+    const intent = await paymentService.createPaymentIntent({
+      amount: 1000,
+      currency: 'USD',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+    return { paymentService, intent };
+  }
+
+  it('refunds the full captured amount without partial refund support', async () => {
+    const { paymentService, intent } = await capturedWithoutPartialRefunds();
+
+    const refund = await paymentService.refundPayment({ paymentId: intent.id, provider: 'mock', amount: 1000 });
+
+    expect(refund.amount).toBe(1000);
+  });
+
+  it('rejects an amount below the captured amount', async () => {
+    const { paymentService, intent } = await capturedWithoutPartialRefunds();
+
+    await expect(
+      paymentService.refundPayment({ paymentId: intent.id, provider: 'mock', amount: 400 })
+    ).rejects.toBeInstanceOf(CapabilityNotSupportedError);
+  });
+
+  it('treats the balance left after an earlier refund as partial', async () => {
+    const { paymentService, intent } = await capturedWithoutPartialRefunds();
+    // A refund made in the provider dashboard
+    await paymentService.applyRefundUpdate({
+      provider: 'mock',
+      refundId: 're_dashboard',
+      paymentId: intent.id,
+      amount: 300,
+      status: 'succeeded',
+    });
+
+    await expect(
+      paymentService.refundPayment({ paymentId: intent.id, provider: 'mock' })
+    ).rejects.toBeInstanceOf(CapabilityNotSupportedError);
+  });
+});
+
+describe('PaymentService risk screening', () => {
+  it('does not screen a replayed request again', async () => {
+    const velocity = new VelocityRule({ by: 'customer', limit: 1, windowMs: 60 * 1000 });
+    const evaluate = jest.spyOn(velocity, 'evaluate');
+    const paymentService = new PaymentService({
+      providers: { mock: new MockProvider() },
+      riskEngine: new RiskEngine({ rules: [velocity] }),
+    });
+    const params = {
+      amount: 1000,
+      currency: 'USD',
+      provider: 'mock',
+      customerId: 'cus_risk',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+      idempotencyKey: 'order_risk',
+    };
+
+    const first = await paymentService.createPaymentIntent(params);
+    const retry = await paymentService.createPaymentIntent(params);
+
+    expect(retry).toEqual(first);
+    expect(evaluate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('PaymentService idempotent captures and refunds', () => {
+  async function manualIntent() {
+    const provider = new MockProvider();
+    const paymentService = new PaymentService({ providers: { mock: provider } });
+    const intent = await paymentService.createPaymentIntent({
+      amount: 1000,
+      currency: 'USD',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+      captureMethod: 'manual',
+    });
+    return { provider, paymentService, intent };
+  }
+
+  it('replays a capture after the authorization has closed', async () => {
+    const { provider, paymentService, intent } = await manualIntent();
+    const capture = { paymentIntentId: intent.id, provider: 'mock', amount: 600, idempotencyKey: 'capture_1' };
+    const captureOnProvider = jest.spyOn(provider, 'capturePayment');
+
+    const captured = await paymentService.capturePayment(capture);
+    const replayed = await paymentService.capturePayment(capture);
+
+    const ledger = await paymentService.getLedger(intent.id);
+    expect(replayed).toEqual(captured);
+    expect(ledger!.captures).toHaveLength(1);
+    expect(ledger!.capturedAmount).toBe(600);
+    expect(captureOnProvider).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays a refund after the refundable balance is used up', async () => {
+    const { provider, paymentService, intent } = await manualIntent();
+    await paymentService.capturePayment({ paymentIntentId: intent.id, provider: 'mock' });
+    const refund = { paymentId: intent.id, provider: 'mock', idempotencyKey: 'refund_1' };
+    const refundOnProvider = jest.spyOn(provider, 'refundPayment');
+
+    const refunded = await paymentService.refundPayment(refund);
+    const replayed = await paymentService.refundPayment(refund);
+
+    const ledger = await paymentService.getLedger(intent.id);
+    expect(replayed).toEqual(refunded);
+    expect(refunded.amount).toBe(1000);
+    expect(ledger!.refunds).toHaveLength(1);
+    expect(refundOnProvider).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,7 +1,5 @@
 import { CheckoutEventEmitter } from '../core/event-emitter';
 import { BasePaymentProvider } from '../providers/base-provider';
-import { StripeProvider } from '../providers/stripe/stripe-provider';
-import { PayPalProvider } from '../providers/paypal/paypal-provider';
 import { 
   PaymentIntent, 
   PaymentMethod, 
@@ -9,53 +7,159 @@ import {
   PaymentOptions,
   CreatePaymentParams,
   CapturePaymentParams,
-  RefundPaymentParams
+  ConfirmPaymentParams,
+  RefundPaymentParams,
+  RefundStatusUpdate,
+  VoidAuthorizationParams,
+  PaymentLedger,
+  LedgerSettlement,
+  PaymentLedgerRepository,
+  PaymentServiceConfig,
+  RoutingDecision,
+  RoutingPolicy
 } from './types';
+import { Clock, systemClock } from '../core/clock';
+import { Money } from '../core/money';
+import { FxRateProvider, convertMoney } from '../core/fx';
+import { getCurrency } from '../core/currencies';
+import { InMemoryPaymentLedgerRepository } from './payment-ledger-repository';
+import {
+  isAuthorizationOpen,
+  openLedger,
+  recordAuthorization,
+  recordCapture,
+  recordRefund,
+  recordRelease,
+  refundableAmount,
+  remainingAuthorization,
+  settlementAmount,
+  updateRefundStatus,
+  REFUND_REASONS
+} from './payment-ledger';
+import {
+  CapabilityNotSupportedError,
+  CaptureExceedsAuthorizationError,
+  InvalidAuthorizationStateError,
+  InvalidRefundReasonError,
+  RefundExceedsCapturedError
+} from './errors';
+import { IdempotencyContext, IdempotencyManager } from './idempotency-manager';
+import { PAYMENT_EVENTS, paymentEventKey } from './payment-events';
+import { PaymentRouter, isRetryableError } from './payment-router';
+import { ProviderRegistry } from '../providers/provider-registry';
+import { RiskEngine } from '../risk/risk-engine';
+import { RiskAssessment } from '../risk/types';
+import { PaymentBlockedError } from '../risk/errors';
+import { ProviderCapabilities, ProviderInfo } from '../providers/types';
 import { validatePaymentParams } from '../utils/validation';
 import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
 
 export class PaymentService {
   private eventEmitter: CheckoutEventEmitter;
-  private providers: Map<string, BasePaymentProvider>;
+  private providers: ProviderRegistry;
+  private idempotency: IdempotencyManager;
+  private router: PaymentRouter | null = null;
+  private riskEngine: RiskEngine | null;
+  private ledgers: PaymentLedgerRepository;
+  private ledgerLocks: Map<string, Promise<unknown>>;
+  private fxRateProvider: FxRateProvider | null;
+  private settlementCurrency: string | null;
+  private clock: Clock;
 
-  constructor() {
+  constructor(config: PaymentServiceConfig = {}) {
     this.eventEmitter = CheckoutEventEmitter.getInstance();
-    this.providers = new Map();
-    this.initializeProviders();
+    this.providers = new ProviderRegistry();
+    this.ledgers = config.ledgerRepository || new InMemoryPaymentLedgerRepository();
+    this.ledgerLocks = new Map();
+    this.clock = config.clock || systemClock;
+    this.idempotency = new IdempotencyManager(
+      config.idempotencyStore,
+      config.idempotencyTtlMs,
+      config.idempotencyWaitTimeoutMs,
+      config.idempotencyLeaseMs
+    );
+    this.riskEngine = config.riskEngine || null;
+    this.fxRateProvider = config.fxRateProvider || null;
+    this.settlementCurrency = config.settlementCurrency ? getCurrency(config.settlementCurrency).code : null;
+    this.initializeProviders(config.providers);
+    if (config.routing) {
+      this.setRoutingPolicy(config.routing);
+    }
+  }
+
+  private initializeProviders(providers?: Record<string, BasePaymentProvider>): void {
+    if (providers) {
+      Object.entries(providers).forEach(([name, provider]) => this.providers.register(name, provider));
+      return;
+    }
+
+    // Built-in payment providers load on first use
+    this.providers.registerBuiltIns();
+  }
+
+  registerProvider(name: string, provider: BasePaymentProvider, capabilities?: ProviderCapabilities): void {
+    const registered = this.providers.register(name, provider, capabilities);
+
+    // Emit provider registered event
+    this.eventEmitter.emitEvent('payment:provider:registered', {
+      provider: name,
+      capabilities: registered.capabilities,
+      timestamp: new Date().toISOString(),
+    });
+
+    logger.info(`Payment provider registered: ${name}`);
+  }
+
+  getProviderCapabilities(name: string): ProviderCapabilities {
+    return this.providers.getCapabilities(name);
+  }
+
+  listProviders(): ProviderInfo[] {
+    return this.providers.list();
+  }
+
+  setRoutingPolicy(policy: RoutingPolicy | null): void {
+    // Swapping the policy at runtime moves traffic without a redeploy
+    this.router = policy ? new PaymentRouter(this.providers, policy) : null;
   }
 
-  private initializeProviders(): void {
-    // Initialize payment providers
-    this.providers.set('stripe', new StripeProvider());
-    this.providers.set('paypal', new PayPalProvider());
+  setRiskEngine(riskEngine: RiskEngine | null): void {
+    this.riskEngine = riskEngine;
   }
 
   async createPaymentIntent(params: CreatePaymentParams): Promise<PaymentIntent> {
     try {
       validatePaymentParams(params);
 
-      const provider = this.providers.get(params.provider);
-      if (!provider) {
-        throw new Error(`Unsupported payment provider: ${params.provider}`);
-      }
-
-      const paymentIntent = await provider.createPaymentIntent(params);
+      // Amounts are integer minor units; fractional cents or unknown currencies fail here
+      Money.ofMinor(params.amount, params.currency);
 
-      // Emit payment created event
-      this.eventEmitter.emitEvent('payment:intent:created', {
-        paymentIntentId: paymentIntent.id,
-        amount: paymentIntent.amount,
-        currency: paymentIntent.currency,
-        customerId: params.customerId,
-        metadata: params.metadata,
-      });
+      // The key covers the caller's params; a routed payment stays on the provider it was routed to
+      const { result: paymentIntent, replayed } = await this.idempotency.execute<PaymentIntent>(
+        'payment_intent.create',
+        params,
+        async context => {
+          // Risk rules run once per attempt, before routing and before any provider call; replays skip them
+          const assessment = await this.screenPayment(params);
+          const created = params.provider
+            ? await this.createOnProvider(params, params.provider, assessment)
+            : await this.routePaymentIntent(params, assessment, context);
 
-      logger.info(`Payment intent created: ${paymentIntent.id}`);
+          if (assessment?.decision === 'review') {
+            this.emitRiskEvent('payment:risk:review', params, assessment, created.id);
+          }
+          return created;
+        }
+      );
+      if (replayed) {
+        logger.info(`Payment intent replayed for idempotency key: ${params.idempotencyKey}`);
+      }
       return paymentIntent;
 
     } catch (error) {
       this.eventEmitter.emitEvent('payment:intent:failed', {
-        error: error.message,
+        error: errorMessage(error),
         params,
         timestamp: new Date().toISOString(),
       });
@@ -63,30 +167,260 @@ export class PaymentService {
     }
   }
 
-  async capturePayment(params: CapturePaymentParams): Promise<PaymentResult> {
+  private async createOnProvider(
+    params: CreatePaymentParams,
+    providerName: string,
+    assessment: RiskAssessment | null
+  ): Promise<PaymentIntent> {
+    const provider = this.providers.get(providerName);
+    this.providers.assertSupports(providerName, 'currency', params.currency);
+
+    // Providers see the risk outcome in metadata, e.g. to show it in their dashboard
+    const providerParams = assessment
+      ? { ...params, metadata: { ...params.metadata, riskScore: assessment.score, riskDecision: assessment.decision } }
+      : params;
+
+    // Lock the settlement rate before charging, so a missing rate never leaves an unrecorded payment
+    const settlement = await this.lockSettlement(params);
+
+    // Providers receive the idempotency key on params and may forward it upstream
+    const paymentIntent = await provider.createPaymentIntent(providerParams);
+
+    await this.ledgers.save(openLedger(paymentIntent, this.holdDays(providerName), this.clock.now(), settlement));
+
+    // Emit payment created event
+    this.eventEmitter.emitEvent('payment:intent:created', {
+      paymentIntentId: paymentIntent.id,
+      amount: paymentIntent.amount,
+      currency: paymentIntent.currency,
+      customerId: params.customerId,
+      riskScore: assessment?.score,
+      riskDecision: assessment?.decision,
+      settlementCurrency: settlement?.currency,
+      settlementAmount: settlement?.authorizedAmount,
+      fxRate: settlement?.rate,
+      metadata: params.metadata,
+    });
+
+    if (paymentIntent.status === 'requires_action') {
+      this.emitActionRequired(paymentIntent);
+    }
+
+    logger.info(`Payment intent created: ${paymentIntent.id}`);
+    return paymentIntent;
+  }
+
+  private async lockSettlement(params: CreatePaymentParams): Promise<LedgerSettlement | undefined> {
+    if (!this.fxRateProvider || !this.settlementCurrency) {
+      return undefined;
+    }
+
+    const amount = Money.ofMinor(params.amount, params.currency);
+    if (amount.currency.code === this.settlementCurrency) {
+      return undefined;
+    }
+
+    const { converted, rate } = await convertMoney(amount, this.settlementCurrency, this.fxRateProvider);
+    return {
+      currency: this.settlementCurrency,
+      rate,
+      authorizedAmount: converted.amount,
+      lockedAt: this.clock.now().toISOString(),
+    };
+  }
+
+  private async screenPayment(params: CreatePaymentParams): Promise<RiskAssessment | null> {
+    if (!this.riskEngine) {
+      return null;
+    }
+
+    const assessment = await this.riskEngine.assess(params);
+    if (assessment.decision === 'block') {
+      this.emitRiskEvent('payment:risk:blocked', params, assessment);
+      logger.warn(`Payment blocked by risk rules (score ${assessment.score}) for customer ${params.customerId}`);
+      throw new PaymentBlockedError(assessment);
+    }
+    return assessment;
+  }
+
+  private async routePaymentIntent(
+    params: CreatePaymentParams,
+    assessment: RiskAssessment | null,
+    context: IdempotencyContext
+  ): Promise<PaymentIntent> {
+    if (!this.router) {
+      throw new Error('A payment provider is required when no routing policy is configured');
+    }
+
+    // A retry after a failed or interrupted attempt goes back to the provider that attempt used,
+    // which may already hold the payment under the same upstream idempotency key
+    const pinnedProvider: string | undefined = context.pinned?.provider;
+    const decision: RoutingDecision = pinnedProvider
+      ? { providers: [pinnedProvider], rule: 'idempotency_pin' }
+      : this.router.route(params);
+
+    // Emit routing decision event
+    this.eventEmitter.emitEvent('payment:routed', {
+      provider: decision.providers[0],
+      candidates: decision.providers,
+      rule: decision.rule,
+      amount: params.amount,
+      currency: params.currency,
+      cardBrand: params.cardBrand,
+      country: params.country,
+      customerId: params.customerId,
+      timestamp: new Date().toISOString(),
+    });
+
+    const router = this.router;
+    for (let index = 0; ; index++) {
+      const provider = decision.providers[index];
+      try {
+        await context.pin({ provider });
+        return await router.execute(provider, () => this.createOnProvider({ ...params, provider }, provider, assessment));
+      } catch (error) {
+        const next = decision.providers[index + 1];
+        if (!next || !router.failoverEnabled || !isRetryableError(error)) {
+          throw error;
+        }
+
+        // Emit failover event
+        this.eventEmitter.emitEvent('payment:failover', {
+          from: provider,
+          to: next,
+          error: errorMessage(error),
+          amount: params.amount,
+          currency: params.currency,
+          customerId: params.customerId,
+          timestamp: new Date().toISOString(),
+        });
+
+        logger.warn(`Payment failing over from ${provider} to ${next}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  async confirmPaymentIntent(params: ConfirmPaymentParams): Promise<PaymentIntent> {
     try {
       const provider = this.providers.get(params.provider);
-      if (!provider) {
-        throw new Error(`Unsupported payment provider: ${params.provider}`);
+      if (!provider.confirmPaymentIntent) {
+        throw new CapabilityNotSupportedError(params.provider, 'confirmPaymentIntent');
       }
+      const confirmPaymentIntent = provider.confirmPaymentIntent.bind(provider);
+
+      return await this.withLedgerLock(params.paymentIntentId, async () => {
+        const { result: paymentIntent, replayed } = await this.idempotency.execute<PaymentIntent>(
+          'payment_intent.confirm',
+          params,
+          () => confirmPaymentIntent(params)
+        );
+        if (replayed) {
+          logger.info(`Payment intent confirmation replayed for idempotency key: ${params.idempotencyKey}`);
+          return paymentIntent;
+        }
+
+        // The customer has not finished the challenge yet, or a new payment method needs one
+        if (paymentIntent.status === 'requires_action') {
+          this.emitActionRequired(paymentIntent);
+          return paymentIntent;
+        }
 
-      const result = await provider.capturePayment(params);
+        const ledger = await this.ledgers.get(paymentIntent.id);
+        if (ledger && ledger.status === 'pending'
+          && (paymentIntent.status === 'requires_capture' || paymentIntent.status === 'succeeded')) {
+          await this.ledgers.save(recordAuthorization(ledger, paymentIntent, this.holdDays(params.provider), this.clock.now()));
+        }
 
-      // Emit payment captured event
-      this.eventEmitter.emitEvent('payment:captured', {
-        paymentId: result.id,
-        amount: result.amount,
-        currency: result.currency,
-        status: result.status,
-        metadata: result.metadata,
+        // Emit action completed event
+        this.eventEmitter.emitEvent('payment:action:completed', {
+          paymentIntentId: paymentIntent.id,
+          provider: paymentIntent.provider,
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency,
+          customerId: paymentIntent.customerId,
+          status: paymentIntent.status,
+          authenticated: paymentIntent.status === 'requires_capture'
+            || paymentIntent.status === 'processing'
+            || paymentIntent.status === 'succeeded',
+          timestamp: this.clock.now().toISOString(),
+        });
+
+        logger.info(`Payment intent confirmed: ${paymentIntent.id} (${paymentIntent.status})`);
+        return paymentIntent;
       });
 
-      logger.info(`Payment captured: ${result.id}`);
-      return result;
+    } catch (error) {
+      this.eventEmitter.emitEvent('payment:confirm:failed', {
+        error: errorMessage(error),
+        params,
+        timestamp: new Date().toISOString(),
+      });
+      throw error;
+    }
+  }
+
+  async capturePayment(params: CapturePaymentParams): Promise<PaymentResult> {
+    try {
+      const provider = this.providers.get(params.provider);
+
+      // Captures against one authorization run one at a time so the ledger checks hold
+      return await this.withLedgerLock(params.paymentIntentId, async () => {
+        const ledger = await this.ledgers.get(params.paymentIntentId);
+        const final = params.final !== false;
+
+        if (!ledger && params.amount !== undefined) {
+          // An explicit amount may be less than authorized, so it needs partial capture support
+          this.providers.assertSupports(params.provider, 'partialCapture');
+        }
+
+        // Ledger checks run inside the idempotent call, so a replay still returns after the authorization closed
+        const { result, replayed } = await this.idempotency.execute<PaymentResult>(
+          'payment.capture',
+          params,
+          () => provider.capturePayment(
+            ledger ? { ...params, amount: this.assertCapturable(ledger, params, final), final } : params
+          )
+        );
+        if (replayed) {
+          logger.info(`Payment capture replayed for idempotency key: ${params.idempotencyKey}`);
+          return result;
+        }
+
+        const updated = ledger ? recordCapture(ledger, result, final, this.clock.now()) : null;
+        if (ledger && updated) {
+          await this.ledgers.save(updated);
+          if (updated.releasedAmount > ledger.releasedAmount) {
+            this.emitLedgerEvent('payment:authorization:released', updated, {
+              amount: updated.releasedAmount - ledger.releasedAmount,
+            });
+          }
+        }
+
+        // Emit payment captured event, unless the provider's webhook already reported this charge
+        const captured = {
+          paymentId: result.id,
+          paymentIntentId: params.paymentIntentId,
+          chargeId: result.id,
+          amount: result.amount,
+          currency: result.currency,
+          settlementCurrency: updated?.settlement?.currency,
+          settlementAmount: updated ? settlementAmount(updated, result.amount) : undefined,
+          status: result.status,
+          metadata: result.metadata,
+        };
+        await this.eventEmitter.emitEventOnce(
+          PAYMENT_EVENTS.CAPTURED,
+          paymentEventKey(PAYMENT_EVENTS.CAPTURED, captured),
+          captured
+        );
+
+        logger.info(`Payment captured: ${result.id}`);
+        return result;
+      });
 
     } catch (error) {
       this.eventEmitter.emitEvent('payment:capture:failed', {
-        error: error.message,
+        error: errorMessage(error),
         params,
         timestamp: new Date().toISOString(),
       });
@@ -94,30 +428,120 @@ export class PaymentService {
     }
   }
 
-  async refundPayment(params: RefundPaymentParams): Promise<PaymentResult> {
+  async voidAuthorization(params: VoidAuthorizationParams): Promise<PaymentLedger | null> {
     try {
       const provider = this.providers.get(params.provider);
-      if (!provider) {
-        throw new Error(`Unsupported payment provider: ${params.provider}`);
+      if (!provider.voidAuthorization) {
+        throw new CapabilityNotSupportedError(params.provider, 'voidAuthorization');
       }
+      const voidAuthorization = provider.voidAuthorization.bind(provider);
 
-      const result = await provider.refundPayment(params);
+      return await this.withLedgerLock(params.paymentIntentId, async () => {
+        const ledger = await this.ledgers.get(params.paymentIntentId);
+        if (ledger && !isAuthorizationOpen(ledger)) {
+          throw new InvalidAuthorizationStateError(ledger.id, ledger.status, 'void');
+        }
 
-      // Emit refund event
-      this.eventEmitter.emitEvent('payment:refunded', {
-        refundId: result.id,
-        paymentId: params.paymentId,
-        amount: result.amount,
-        reason: params.reason,
-        metadata: result.metadata,
+        const { replayed } = await this.idempotency.execute<PaymentIntent>(
+          'payment_intent.void',
+          params,
+          () => voidAuthorization(params)
+        );
+        if (replayed || !ledger) {
+          return ledger;
+        }
+
+        const voided = recordRelease(ledger, 'voided', this.clock.now());
+        await this.ledgers.save(voided);
+
+        // Emit authorization voided event
+        this.emitLedgerEvent('payment:authorization:voided', voided, {
+          amount: voided.releasedAmount - ledger.releasedAmount,
+          reason: params.reason,
+        });
+
+        logger.info(`Authorization voided: ${voided.id}`);
+        return voided;
       });
 
-      logger.info(`Payment refunded: ${result.id}`);
-      return result;
+    } catch (error) {
+      this.eventEmitter.emitEvent('payment:authorization:void:failed', {
+        error: errorMessage(error),
+        params,
+        timestamp: new Date().toISOString(),
+      });
+      throw error;
+    }
+  }
+
+  async refundPayment(params: RefundPaymentParams): Promise<PaymentResult> {
+    try {
+      const provider = this.providers.get(params.provider);
+      if (params.reason !== undefined && !REFUND_REASONS.includes(params.reason)) {
+        throw new InvalidRefundReasonError(params.reason);
+      }
+
+      const ledger = await this.findLedger(params.paymentId);
+      const run = async (): Promise<PaymentResult> => {
+        const current = ledger ? await this.loadLedger(ledger.id) : null;
+
+        if (!current && params.amount !== undefined) {
+          this.providers.assertSupports(params.provider, 'partialRefund');
+        }
+
+        // Balance checks run inside the idempotent call, so a replay still returns after the balance is used up
+        const { result, replayed } = await this.idempotency.execute<PaymentResult>(
+          'payment.refund',
+          params,
+          () => provider.refundPayment(current ? { ...params, amount: this.assertRefundable(current, params) } : params)
+        );
+        if (replayed) {
+          logger.info(`Payment refund replayed for idempotency key: ${params.idempotencyKey}`);
+          return result;
+        }
+
+        if (current) {
+          const now = this.clock.now();
+          await this.ledgers.save(recordRefund(current, {
+            id: result.id,
+            paymentId: params.paymentId,
+            amount: result.amount,
+            status: result.status,
+            reason: params.reason,
+            note: params.note,
+            source: 'api',
+            createdAt: result.createdAt || now.toISOString(),
+            updatedAt: now.toISOString(),
+          }, now));
+        }
+
+        // Emit refund event, unless the provider's webhook already reported this refund
+        const refunded = {
+          refundId: result.id,
+          paymentId: params.paymentId,
+          paymentIntentId: current?.id ?? result.paymentIntentId,
+          amount: result.amount,
+          settlementCurrency: current?.settlement?.currency,
+          settlementAmount: current ? settlementAmount(current, result.amount) : undefined,
+          status: result.status,
+          reason: params.reason,
+          metadata: result.metadata,
+        };
+        await this.eventEmitter.emitEventOnce(
+          PAYMENT_EVENTS.REFUNDED,
+          paymentEventKey(PAYMENT_EVENTS.REFUNDED, refunded),
+          refunded
+        );
+
+        logger.info(`Payment refunded: ${result.id}`);
+        return result;
+      };
+
+      return ledger ? await this.withLedgerLock(ledger.id, run) : await run();
 
     } catch (error) {
       this.eventEmitter.emitEvent('payment:refund:failed', {
-        error: error.message,
+        error: errorMessage(error),
         params,
         timestamp: new Date().toISOString(),
       });
@@ -125,12 +549,223 @@ export class PaymentService {
     }
   }
 
+  async applyRefundUpdate(update: RefundStatusUpdate): Promise<PaymentLedger | null> {
+    const ledger = await this.findLedger(update.paymentId || update.refundId, update.paymentIntentId, update.refundId);
+    if (!ledger) {
+      logger.warn(`No payment ledger found for refund ${update.refundId}`);
+      return null;
+    }
+
+    return this.withLedgerLock(ledger.id, async () => {
+      const current = await this.loadLedger(ledger.id);
+      const existing = current.refunds.find(refund => refund.id === update.refundId);
+      const now = this.clock.now();
+
+      if (existing && existing.status === update.status) {
+        return current;
+      }
+
+      // Refunds made from the provider dashboard only reach us through webhooks
+      const updated = existing
+        ? updateRefundStatus(current, update.refundId, update.status, update.failureReason, now)
+        : recordRefund(current, {
+          id: update.refundId,
+          paymentId: update.paymentId || current.id,
+          amount: update.amount,
+          status: update.status,
+          failureReason: update.failureReason,
+          source: 'webhook',
+          createdAt: now.toISOString(),
+          updatedAt: now.toISOString(),
+        }, now);
+      await this.ledgers.save(updated);
+
+      this.emitLedgerEvent('payment:refund:updated', updated, {
+        refundId: update.refundId,
+        amount: update.amount,
+        refundStatus: update.status,
+        previousStatus: existing?.status,
+        failureReason: update.failureReason,
+      });
+
+      logger.info(`Refund ${update.refundId} is ${update.status}`);
+      return updated;
+    });
+  }
+
   async getPaymentMethods(customerId: string, provider: string): Promise<PaymentMethod[]> {
     const paymentProvider = this.providers.get(provider);
-    if (!paymentProvider) {
-      throw new Error(`Unsupported payment provider: ${provider}`);
-    }
+    this.providers.assertSupports(provider, 'savedPaymentMethods');
 
     return paymentProvider.getPaymentMethods(customerId);
   }
+
+  async getLedger(paymentIntentId: string): Promise<PaymentLedger | null> {
+    return this.ledgers.get(paymentIntentId);
+  }
+
+  async listOpenAuthorizations(): Promise<PaymentLedger[]> {
+    return (await this.ledgers.list()).filter(isAuthorizationOpen);
+  }
+
+  async notifyAuthorizationExpiring(paymentIntentId: string): Promise<PaymentLedger> {
+    return this.withLedgerLock(paymentIntentId, async () => {
+      const ledger = await this.loadLedger(paymentIntentId);
+      if (ledger.expiryNotifiedAt || !isAuthorizationOpen(ledger)) {
+        return ledger;
+      }
+
+      const notified = { ...ledger, expiryNotifiedAt: this.clock.now().toISOString() };
+      await this.ledgers.save(notified);
+
+      // Emit authorization expiring event
+      this.emitLedgerEvent('payment:authorization:expiring', notified, {
+        amount: remainingAuthorization(notified),
+        expiresAt: notified.expiresAt,
+      });
+      return notified;
+    });
+  }
+
+  async expireAuthorization(paymentIntentId: string): Promise<PaymentLedger> {
+    return this.withLedgerLock(paymentIntentId, async () => {
+      const ledger = await this.loadLedger(paymentIntentId);
+      if (!isAuthorizationOpen(ledger)) {
+        return ledger;
+      }
+
+      const expired = recordRelease(ledger, 'expired', this.clock.now());
+      await this.ledgers.save(expired);
+
+      // Emit authorization expired event
+      this.emitLedgerEvent('payment:authorization:expired', expired, {
+        amount: expired.releasedAmount - ledger.releasedAmount,
+      });
+
+      logger.warn(`Authorization expired: ${expired.id}`);
+      return expired;
+    });
+  }
+
+  private assertCapturable(ledger: PaymentLedger, params: CapturePaymentParams, final: boolean): number {
+    if (!isAuthorizationOpen(ledger)) {
+      throw new InvalidAuthorizationStateError(ledger.id, ledger.status, 'capture');
+    }
+    if (ledger.expiresAt && new Date(ledger.expiresAt) <= this.clock.now()) {
+      throw new InvalidAuthorizationStateError(ledger.id, 'expired', 'capture');
+    }
+
+    const remaining = remainingAuthorization(ledger);
+    const amount = params.amount ?? remaining;
+    if (amount <= 0 || amount > remaining) {
+      throw new CaptureExceedsAuthorizationError(ledger.id, amount, remaining);
+    }
+
+    if (amount < remaining || !final) {
+      this.providers.assertSupports(params.provider, 'partialCapture');
+    }
+    if (ledger.captures.length > 0) {
+      this.providers.assertSupports(params.provider, 'multipleCaptures');
+    }
+    return amount;
+  }
+
+  private assertRefundable(ledger: PaymentLedger, params: RefundPaymentParams): number {
+    // Pending refunds count against the balance so concurrent refunds cannot overshoot it
+    const refundable = refundableAmount(ledger);
+    const amount = params.amount ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw new RefundExceedsCapturedError(ledger.id, amount, refundable);
+    }
+
+    // Anything short of the full captured amount is partial, including the balance left after earlier refunds
+    if (amount < ledger.capturedAmount) {
+      this.providers.assertSupports(params.provider, 'partialRefund');
+    }
+    return amount;
+  }
+
+  private async findLedger(paymentId: string, paymentIntentId?: string, refundId?: string): Promise<PaymentLedger | null> {
+    // Refunds may reference the intent, one of its captures or, from webhooks, only the refund itself
+    for (const reference of [paymentIntentId, paymentId, refundId]) {
+      const ledger = reference ? await this.ledgers.findByReference(reference) : null;
+      if (ledger) {
+        return ledger;
+      }
+    }
+    return null;
+  }
+
+  private async loadLedger(paymentIntentId: string): Promise<PaymentLedger> {
+    const ledger = await this.ledgers.get(paymentIntentId);
+    if (!ledger) {
+      throw new Error(`No payment ledger for payment intent: ${paymentIntentId}`);
+    }
+    return ledger;
+  }
+
+  private holdDays(provider: string): number {
+    return this.providers.getCapabilities(provider).authorizationHoldDays || 7;
+  }
+
+  private withLedgerLock<T>(paymentIntentId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.ledgerLocks.get(paymentIntentId) || Promise.resolve();
+    const result = previous.then(task, task);
+    const settled = result.catch(() => undefined);
+    this.ledgerLocks.set(paymentIntentId, settled);
+    settled.then(() => {
+      if (this.ledgerLocks.get(paymentIntentId) === settled) {
+        this.ledgerLocks.delete(paymentIntentId);
+      }
+    });
+    return result;
+  }
+
+  private emitRiskEvent(
+    event: string,
+    params: CreatePaymentParams,
+    assessment: RiskAssessment,
+    paymentIntentId?: string
+  ): void {
+    this.eventEmitter.emitEvent(event, {
+      paymentIntentId,
+      amount: params.amount,
+      currency: params.currency,
+      customerId: params.customerId,
+      provider: params.provider,
+      score: assessment.score,
+      decision: assessment.decision,
+      rules: assessment.results,
+      timestamp: assessment.assessedAt,
+    });
+  }
+
+  private emitActionRequired(paymentIntent: PaymentIntent): void {
+    // Emit action required event
+    this.eventEmitter.emitEvent('payment:action:required', {
+      paymentIntentId: paymentIntent.id,
+      provider: paymentIntent.provider,
+      amount: paymentIntent.amount,
+      currency: paymentIntent.currency,
+      customerId: paymentIntent.customerId,
+      nextAction: paymentIntent.nextAction,
+      timestamp: this.clock.now().toISOString(),
+    });
+  }
+
+  private emitLedgerEvent(event: string, ledger: PaymentLedger, details: Record<string, any>): void {
+    this.eventEmitter.emitEvent(event, {
+      paymentIntentId: ledger.id,
+      provider: ledger.provider,
+      customerId: ledger.customerId,
+      currency: ledger.currency,
+      status: ledger.status,
+      authorizedAmount: ledger.authorizedAmount,
+      capturedAmount: ledger.capturedAmount,
+      refundedAmount: ledger.refundedAmount,
+      releasedAmount: ledger.releasedAmount,
+      ...details,
+      timestamp: this.clock.now().toISOString(),
+    });
+  }
 }
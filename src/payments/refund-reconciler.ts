@@ -0,0 +1,99 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { Money } from '../core/money';
+import { PaymentService } from './payment-service';
+import { RefundStatus, RefundStatusUpdate } from './types';
+import { logger } from '../utils/logger';
+
+const STRIPE_REFUND_EVENTS = ['charge.refund.updated', 'refund.created', 'refund.updated', 'refund.failed'];
+
+const PAYPAL_REFUND_STATUSES: Record<string, RefundStatus> = {
+  COMPLETED: 'succeeded',
+  PENDING: 'pending',
+  FAILED: 'failed',
+  CANCELLED: 'canceled',
+};
+
+export function parseRefundWebhook(provider: string, eventType: string, payload: any): RefundStatusUpdate[] {
+  if (eventType === 'PAYMENT.CAPTURE.REFUNDED') {
+    return parsePayPalRefund(provider, payload?.resource);
+  }
+  if (eventType === 'charge.refunded') {
+    // A charge event carries every refund on the charge, so the ledger sees dashboard refunds too
+    const charge = payload?.data?.object || {};
+    return (charge.refunds?.data || []).map((refund: any) => parseStripeRefund(provider, refund, charge));
+  }
+  if (STRIPE_REFUND_EVENTS.includes(eventType)) {
+    return [parseStripeRefund(provider, payload?.data?.object || {})];
+  }
+  return [];
+}
+
+function parseStripeRefund(provider: string, refund: any, charge: any = {}): RefundStatusUpdate {
+  const status: RefundStatus = refund.status === 'succeeded' || refund.status === 'failed' || refund.status === 'canceled'
+    ? refund.status
+    : 'pending';
+
+  return {
+    provider,
+    refundId: refund.id,
+    paymentId: refund.charge || charge.id,
+    paymentIntentId: refund.payment_intent || charge.payment_intent,
+    amount: refund.amount,
+    status,
+    failureReason: refund.failure_reason,
+  };
+}
+
+function parsePayPalRefund(provider: string, refund: any): RefundStatusUpdate[] {
+  if (!refund?.id) {
+    return [];
+  }
+
+  // The capture a refund belongs to is only exposed through its "up" link
+  const captureLink = (refund.links || []).find((link: any) => link.rel === 'up');
+  const captureId = captureLink?.href?.split('/').pop();
+
+  return [{
+    provider,
+    refundId: refund.id,
+    paymentId: captureId,
+    amount: Money.of(refund.amount.value, refund.amount.currency_code).amount,
+    status: PAYPAL_REFUND_STATUSES[refund.status] || 'pending',
+    failureReason: refund.status_details?.reason,
+  }];
+}
+
+export class RefundReconciler {
+  private eventEmitter: CheckoutEventEmitter;
+  private paymentService: PaymentService;
+  private started = false;
+  private webhookListener = (data: any) => {
+    this.handleWebhook(data.provider, data.eventType, data.payload).catch(error => {
+      logger.error(`Refund reconciliation failed for ${data.eventType} from ${data.provider}: ${error.message}`);
+    });
+  };
+
+  constructor(paymentService: PaymentService) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.paymentService = paymentService;
+  }
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.eventEmitter.on('webhook:event', this.webhookListener);
+    this.started = true;
+  }
+
+  stop(): void {
+    this.eventEmitter.off('webhook:event', this.webhookListener);
+    this.started = false;
+  }
+
+  async handleWebhook(provider: string, eventType: string, payload: any): Promise<void> {
+    for (const update of parseRefundWebhook(provider, eventType, payload)) {
+      await this.paymentService.applyRefundUpdate(update);
+    }
+  }
+}
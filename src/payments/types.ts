@@ -0,0 +1,275 @@
+import { PaymentMethod } from '../core/types';
+import type { BasePaymentProvider } from '../providers/base-provider';
+import type { RetryConfig } from '../retry/types';
+import type { RiskEngine } from '../risk/risk-engine';
+import type { RiskSignals } from '../risk/types';
+import { Clock } from '../core/clock';
+import type { FxRateProvider } from '../core/fx';
+
+export type { PaymentMethod };
+
+export type PaymentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'requires_capture'
+  | 'processing'
+  | 'succeeded'
+  | 'canceled'
+  | 'failed';
+
+// What the customer has to do before a requires_action intent can proceed
+export type PaymentNextAction =
+  | { type: 'redirect_to_url'; url: string; returnUrl?: string }
+  | { type: 'use_sdk'; sdk: string; clientSecret?: string; data?: Record<string, any> }
+  | { type: 'approve_out_of_band'; approvalUrl?: string; instructions?: string };
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  provider: string;
+  customerId?: string;
+  paymentMethodId?: string;
+  clientSecret?: string;
+  nextAction?: PaymentNextAction;
+  metadata?: Record<string, any>;
+  createdAt: string;
+}
+
+export interface PaymentResult {
+  id: string;
+  paymentIntentId?: string;
+  amount: number;
+  currency: string;
+  status: 'succeeded' | 'pending' | 'failed';
+  provider: string;
+  metadata?: Record<string, any>;
+  createdAt?: string;
+}
+
+export interface PaymentOptions {
+  captureMethod?: 'automatic' | 'manual';
+  description?: string;
+  statementDescriptor?: string;
+}
+
+export interface CreatePaymentParams extends PaymentOptions {
+  amount: number;
+  currency: string;
+  // Omit to let the routing policy choose
+  provider?: string;
+  customerId?: string;
+  paymentMethodId?: string;
+  cardBrand?: string;
+  country?: string;
+  // Where redirect-based authentication sends the customer back to
+  returnUrl?: string;
+  riskSignals?: RiskSignals;
+  metadata?: Record<string, any>;
+  idempotencyKey?: string;
+}
+
+export interface ConfirmPaymentParams {
+  paymentIntentId: string;
+  provider: string;
+  // Retry with a different payment method after failed authentication
+  paymentMethodId?: string;
+  returnUrl?: string;
+  idempotencyKey?: string;
+}
+
+export interface CapturePaymentParams {
+  paymentIntentId: string;
+  provider: string;
+  amount?: number;
+  // Release whatever is left of the authorization after this capture; defaults to true
+  final?: boolean;
+  idempotencyKey?: string;
+}
+
+export interface VoidAuthorizationParams {
+  paymentIntentId: string;
+  provider: string;
+  reason?: string;
+  idempotencyKey?: string;
+}
+
+export type RefundReason =
+  | 'duplicate'
+  | 'fraudulent'
+  | 'requested_by_customer'
+  | 'product_not_received'
+  | 'product_unacceptable'
+  | 'subscription_canceled'
+  | 'other';
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed' | 'canceled';
+
+export interface RefundPaymentParams {
+  paymentId: string;
+  provider: string;
+  amount?: number;
+  reason?: RefundReason;
+  // Free-text detail kept on the refund ledger
+  note?: string;
+  metadata?: Record<string, any>;
+  idempotencyKey?: string;
+}
+
+// failed records only remain when they pinned a choice the retry must repeat
+export type IdempotencyStatus = 'in_progress' | 'completed' | 'failed';
+
+export interface IdempotencyRecord {
+  key: string;
+  operation: string;
+  paramsHash: string;
+  status: IdempotencyStatus;
+  response?: any;
+  pinned?: Record<string, any>;
+  createdAt: string;
+  expiresAt: string;
+  // An in_progress record whose lease ran out belongs to a process that died mid-request
+  leaseExpiresAt?: string;
+}
+
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | null>;
+  // Must be atomic: resolves false when a record for the key already exists
+  create(record: IdempotencyRecord): Promise<boolean>;
+  save(record: IdempotencyRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type AuthorizationStatus =
+  | 'pending'
+  | 'authorized'
+  | 'partially_captured'
+  | 'captured'
+  | 'voided'
+  | 'expired';
+
+export interface LedgerCapture {
+  id: string;
+  amount: number;
+  // In the ledger's settlement currency, at the rate locked when the payment was created
+  settlementAmount?: number;
+  status: PaymentResult['status'];
+  final: boolean;
+  createdAt: string;
+}
+
+export interface LedgerRefund {
+  id: string;
+  paymentId: string;
+  amount: number;
+  settlementAmount?: number;
+  status: RefundStatus;
+  reason?: RefundReason;
+  note?: string;
+  failureReason?: string;
+  // Refunds issued outside this service are picked up from provider webhooks
+  source: 'api' | 'webhook';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RefundStatusUpdate {
+  provider: string;
+  refundId: string;
+  paymentId?: string;
+  paymentIntentId?: string;
+  amount: number;
+  status: RefundStatus;
+  failureReason?: string;
+}
+
+export interface PaymentLedger {
+  // Payment intent id
+  id: string;
+  provider: string;
+  currency: string;
+  customerId?: string;
+  status: AuthorizationStatus;
+  authorizedAmount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  releasedAmount: number;
+  captures: LedgerCapture[];
+  refunds: LedgerRefund[];
+  // Set when the payment is presented in a currency other than the settlement currency
+  settlement?: LedgerSettlement;
+  authorizedAt?: string;
+  expiresAt?: string;
+  expiryNotifiedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LedgerSettlement {
+  currency: string;
+  // Units of the settlement currency per unit of the presentment currency, locked at intent creation
+  rate: number;
+  authorizedAmount: number;
+  lockedAt: string;
+}
+
+export interface PaymentLedgerRepository {
+  get(id: string): Promise<PaymentLedger | null>;
+  // Finds the ledger of a payment intent, or of the capture or refund with this id
+  findByReference(reference: string): Promise<PaymentLedger | null>;
+  save(ledger: PaymentLedger): Promise<void>;
+  list(): Promise<PaymentLedger[]>;
+}
+
+export interface AuthorizationExpiryConfig {
+  // How long before expiry payment:authorization:expiring fires
+  warningMs: number;
+  intervalMs: number;
+  clock: Clock;
+}
+
+export interface RoutingRule {
+  name?: string;
+  // Candidates in failover order
+  providers: string[];
+  currencies?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+  cardBrands?: string[];
+  countries?: string[];
+  // Weighted split for the first attempt; a weight of 0 drains a provider
+  weights?: Record<string, number>;
+}
+
+export interface RoutingPolicy {
+  rules: RoutingRule[];
+  // Used when no rule matches; defaults to every registered provider
+  defaultProviders?: string[];
+  failover?: boolean;
+  // Per-provider retries before failing over; defaults to a single attempt
+  retry?: Partial<RetryConfig>;
+  random?: () => number;
+}
+
+export interface RoutingDecision {
+  rule?: string;
+  providers: string[];
+}
+
+export interface PaymentServiceConfig {
+  // Replaces the default Stripe and PayPal providers, e.g. with a MockProvider in tests
+  providers?: Record<string, BasePaymentProvider>;
+  idempotencyStore?: IdempotencyStore;
+  idempotencyTtlMs?: number;
+  idempotencyWaitTimeoutMs?: number;
+  idempotencyLeaseMs?: number;
+  routing?: RoutingPolicy;
+  riskEngine?: RiskEngine;
+  ledgerRepository?: PaymentLedgerRepository;
+  // Payments presented in another currency lock a rate from this provider for settlement
+  fxRateProvider?: FxRateProvider;
+  settlementCurrency?: string;
+  clock?: Clock;
+}
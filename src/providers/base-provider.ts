@@ -0,0 +1,26 @@
+import type {
+  CapturePaymentParams,
+  ConfirmPaymentParams,
+  CreatePaymentParams,
+  PaymentIntent,
+  PaymentMethod,
+  PaymentResult,
+  RefundPaymentParams,
+  VoidAuthorizationParams
+} from '../payments/types';
+
+export abstract class BasePaymentProvider {
+  abstract createPaymentIntent(params: CreatePaymentParams): Promise<PaymentIntent>;
+
+  abstract capturePayment(params: CapturePaymentParams): Promise<PaymentResult>;
+
+  abstract refundPayment(params: RefundPaymentParams): Promise<PaymentResult>;
+
+  abstract getPaymentMethods(customerId: string): Promise<PaymentMethod[]>;
+
+  // Continues an intent after the customer finished a next action, or with a new payment method
+  confirmPaymentIntent?(params: ConfirmPaymentParams): Promise<PaymentIntent>;
+
+  // Releases an uncaptured authorization; providers without voids leave it to expire
+  voidAuthorization?(params: VoidAuthorizationParams): Promise<PaymentIntent>;
+}
@@ -0,0 +1,150 @@
+import { CheckoutEventEmitter } from '../../core/event-emitter';
+import { PAYMENT_EVENTS, paymentEventKey } from '../../payments/payment-events';
+import { PaymentService } from '../../payments/payment-service';
+import { WebhookHandler } from '../../webhooks/webhook-handler';
+import { MOCK_CARDS, MockProvider } from './mock-provider';
+
+// Mock ids restart with every provider, so one provider serves the whole file
+const webhookHandler = new WebhookHandler({});
+const provider = new MockProvider({ webhookHandler });
+const paymentService = new PaymentService({ providers: { mock: provider } });
+const eventEmitter = CheckoutEventEmitter.getInstance();
+
+function record(event: string): { events: any[]; stop: () => void } {
+  const events: any[] = [];
+  const listener = (data: any) => events.push(data);
+  eventEmitter.on(event, listener);
+  return { events, stop: () => eventEmitter.off(event, listener) };
+}
+
+describe('MockProvider webhooks', () => {
+  it('reports a manual capture once', async () => {
+    const captured = record('payment:captured');
+    const intent = await paymentService.createPaymentIntent({
+      amount: 1000,
+      currency: 'USD',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+      captureMethod: 'manual',
+    });
+
+    await paymentService.capturePayment({ paymentIntentId: intent.id, provider: 'mock' });
+    captured.stop();
+
+    expect(captured.events).toHaveLength(1);
+    expect(captured.events[0].paymentIntentId).toBe(intent.id);
+  });
+
+  it('reports an automatic capture once, from the webhook', async () => {
+    const captured = record('payment:captured');
+    const intent = await paymentService.createPaymentIntent({
+      amount: 1500,
+      currency: 'USD',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+    captured.stop();
+
+    expect(captured.events).toHaveLength(1);
+    expect(captured.events[0].paymentIntentId).toBe(intent.id);
+    expect(captured.events[0].originalEvent).toBe('payment_intent.succeeded');
+  });
+
+  it('maps charge.refunded to the refunded payment and amount', async () => {
+    const intent = await paymentService.createPaymentIntent({
+      amount: 2000,
+      currency: 'USD',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+    const webhookEvents = record('webhook:event');
+    const refunded = record('payment:refunded');
+
+    const refund = await paymentService.refundPayment({ paymentId: intent.id, provider: 'mock', amount: 500 });
+    webhookEvents.stop();
+    refunded.stop();
+
+    const mapped = webhookEvents.events.find(event => event.eventType === 'charge.refunded');
+    expect(mapped.internalEvent).toBe('payment:refunded');
+    expect(mapped.data).toMatchObject({
+      paymentId: intent.id,
+      paymentIntentId: intent.id,
+      refundId: refund.id,
+      amount: 500,
+      currency: 'USD',
+      status: 'succeeded',
+      provider: 'mock',
+    });
+    expect(refunded.events).toHaveLength(1);
+  });
+
+  it('maps a second partial refund to its own amount', async () => {
+    const intent = await paymentService.createPaymentIntent({
+      amount: 2000,
+      currency: 'USD',
+      provider: 'mock',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+    await paymentService.refundPayment({ paymentId: intent.id, provider: 'mock', amount: 500 });
+    const webhookEvents = record('webhook:event');
+
+    const refund = await paymentService.refundPayment({ paymentId: intent.id, provider: 'mock', amount: 300 });
+    webhookEvents.stop();
+
+    const mapped = webhookEvents.events.find(event => event.eventType === 'charge.refunded');
+    expect(mapped.data).toMatchObject({ paymentId: intent.id, refundId: refund.id, amount: 300 });
+  });
+
+  it('reports a PayPal capture and refund that PaymentService already emitted once', async () => {
+    const capture = {
+      id: 'CAPTURE_1',
+      status: 'COMPLETED',
+      amount: { value: '20.00', currency_code: 'USD' },
+      supplementary_data: { related_ids: { order_id: 'ORDER_1' } },
+    };
+    const refund = {
+      id: 'REFUND_1',
+      status: 'COMPLETED',
+      amount: { value: '5.00', currency_code: 'USD' },
+      supplementary_data: { related_ids: { order_id: 'ORDER_1', capture_id: 'CAPTURE_1' } },
+      links: [{ rel: 'up', href: 'https://api.paypal.com/v2/payments/captures/CAPTURE_1' }],
+    };
+    const captured = record(PAYMENT_EVENTS.CAPTURED);
+    const refunded = record(PAYMENT_EVENTS.REFUNDED);
+
+    // What PaymentService emits after capturing and refunding through a PayPal provider
+    const serviceCapture = { paymentIntentId: 'ORDER_1', chargeId: 'CAPTURE_1', status: 'succeeded' as const };
+    const serviceRefund = { refundId: 'REFUND_1' };
+    await eventEmitter.emitEventOnce(PAYMENT_EVENTS.CAPTURED, paymentEventKey(PAYMENT_EVENTS.CAPTURED, serviceCapture), serviceCapture);
+    await eventEmitter.emitEventOnce(PAYMENT_EVENTS.REFUNDED, paymentEventKey(PAYMENT_EVENTS.REFUNDED, serviceRefund), serviceRefund);
+
+    await webhookHandler.dispatchEvent('paypal', 'PAYMENT.CAPTURE.COMPLETED', { event_type: 'PAYMENT.CAPTURE.COMPLETED', resource: capture });
+    await webhookHandler.dispatchEvent('paypal', 'PAYMENT.CAPTURE.REFUNDED', { event_type: 'PAYMENT.CAPTURE.REFUNDED', resource: refund });
+    captured.stop();
+    refunded.stop();
+
+    expect(captured.events).toHaveLength(1);
+    expect(refunded.events).toHaveLength(1);
+  });
+
+  it('emits redelivered webhooks again', async () => {
+    const refunded = record(PAYMENT_EVENTS.REFUNDED);
+    const payload = {
+      event_type: 'PAYMENT.CAPTURE.REFUNDED',
+      resource: {
+        id: 'REFUND_2',
+        status: 'COMPLETED',
+        amount: { value: '5.00', currency_code: 'USD' },
+        links: [{ rel: 'up', href: 'https://api.paypal.com/v2/payments/captures/CAPTURE_2' }],
+      },
+    };
+
+    await webhookHandler.dispatchEvent('paypal', payload.event_type, payload);
+    await webhookHandler.dispatchEvent('paypal', payload.event_type, payload);
+    await webhookHandler.dispatchEvent('paypal', payload.event_type, payload, { redelivery: true });
+    refunded.stop();
+
+    expect(refunded.events).toHaveLength(2);
+    expect(refunded.events[1]).toMatchObject({ paymentId: 'CAPTURE_2', refundId: 'REFUND_2', amount: 500 });
+  });
+});
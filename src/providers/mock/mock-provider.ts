@@ -0,0 +1,475 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { BasePaymentProvider } from '../base-provider';
+import { Clock, systemClock } from '../../core/clock';
+import { PaymentProviderError } from '../../payments/errors';
+import {
+  PaymentIntent,
+  PaymentMethod,
+  PaymentResult,
+  CreatePaymentParams,
+  CapturePaymentParams,
+  ConfirmPaymentParams,
+  RefundPaymentParams,
+  VoidAuthorizationParams
+} from '../../payments/types';
+import type { WebhookHandler } from '../../webhooks/webhook-handler';
+import type { WebhookVerificationResult } from '../../webhooks/types';
+import { WebhookVerificationRequest, WebhookVerifier, getHeader } from '../../webhooks/webhook-verifier';
+import { ProviderCapabilities } from '../types';
+import { logger } from '../../utils/logger';
+import { errorMessage } from '../../core/errors';
+
+export type MockCardScenario =
+  | 'succeeds'
+  | 'declined'
+  | 'insufficient_funds'
+  | 'requires_3ds'
+  | 'network_timeout'
+  | 'delayed_capture';
+
+export const MOCK_CARDS: Record<MockCardScenario, string> = {
+  succeeds: '4242424242424242',
+  declined: '4000000000000002',
+  insufficient_funds: '4000000000009995',
+  requires_3ds: '4000000000003220',
+  network_timeout: '4000000000000119',
+  delayed_capture: '4000000000000077',
+};
+
+export interface MockProviderConfig {
+  name?: string;
+  clock?: Clock;
+  webhookHandler?: WebhookHandler;
+  // Shared secret the mock signs its webhooks with
+  webhookSecret?: string;
+  // How long the network_timeout card hangs before failing
+  timeoutMs?: number;
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+export class MockWebhookVerifier implements WebhookVerifier {
+  private secret: string;
+
+  constructor(secret: string) {
+    this.secret = secret;
+  }
+
+  // Same layout as Stripe-Signature: t=<unix seconds>,v1=<hmac of "t.body">
+  sign(rawBody: string | Buffer, timestamp: Date): string {
+    const t = Math.floor(timestamp.getTime() / 1000);
+    return `t=${t},v1=${this.hmac(t, rawBody)}`;
+  }
+
+  async verify(request: WebhookVerificationRequest): Promise<WebhookVerificationResult> {
+    const header = this.parse(request);
+    const expected = Buffer.from(header ? this.hmac(header.t, request.rawBody) : '');
+    const actual = Buffer.from(header?.v1 || '');
+
+    return header && actual.length === expected.length && timingSafeEqual(actual, expected)
+      ? { valid: true, provider: request.provider }
+      : { valid: false, provider: request.provider, error: 'Mock signature mismatch' };
+  }
+
+  getTimestamp(request: WebhookVerificationRequest): Date | null {
+    const header = this.parse(request);
+    return header ? new Date(header.t * 1000) : null;
+  }
+
+  private hmac(t: number, rawBody: string | Buffer): string {
+    return createHmac('sha256', this.secret).update(`${t}.`).update(rawBody).digest('hex');
+  }
+
+  private parse(request: WebhookVerificationRequest): { t: number; v1: string } | null {
+    const signature = getHeader(request.headers, 'mock-signature') || request.signature || '';
+    const match = /^t=(\d+),v1=([0-9a-f]+)$/.exec(signature);
+    return match ? { t: Number(match[1]), v1: match[2] } : null;
+  }
+}
+
+interface MockIntentState {
+  intent: PaymentIntent;
+  scenario: MockCardScenario;
+  captureMethod: 'automatic' | 'manual';
+  capturedAmount: number;
+  refundedAmount: number;
+  latestCharge?: string;
+}
+
+export class MockProvider implements BasePaymentProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  readonly webhookVerifier: MockWebhookVerifier;
+  private clock: Clock;
+  private timeoutMs: number;
+  private webhookHandler?: WebhookHandler;
+  private intents: Map<string, MockIntentState>;
+  private pendingCaptures: Map<string, PaymentResult>;
+  private charges: Map<string, string>;
+  private customerMethods: Map<string, Map<string, PaymentMethod>>;
+  private sequence = 0;
+
+  constructor(config: MockProviderConfig = {}) {
+    this.name = config.name || 'mock';
+    this.capabilities = {
+      currencies: '*',
+      partialCapture: true,
+      multipleCaptures: true,
+      partialRefund: true,
+      savedPaymentMethods: true,
+      webhooks: true,
+      authorizationHoldDays: 7,
+      ...config.capabilities,
+    };
+    this.clock = config.clock || systemClock;
+    this.timeoutMs = config.timeoutMs || 0;
+    this.webhookVerifier = new MockWebhookVerifier(config.webhookSecret || `whsec_mock_${this.name}`);
+    if (config.webhookHandler) {
+      this.attachWebhookHandler(config.webhookHandler);
+    }
+    this.intents = new Map();
+    this.pendingCaptures = new Map();
+    this.charges = new Map();
+    this.customerMethods = new Map();
+  }
+
+  attachWebhookHandler(webhookHandler: WebhookHandler): void {
+    // The handler rejects providers without a verifier, so the mock brings its own
+    webhookHandler.registerVerifier(this.name, this.webhookVerifier);
+    this.webhookHandler = webhookHandler;
+  }
+
+  async createPaymentIntent(params: CreatePaymentParams): Promise<PaymentIntent> {
+    const scenario = this.resolveScenario(params.paymentMethodId);
+
+    if (scenario === 'network_timeout') {
+      await new Promise(resolve => setTimeout(resolve, this.timeoutMs));
+      throw new PaymentProviderError('Request to mock provider timed out', 'network_timeout', this.name, {
+        retryable: true,
+      });
+    }
+
+    const id = this.nextId('pi');
+    const captureMethod = params.captureMethod || 'automatic';
+    const intent: PaymentIntent = {
+      id,
+      amount: params.amount,
+      currency: params.currency,
+      status: 'requires_capture',
+      provider: this.name,
+      customerId: params.customerId,
+      paymentMethodId: params.paymentMethodId,
+      clientSecret: `${id}_secret`,
+      metadata: params.metadata,
+      createdAt: this.clock.now().toISOString(),
+    };
+    const state: MockIntentState = { intent, scenario, captureMethod, capturedAmount: 0, refundedAmount: 0 };
+    this.intents.set(id, state);
+    this.rememberPaymentMethod(params);
+
+    return this.authorize(state, params.returnUrl);
+  }
+
+  async confirmPaymentIntent(params: ConfirmPaymentParams): Promise<PaymentIntent> {
+    const state = this.loadIntent(params.paymentIntentId);
+
+    // A new payment method starts authorization over, including any challenge it needs
+    if (params.paymentMethodId
+      && (state.intent.status === 'requires_payment_method' || state.intent.status === 'requires_action')) {
+      state.scenario = this.resolveScenario(params.paymentMethodId);
+      state.intent.paymentMethodId = params.paymentMethodId;
+      state.intent.status = 'requires_capture';
+      return this.authorize(state, params.returnUrl);
+    }
+
+    // Until completeAuthentication runs the intent still waits on the customer; a failed
+    // challenge comes back as requires_payment_method
+    return { ...state.intent };
+  }
+
+  async capturePayment(params: CapturePaymentParams): Promise<PaymentResult> {
+    const state = this.loadIntent(params.paymentIntentId);
+    if (state.intent.status !== 'requires_capture') {
+      throw new PaymentProviderError(
+        `Payment intent ${state.intent.id} cannot be captured in status ${state.intent.status}`,
+        'payment_intent_unexpected_state',
+        this.name,
+        { paymentIntentId: state.intent.id }
+      );
+    }
+
+    const remaining = state.intent.amount - state.capturedAmount;
+    const amount = params.amount ?? remaining;
+    if (amount <= 0 || amount > remaining) {
+      throw new PaymentProviderError(`Invalid capture amount: ${amount}`, 'amount_invalid', this.name, {
+        paymentIntentId: state.intent.id,
+      });
+    }
+
+    return this.startCapture(state, amount, params.final !== false);
+  }
+
+  async voidAuthorization(params: VoidAuthorizationParams): Promise<PaymentIntent> {
+    const state = this.loadIntent(params.paymentIntentId);
+    if (state.intent.status !== 'requires_capture') {
+      throw new PaymentProviderError(
+        `Payment intent ${state.intent.id} cannot be voided in status ${state.intent.status}`,
+        'payment_intent_unexpected_state',
+        this.name,
+        { paymentIntentId: state.intent.id }
+      );
+    }
+
+    // Voiding after partial captures only releases the remainder
+    state.intent.status = state.capturedAmount > 0 ? 'succeeded' : 'canceled';
+    await this.emitWebhook(
+      state.capturedAmount > 0 ? 'payment_intent.succeeded' : 'payment_intent.canceled',
+      { ...this.toIntentObject(state), cancellation_reason: params.reason }
+    );
+    return { ...state.intent };
+  }
+
+  async refundPayment(params: RefundPaymentParams): Promise<PaymentResult> {
+    const state = this.findIntentForPayment(params.paymentId);
+    const refundable = state.capturedAmount - state.refundedAmount;
+    const amount = params.amount ?? refundable;
+
+    if (amount <= 0 || amount > refundable) {
+      throw new PaymentProviderError(`Refund amount ${amount} exceeds refundable ${refundable}`, 'amount_too_large', this.name, {
+        paymentIntentId: state.intent.id,
+      });
+    }
+
+    state.refundedAmount += amount;
+    const result: PaymentResult = {
+      id: this.nextId('re'),
+      paymentIntentId: state.intent.id,
+      amount,
+      currency: state.intent.currency,
+      status: 'succeeded',
+      provider: this.name,
+      metadata: params.metadata,
+      createdAt: this.clock.now().toISOString(),
+    };
+
+    await this.emitWebhook('charge.refunded', {
+      id: this.charges.has(params.paymentId) ? params.paymentId : state.latestCharge || params.paymentId,
+      object: 'charge',
+      status: 'succeeded',
+      payment_intent: state.intent.id,
+      amount: state.capturedAmount,
+      amount_refunded: state.refundedAmount,
+      currency: state.intent.currency,
+      refunded: state.refundedAmount === state.capturedAmount,
+      refunds: {
+        data: [{
+          id: result.id,
+          amount,
+          currency: state.intent.currency,
+          status: result.status,
+          charge: params.paymentId,
+          payment_intent: state.intent.id,
+          reason: params.reason,
+        }],
+      },
+    });
+    return result;
+  }
+
+  async getPaymentMethods(customerId: string): Promise<PaymentMethod[]> {
+    return Array.from(this.customerMethods.get(customerId)?.values() || []);
+  }
+
+  async completeAuthentication(paymentIntentId: string, succeed: boolean = true): Promise<PaymentIntent> {
+    // Stands in for the customer finishing (or abandoning) the 3DS challenge
+    const state = this.loadIntent(paymentIntentId);
+    if (state.intent.status !== 'requires_action') {
+      throw new PaymentProviderError(
+        `Payment intent ${paymentIntentId} does not require authentication`,
+        'payment_intent_unexpected_state',
+        this.name,
+        { paymentIntentId }
+      );
+    }
+
+    state.intent.nextAction = undefined;
+    if (!succeed) {
+      state.intent.status = 'requires_payment_method';
+      await this.emitWebhook('payment_intent.payment_failed', {
+        ...state.intent,
+        last_payment_error: { code: 'payment_intent_authentication_failure' },
+      });
+      return { ...state.intent };
+    }
+
+    if (state.captureMethod === 'automatic') {
+      await this.startCapture(state, state.intent.amount, true);
+    } else {
+      state.intent.status = 'requires_capture';
+      await this.emitWebhook('payment_intent.amount_capturable_updated', state.intent);
+    }
+    return { ...state.intent };
+  }
+
+  async settlePendingCaptures(): Promise<PaymentResult[]> {
+    const settled: PaymentResult[] = [];
+
+    for (const [id, pending] of this.pendingCaptures) {
+      const state = this.loadIntent(pending.paymentIntentId!);
+      state.intent.status = 'succeeded';
+      state.capturedAmount += pending.amount;
+      this.pendingCaptures.delete(id);
+
+      const result: PaymentResult = { ...pending, status: 'succeeded' };
+      await this.emitWebhook('payment_intent.succeeded', this.toIntentObject(state));
+      settled.push(result);
+    }
+
+    return settled;
+  }
+
+  private async authorize(state: MockIntentState, returnUrl?: string): Promise<PaymentIntent> {
+    const intent = state.intent;
+
+    switch (state.scenario) {
+      case 'declined':
+      case 'insufficient_funds': {
+        intent.status = 'failed';
+        const declineCode = state.scenario === 'declined' ? 'generic_decline' : 'insufficient_funds';
+        await this.emitWebhook('payment_intent.payment_failed', { ...intent, last_payment_error: { decline_code: declineCode } });
+        throw new PaymentProviderError(
+          state.scenario === 'declined' ? 'Your card was declined.' : 'Your card has insufficient funds.',
+          'card_declined',
+          this.name,
+          { declineCode, paymentIntentId: intent.id }
+        );
+      }
+
+      case 'requires_3ds':
+        // Like Stripe, a return URL gets a redirect and anything else is handled by the client SDK
+        intent.status = 'requires_action';
+        intent.nextAction = returnUrl
+          ? { type: 'redirect_to_url', url: `https://mock.checkout.test/3ds/${intent.id}`, returnUrl }
+          : { type: 'use_sdk', sdk: 'mock_3ds', clientSecret: intent.clientSecret };
+        await this.emitWebhook('payment_intent.requires_action', intent);
+        return { ...intent };
+
+      default:
+        if (state.captureMethod === 'automatic') {
+          await this.startCapture(state, intent.amount, true);
+        }
+        return { ...intent };
+    }
+  }
+
+  private async startCapture(state: MockIntentState, amount: number, final: boolean): Promise<PaymentResult> {
+    const result: PaymentResult = {
+      id: this.nextId('ch'),
+      paymentIntentId: state.intent.id,
+      amount,
+      currency: state.intent.currency,
+      status: 'succeeded',
+      provider: this.name,
+      metadata: state.intent.metadata,
+      createdAt: this.clock.now().toISOString(),
+    };
+    this.charges.set(result.id, state.intent.id);
+    state.latestCharge = result.id;
+
+    // Delayed captures stay pending until settlePendingCaptures
+    if (state.scenario === 'delayed_capture') {
+      state.intent.status = 'processing';
+      result.status = 'pending';
+      this.pendingCaptures.set(result.id, result);
+      return { ...result };
+    }
+
+    state.capturedAmount += amount;
+    if (!final && state.capturedAmount < state.intent.amount) {
+      return result;
+    }
+
+    state.intent.status = 'succeeded';
+    await this.emitWebhook('payment_intent.succeeded', this.toIntentObject(state));
+    return result;
+  }
+
+  private toIntentObject(state: MockIntentState): Record<string, any> {
+    return { ...state.intent, object: 'payment_intent', latest_charge: state.latestCharge };
+  }
+
+  private resolveScenario(paymentMethodId?: string): MockCardScenario {
+    // Payment methods are matched on the card number they carry, e.g. pm_card_4000000000000002
+    const cardNumber = (paymentMethodId || '').replace(/\D/g, '');
+    const match = (Object.keys(MOCK_CARDS) as MockCardScenario[]).find(scenario => MOCK_CARDS[scenario] === cardNumber);
+    return match || 'succeeds';
+  }
+
+  private rememberPaymentMethod(params: CreatePaymentParams): void {
+    if (!params.customerId || !params.paymentMethodId) {
+      return;
+    }
+
+    const methods = this.customerMethods.get(params.customerId) || new Map<string, PaymentMethod>();
+    const cardNumber = params.paymentMethodId.replace(/\D/g, '');
+    methods.set(params.paymentMethodId, {
+      id: params.paymentMethodId,
+      type: 'card',
+      lastFour: cardNumber.slice(-4) || undefined,
+      brand: 'visa',
+      expiryMonth: 12,
+      expiryYear: this.clock.now().getUTCFullYear() + 3,
+    });
+    this.customerMethods.set(params.customerId, methods);
+  }
+
+  private loadIntent(paymentIntentId: string): MockIntentState {
+    const state = this.intents.get(paymentIntentId);
+    if (!state) {
+      throw new PaymentProviderError(`No such payment intent: ${paymentIntentId}`, 'resource_missing', this.name);
+    }
+    return state;
+  }
+
+  private findIntentForPayment(paymentId: string): MockIntentState {
+    // Refunds accept either the payment intent id or the id of a capture on it
+    const state = this.intents.get(this.charges.get(paymentId) || paymentId);
+    if (!state) {
+      throw new PaymentProviderError(`No such payment: ${paymentId}`, 'resource_missing', this.name);
+    }
+    return state;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_mock_${String(this.sequence).padStart(6, '0')}`;
+  }
+
+  private async emitWebhook(type: string, object: Record<string, any>): Promise<void> {
+    if (!this.webhookHandler) {
+      return;
+    }
+
+    const payload = {
+      id: this.nextId('evt'),
+      type,
+      created: Math.floor(this.clock.now().getTime() / 1000),
+      data: { object: { ...object } },
+    };
+
+    // Sent as a raw body, as over HTTP, so the signature covers exactly these bytes
+    const body = JSON.stringify(payload);
+    const signature = this.webhookVerifier.sign(body, this.clock.now());
+
+    // Webhook consumers failing must not change the outcome of the payment call
+    try {
+      await this.webhookHandler.processWebhook({
+        provider: this.name,
+        payload: body,
+        signature,
+        headers: { 'mock-signature': signature },
+      });
+    } catch (error) {
+      logger.error(`Mock webhook ${type} failed: ${errorMessage(error)}`);
+    }
+  }
+}
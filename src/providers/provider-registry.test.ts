@@ -0,0 +1,35 @@
+import { MockProvider } from './mock/mock-provider';
+import { BUILT_IN_CAPABILITIES, ProviderRegistry } from './provider-registry';
+
+describe('ProviderRegistry', () => {
+  it('lists built-in providers without loading them', () => {
+    const registry = new ProviderRegistry();
+    registry.registerBuiltIns();
+
+    expect(registry.list().map(info => info.name)).toEqual(['stripe', 'paypal']);
+    expect(registry.getCapabilities('paypal')).toEqual(BUILT_IN_CAPABILITIES.paypal);
+    expect(registry.supports('stripe', 'currency', 'jpy')).toBe(true);
+  });
+
+  it('creates a lazy provider on first use only', () => {
+    const registry = new ProviderRegistry();
+    const factory = jest.fn(() => new MockProvider());
+    registry.registerLazy('lazy', factory, BUILT_IN_CAPABILITIES.stripe);
+
+    expect(registry.has('lazy')).toBe(true);
+    expect(factory).not.toHaveBeenCalled();
+
+    const provider = registry.get('lazy');
+    expect(registry.get('lazy')).toBe(provider);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a provider that cannot be loaded', () => {
+    const registry = new ProviderRegistry();
+    registry.registerLazy('broken', () => {
+      throw new Error("Cannot find module 'stripe'");
+    }, BUILT_IN_CAPABILITIES.stripe);
+
+    expect(() => registry.get('broken')).toThrow("Payment provider broken could not be loaded: Cannot find module 'stripe'");
+  });
+});
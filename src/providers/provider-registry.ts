@@ -0,0 +1,146 @@
+import { BasePaymentProvider } from './base-provider';
+import { ProviderCapabilities, ProviderCapability, ProviderInfo, RegisteredProvider } from './types';
+import { CapabilityNotSupportedError, UnsupportedProviderError } from '../payments/errors';
+import { errorMessage } from '../core/errors';
+
+export const BUILT_IN_CAPABILITIES: Record<string, ProviderCapabilities> = {
+  stripe: {
+    currencies: '*',
+    partialCapture: true,
+    multipleCaptures: true,
+    partialRefund: true,
+    savedPaymentMethods: true,
+    webhooks: true,
+    authorizationHoldDays: 7,
+  },
+  paypal: {
+    currencies: [
+      'AUD', 'BRL', 'CAD', 'CNY', 'CZK', 'DKK', 'EUR', 'HKD', 'HUF', 'ILS', 'JPY', 'MYR',
+      'MXN', 'TWD', 'NZD', 'NOK', 'PHP', 'PLN', 'GBP', 'SGD', 'SEK', 'CHF', 'THB', 'USD',
+    ],
+    partialCapture: true,
+    multipleCaptures: true,
+    partialRefund: true,
+    savedPaymentMethods: true,
+    webhooks: true,
+    authorizationHoldDays: 29,
+  },
+};
+
+// Built-in providers are required on first use, so installs without the Stripe or PayPal SDK still load
+const BUILT_IN_PROVIDERS: Record<string, () => BasePaymentProvider> = {
+  stripe: () => new (require('./stripe/stripe-provider').StripeProvider)(),
+  paypal: () => new (require('./paypal/paypal-provider').PayPalProvider)(),
+};
+
+interface LazyProvider {
+  factory: () => BasePaymentProvider;
+  capabilities: ProviderCapabilities;
+}
+
+export class ProviderRegistry {
+  private providers: Map<string, RegisteredProvider>;
+  private lazyProviders: Map<string, LazyProvider>;
+
+  constructor() {
+    this.providers = new Map();
+    this.lazyProviders = new Map();
+  }
+
+  registerBuiltIns(): void {
+    Object.entries(BUILT_IN_PROVIDERS).forEach(([name, factory]) =>
+      this.registerLazy(name, factory, BUILT_IN_CAPABILITIES[name])
+    );
+  }
+
+  registerLazy(name: string, factory: () => BasePaymentProvider, capabilities: ProviderCapabilities): void {
+    this.providers.delete(name);
+    this.lazyProviders.set(name, { factory, capabilities: { ...capabilities } });
+  }
+
+  register(
+    name: string,
+    provider: BasePaymentProvider,
+    capabilities?: ProviderCapabilities
+  ): RegisteredProvider {
+    // Capabilities come from the caller, the provider itself, or the built-in declarations
+    const declared = capabilities
+      || (provider as BasePaymentProvider & { capabilities?: ProviderCapabilities }).capabilities
+      || BUILT_IN_CAPABILITIES[name];
+    if (!declared) {
+      throw new Error(`Payment provider ${name} must declare its capabilities`);
+    }
+
+    const registered: RegisteredProvider = { name, provider, capabilities: { ...declared } };
+    this.lazyProviders.delete(name);
+    this.providers.set(name, registered);
+    return registered;
+  }
+
+  unregister(name: string): boolean {
+    const removedLazy = this.lazyProviders.delete(name);
+    return this.providers.delete(name) || removedLazy;
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name) || this.lazyProviders.has(name);
+  }
+
+  get(name: string): BasePaymentProvider {
+    return this.load(name).provider;
+  }
+
+  getCapabilities(name: string): ProviderCapabilities {
+    return { ...this.loadCapabilities(name) };
+  }
+
+  list(): ProviderInfo[] {
+    const lazy = Array.from(this.lazyProviders.entries()).map(([name, { capabilities }]) => ({ name, capabilities }));
+    return [...Array.from(this.providers.values()), ...lazy].map(({ name, capabilities }) => ({
+      name,
+      capabilities: { ...capabilities },
+    }));
+  }
+
+  supports(name: string, capability: ProviderCapability, currency?: string): boolean {
+    const capabilities = this.loadCapabilities(name);
+
+    if (capability === 'currency') {
+      return capabilities.currencies === '*'
+        || capabilities.currencies.some(code => code.toUpperCase() === (currency || '').toUpperCase());
+    }
+    return capabilities[capability];
+  }
+
+  assertSupports(name: string, capability: ProviderCapability, currency?: string): void {
+    if (!this.supports(name, capability, currency)) {
+      throw new CapabilityNotSupportedError(name, capability, currency && currency.toUpperCase());
+    }
+  }
+
+  private load(name: string): RegisteredProvider {
+    const registered = this.providers.get(name);
+    if (registered) {
+      return registered;
+    }
+
+    const lazy = this.lazyProviders.get(name);
+    if (!lazy) {
+      throw new UnsupportedProviderError(name);
+    }
+
+    let provider: BasePaymentProvider;
+    try {
+      provider = lazy.factory();
+    } catch (error) {
+      throw new Error(`Payment provider ${name} could not be loaded: ${errorMessage(error)}`);
+    }
+    return this.register(name, provider, lazy.capabilities);
+  }
+
+  // Capabilities are known before a lazy provider is loaded
+  private loadCapabilities(name: string): ProviderCapabilities {
+    const lazy = this.lazyProviders.get(name);
+    return lazy ? lazy.capabilities : this.load(name).capabilities;
+  }
+}
@@ -0,0 +1,28 @@
+import type { BasePaymentProvider } from './base-provider';
+
+export interface ProviderCapabilities {
+  // ISO 4217 codes, or '*' for any currency
+  currencies: string[] | '*';
+  partialCapture: boolean;
+  multipleCaptures: boolean;
+  partialRefund: boolean;
+  savedPaymentMethods: boolean;
+  webhooks: boolean;
+  // How long an uncaptured authorization is held before the provider releases it
+  authorizationHoldDays?: number;
+}
+
+export type ProviderCapability =
+  | Exclude<keyof ProviderCapabilities, 'currencies' | 'authorizationHoldDays'>
+  | 'currency';
+
+export interface RegisteredProvider {
+  name: string;
+  provider: BasePaymentProvider;
+  capabilities: ProviderCapabilities;
+}
+
+export interface ProviderInfo {
+  name: string;
+  capabilities: ProviderCapabilities;
+}
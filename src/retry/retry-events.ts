@@ -0,0 +1,19 @@
+export const RETRY_EVENTS = {
+  ATTEMPT: 'retry:attempt',
+  SUCCESS: 'retry:success',
+  FAILED: 'retry:failed',
+  SCHEDULED: 'retry:scheduled',
+  EXHAUSTED: 'retry:exhausted',
+  QUEUED: 'retry:queued',
+  QUEUE_ITEM_FAILED: 'retry:queue:item:failed',
+} as const;
+
+export interface RetryEventData {
+  operation: string;
+  attempt?: number;
+  maxAttempts?: number;
+  delay?: number;
+  error?: string;
+  context?: Record<string, any>;
+  timestamp: string;
+}
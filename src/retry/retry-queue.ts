@@ -0,0 +1,25 @@
+import { RetryQueueItem } from './types';
+
+export class RetryQueue {
+  private items: RetryQueueItem[];
+
+  constructor() {
+    this.items = [];
+  }
+
+  async add(item: RetryQueueItem): Promise<void> {
+    this.items.push(item);
+  }
+
+  async getPending(): Promise<RetryQueueItem[]> {
+    return [...this.items];
+  }
+
+  async remove(item: RetryQueueItem): Promise<void> {
+    this.items = this.items.filter(candidate => candidate !== item);
+  }
+
+  size(): number {
+    return this.items.length;
+  }
+}
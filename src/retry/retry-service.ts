@@ -7,6 +7,7 @@ import {
   RetryStrategy
 } from './types';
 import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
 
 export class RetryService {
   private eventEmitter: CheckoutEventEmitter;
@@ -61,25 +62,29 @@ export class RetryService {
         return result;
 
       } catch (error) {
-        lastError = error;
+        lastError = error instanceof Error ? error : new Error(String(error));
         
         // Emit retry failure event
         this.eventEmitter.emitEvent('retry:failed', {
           operation: operation.name || 'unknown',
           attempt,
-          error: error.message,
+          error: errorMessage(error),
           context,
           timestamp: new Date().toISOString(),
         });
 
-        logger.warn(`Operation ${operation.name} failed on attempt ${attempt}: ${error.message}`);
+        logger.warn(`Operation ${operation.name} failed on attempt ${attempt}: ${errorMessage(error)}`);
+
+        if (this.config.shouldRetry && !this.config.shouldRetry(error)) {
+          break;
+        }
 
         if (attempt === this.config.maxAttempts) {
           // Emit retry exhausted event
           this.eventEmitter.emitEvent('retry:exhausted', {
             operation: operation.name || 'unknown',
             maxAttempts: this.config.maxAttempts,
-            error: error.message,
+            error: errorMessage(error),
             context,
             timestamp: new Date().toISOString(),
           });
@@ -151,7 +156,7 @@ export class RetryService {
           this.eventEmitter.emitEvent('retry:queue:item:failed', {
             operation: item.operation.name || 'unknown',
             retryCount: item.context.retryCount,
-            error: error.message,
+            error: errorMessage(error),
             timestamp: new Date().toISOString(),
           });
         }
@@ -159,7 +164,7 @@ export class RetryService {
     }
   }
 
-  private calculateDelay(attempt: number): number {
+  calculateDelay(attempt: number): number {
     switch (this.config.strategy) {
       case 'exponential':
         return Math.min(
@@ -175,6 +180,12 @@ export class RetryService {
       
       case 'fixed':
         return this.config.initialDelay;
+
+      case 'schedule': {
+        const schedule = this.config.schedule || [];
+        const scheduled = schedule[Math.min(attempt, schedule.length) - 1];
+        return scheduled !== undefined ? scheduled : this.config.initialDelay;
+      }
       
       default:
         return Math.min(
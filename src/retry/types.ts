@@ -0,0 +1,32 @@
+export type RetryStrategy = 'exponential' | 'linear' | 'fixed' | 'schedule';
+
+export interface RetryableOperation<T> {
+  name?: string;
+  execute: () => Promise<T>;
+}
+
+export interface RetryConfig {
+  maxAttempts: number;
+  initialDelay: number;
+  maxDelay: number;
+  backoffFactor: number;
+  strategy: RetryStrategy;
+  // Explicit delay in ms after each failed attempt, used by the 'schedule' strategy
+  schedule?: number[];
+  // Errors this returns false for fail immediately instead of being retried
+  shouldRetry?: (error: any) => boolean;
+}
+
+export interface RetryResult<T = any> {
+  success: boolean;
+  result?: T;
+  error?: string;
+  attempts: number;
+}
+
+export interface RetryQueueItem<T = any> {
+  operation: RetryableOperation<T>;
+  context: Record<string, any>;
+  config: RetryConfig;
+  createdAt: string;
+}
@@ -0,0 +1,12 @@
+import { CheckoutError } from '../core/errors';
+import { RiskAssessment } from './types';
+
+export class PaymentBlockedError extends CheckoutError {
+  readonly assessment: RiskAssessment;
+
+  constructor(assessment: RiskAssessment) {
+    const reasons = assessment.results.map(result => result.reason).join('; ');
+    super(`Payment blocked by risk rules (score ${assessment.score}): ${reasons}`, 'payment_blocked');
+    this.assessment = assessment;
+  }
+}
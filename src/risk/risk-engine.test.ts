@@ -0,0 +1,34 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { RiskEngine } from './risk-engine';
+import { RiskRule } from './types';
+
+const brokenRule: RiskRule = {
+  name: 'broken',
+  evaluate: () => { throw new Error('lookup unavailable'); },
+};
+
+const params = { amount: 1000, currency: 'USD', customerId: 'cus_1' };
+
+describe('RiskEngine rule errors', () => {
+  it('skips a failing rule by default and reports it', async () => {
+    const failures: any[] = [];
+    const listener = (data: any) => failures.push(data);
+    CheckoutEventEmitter.getInstance().on('payment:risk:rule:failed', listener);
+
+    const assessment = await new RiskEngine({ rules: [brokenRule] }).assess(params);
+    CheckoutEventEmitter.getInstance().off('payment:risk:rule:failed', listener);
+
+    expect(assessment.decision).toBe('allow');
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({ rule: 'broken', error: 'lookup unavailable', failOpen: true });
+  });
+
+  it('blocks when fail-open is turned off', async () => {
+    const assessment = await new RiskEngine({ rules: [brokenRule], failOpen: false }).assess(params);
+
+    expect(assessment.decision).toBe('block');
+    expect(assessment.results).toEqual([
+      { rule: 'broken', score: 0, decision: 'block', reason: 'Risk rule broken failed' },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { systemClock } from '../core/clock';
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import type { CreatePaymentParams } from '../payments/types';
+import { RiskAssessment, RiskDecision, RiskEngineConfig, RiskRule, RiskRuleResult } from './types';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+const SEVERITY: Record<RiskDecision, number> = { allow: 0, review: 1, block: 2 };
+
+export class RiskEngine {
+  private config: RiskEngineConfig;
+  private eventEmitter: CheckoutEventEmitter;
+
+  constructor(config?: Partial<RiskEngineConfig>) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.config = {
+      rules: [...(config?.rules || [])],
+      reviewThreshold: config?.reviewThreshold ?? 50,
+      blockThreshold: config?.blockThreshold ?? 80,
+      failOpen: config?.failOpen ?? true,
+      clock: config?.clock || systemClock,
+    };
+  }
+
+  addRule(rule: RiskRule): void {
+    this.config.rules.push(rule);
+  }
+
+  removeRule(name: string): void {
+    this.config.rules = this.config.rules.filter(rule => rule.name !== name);
+  }
+
+  listRules(): string[] {
+    return this.config.rules.map(rule => rule.name);
+  }
+
+  async assess(params: CreatePaymentParams): Promise<RiskAssessment> {
+    const now = this.config.clock.now();
+    const context = { params, signals: params.riskSignals || {}, now };
+    const results: RiskRuleResult[] = [];
+
+    // Every rule runs, even after a block, so velocity counters see each attempt
+    for (const rule of this.config.rules) {
+      try {
+        const result = await rule.evaluate(context);
+        if (result) {
+          results.push(result);
+        }
+      } catch (error) {
+        logger.error(`Risk rule ${rule.name} failed: ${errorMessage(error)}`);
+
+        // Emit rule failed event
+        this.eventEmitter.emitEvent('payment:risk:rule:failed', {
+          rule: rule.name,
+          error: errorMessage(error),
+          failOpen: this.config.failOpen,
+          amount: params.amount,
+          currency: params.currency,
+          customerId: params.customerId,
+          timestamp: now.toISOString(),
+        });
+
+        if (!this.config.failOpen) {
+          results.push({ rule: rule.name, score: 0, decision: 'block', reason: `Risk rule ${rule.name} failed` });
+        }
+      }
+    }
+
+    const score = Math.min(100, results.reduce((sum, result) => sum + result.score, 0));
+    const decision = results.reduce<RiskDecision>(
+      (current, result) => result.decision && SEVERITY[result.decision] > SEVERITY[current] ? result.decision : current,
+      this.decisionForScore(score)
+    );
+
+    return { score, decision, results, assessedAt: now.toISOString() };
+  }
+
+  private decisionForScore(score: number): RiskDecision {
+    if (score >= this.config.blockThreshold) {
+      return 'block';
+    }
+    return score >= this.config.reviewThreshold ? 'review' : 'allow';
+  }
+}
@@ -0,0 +1,212 @@
+import { RiskContext, RiskDecision, RiskRule, RiskRuleResult, VelocityCounter } from './types';
+import { InMemoryVelocityCounter } from './velocity-counter';
+
+export type VelocityDimension = 'customer' | 'card' | 'ip' | 'email';
+
+export interface VelocityRuleOptions {
+  name?: string;
+  by: VelocityDimension;
+  // Attempts allowed inside the window before the rule fires
+  limit: number;
+  windowMs: number;
+  score?: number;
+  decision?: RiskDecision;
+  counter?: VelocityCounter;
+}
+
+export class VelocityRule implements RiskRule {
+  readonly name: string;
+  private options: VelocityRuleOptions;
+  private counter: VelocityCounter;
+
+  constructor(options: VelocityRuleOptions) {
+    this.name = options.name || `velocity_${options.by}`;
+    this.options = options;
+    this.counter = options.counter || new InMemoryVelocityCounter();
+  }
+
+  async evaluate(context: RiskContext): Promise<RiskRuleResult | null> {
+    const value = this.dimensionValue(context);
+    if (!value) {
+      return null;
+    }
+
+    // Every attempt counts, blocked ones included, so card testers cannot reset the window
+    const count = await this.counter.hit(`${this.name}:${value}`, this.options.windowMs, context.now);
+    if (count <= this.options.limit) {
+      return null;
+    }
+
+    return {
+      rule: this.name,
+      score: this.options.score ?? 100,
+      decision: this.options.decision,
+      reason: `${count} attempts by ${this.options.by} within ${this.options.windowMs}ms (limit ${this.options.limit})`,
+    };
+  }
+
+  private dimensionValue(context: RiskContext): string | undefined {
+    switch (this.options.by) {
+      case 'customer':
+        return context.params.customerId;
+      case 'card':
+        return context.signals.cardFingerprint || context.params.paymentMethodId;
+      case 'ip':
+        return context.signals.ipAddress;
+      case 'email':
+        return context.signals.email?.toLowerCase();
+    }
+  }
+}
+
+export interface AmountThresholdRuleOptions {
+  name?: string;
+  currency: string;
+  // Minor unit amounts above which the payment is reviewed or blocked
+  reviewAbove?: number;
+  blockAbove?: number;
+  score?: number;
+}
+
+export class AmountThresholdRule implements RiskRule {
+  readonly name: string;
+  private options: AmountThresholdRuleOptions;
+
+  constructor(options: AmountThresholdRuleOptions) {
+    this.name = options.name || `amount_${options.currency.toLowerCase()}`;
+    this.options = options;
+  }
+
+  evaluate(context: RiskContext): RiskRuleResult | null {
+    const { amount, currency } = context.params;
+    if (currency.toUpperCase() !== this.options.currency.toUpperCase()) {
+      return null;
+    }
+
+    const { blockAbove, reviewAbove } = this.options;
+    if (blockAbove !== undefined && amount > blockAbove) {
+      return {
+        rule: this.name,
+        score: this.options.score ?? 50,
+        decision: 'block',
+        reason: `Amount ${amount} ${currency.toUpperCase()} is above the block limit ${blockAbove}`,
+      };
+    }
+    if (reviewAbove !== undefined && amount > reviewAbove) {
+      return {
+        rule: this.name,
+        score: this.options.score ?? 50,
+        decision: 'review',
+        reason: `Amount ${amount} ${currency.toUpperCase()} is above the review limit ${reviewAbove}`,
+      };
+    }
+    return null;
+  }
+}
+
+export interface CountryMismatchRuleOptions {
+  name?: string;
+  score?: number;
+  decision?: RiskDecision;
+}
+
+export class CountryMismatchRule implements RiskRule {
+  readonly name: string;
+  private options: CountryMismatchRuleOptions;
+
+  constructor(options: CountryMismatchRuleOptions = {}) {
+    this.name = options.name || 'country_mismatch';
+    this.options = options;
+  }
+
+  evaluate(context: RiskContext): RiskRuleResult | null {
+    const countries: Record<string, string | undefined> = {
+      card: context.params.country,
+      ip: context.signals.ipCountry,
+      billing: context.signals.billingCountry,
+    };
+    const known = Object.entries(countries).filter(([, country]) => country) as [string, string][];
+    const distinct = new Set(known.map(([, country]) => country.toUpperCase()));
+    if (distinct.size <= 1) {
+      return null;
+    }
+
+    return {
+      rule: this.name,
+      score: this.options.score ?? 30,
+      decision: this.options.decision,
+      reason: `Country mismatch: ${known.map(([source, country]) => `${source} ${country.toUpperCase()}`).join(', ')}`,
+    };
+  }
+}
+
+export interface BlocklistEntries {
+  customers?: string[];
+  cards?: string[];
+  ipAddresses?: string[];
+  emails?: string[];
+  countries?: string[];
+}
+
+export class BlocklistRule implements RiskRule {
+  readonly name: string;
+  private entries: Required<{ [K in keyof BlocklistEntries]: Set<string> }>;
+
+  constructor(entries: BlocklistEntries = {}, name: string = 'blocklist') {
+    this.name = name;
+    this.entries = {
+      customers: new Set(),
+      cards: new Set(),
+      ipAddresses: new Set(),
+      emails: new Set(),
+      countries: new Set(),
+    };
+    this.add(entries);
+  }
+
+  add(entries: BlocklistEntries): void {
+    for (const key of Object.keys(this.entries) as (keyof BlocklistEntries)[]) {
+      for (const value of entries[key] || []) {
+        this.entries[key].add(normalize(key, value));
+      }
+    }
+  }
+
+  remove(entries: BlocklistEntries): void {
+    for (const key of Object.keys(this.entries) as (keyof BlocklistEntries)[]) {
+      for (const value of entries[key] || []) {
+        this.entries[key].delete(normalize(key, value));
+      }
+    }
+  }
+
+  evaluate(context: RiskContext): RiskRuleResult | null {
+    const { params, signals } = context;
+    const candidates: [keyof BlocklistEntries, string | undefined][] = [
+      ['customers', params.customerId],
+      ['cards', signals.cardFingerprint],
+      ['cards', params.paymentMethodId],
+      ['ipAddresses', signals.ipAddress],
+      ['emails', signals.email],
+      ['countries', params.country],
+      ['countries', signals.ipCountry],
+      ['countries', signals.billingCountry],
+    ];
+
+    const hit = candidates.find(([key, value]) => value && this.entries[key].has(normalize(key, value)));
+    if (!hit) {
+      return null;
+    }
+
+    return {
+      rule: this.name,
+      score: 100,
+      decision: 'block',
+      reason: `Blocklisted ${hit[0]} entry: ${hit[1]}`,
+    };
+  }
+}
+
+function normalize(key: keyof BlocklistEntries, value: string): string {
+  return key === 'emails' ? value.toLowerCase() : key === 'countries' ? value.toUpperCase() : value;
+}
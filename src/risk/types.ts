@@ -0,0 +1,55 @@
+import { Clock } from '../core/clock';
+import type { CreatePaymentParams } from '../payments/types';
+
+export type RiskDecision = 'allow' | 'review' | 'block';
+
+// Request details the caller knows about the buyer; the card country is CreatePaymentParams.country
+export interface RiskSignals {
+  ipAddress?: string;
+  ipCountry?: string;
+  billingCountry?: string;
+  email?: string;
+  // Stable card identifier across payment method ids, when the provider exposes one
+  cardFingerprint?: string;
+}
+
+export interface RiskContext {
+  params: CreatePaymentParams;
+  signals: RiskSignals;
+  now: Date;
+}
+
+export interface RiskRuleResult {
+  rule: string;
+  score: number;
+  // Forces at least this decision regardless of the total score
+  decision?: RiskDecision;
+  reason: string;
+}
+
+export interface RiskRule {
+  readonly name: string;
+  evaluate(context: RiskContext): RiskRuleResult | null | Promise<RiskRuleResult | null>;
+}
+
+export interface RiskAssessment {
+  score: number;
+  decision: RiskDecision;
+  results: RiskRuleResult[];
+  assessedAt: string;
+}
+
+export interface RiskEngineConfig {
+  rules: RiskRule[];
+  // Total scores at or above these move the decision to review or block
+  reviewThreshold: number;
+  blockThreshold: number;
+  // When false, a rule that throws blocks the payment instead of being skipped
+  failOpen: boolean;
+  clock: Clock;
+}
+
+export interface VelocityCounter {
+  // Records one attempt and returns how many fell inside the window, this one included
+  hit(key: string, windowMs: number, now: Date): Promise<number>;
+}
@@ -0,0 +1,22 @@
+import { VelocityCounter } from './types';
+
+export class InMemoryVelocityCounter implements VelocityCounter {
+  private attempts: Map<string, number[]>;
+
+  constructor() {
+    this.attempts = new Map();
+  }
+
+  async hit(key: string, windowMs: number, now: Date): Promise<number> {
+    const since = now.getTime() - windowMs;
+    // Pruning on every hit keeps memory bounded by the busiest window
+    const recent = (this.attempts.get(key) || []).filter(timestamp => timestamp > since);
+    recent.push(now.getTime());
+    this.attempts.set(key, recent);
+    return recent.length;
+  }
+
+  reset(): void {
+    this.attempts.clear();
+  }
+}
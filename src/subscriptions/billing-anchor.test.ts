@@ -0,0 +1,64 @@
+import {
+  billingDateAt,
+  isSameBillingInterval,
+  nextBillingDate,
+  previousBillingDate,
+  resolveBillingInterval
+} from './billing-anchor';
+
+const monthly = resolveBillingInterval('monthly');
+
+describe('billing anchors', () => {
+  it('clamps a month-end anchor to short months without drifting', () => {
+    const billingAnchor = { anchor: new Date('2024-01-31T00:00:00Z'), interval: monthly };
+
+    expect([1, 2, 3, 13].map(index => billingDateAt(billingAnchor, index).toISOString())).toEqual([
+      '2024-02-29T00:00:00.000Z',
+      '2024-03-31T00:00:00.000Z',
+      '2024-04-30T00:00:00.000Z',
+      '2025-02-28T00:00:00.000Z',
+    ]);
+  });
+
+  it('keeps a fixed billing day of month across renewals', () => {
+    const billingAnchor = { anchor: new Date('2024-01-15T00:00:00Z'), interval: monthly, billingDayOfMonth: 30 };
+
+    expect(nextBillingDate(billingAnchor, new Date('2024-02-01T00:00:00Z')).toISOString())
+      .toBe('2024-02-29T00:00:00.000Z');
+    expect(nextBillingDate(billingAnchor, new Date('2024-02-29T00:00:00Z')).toISOString())
+      .toBe('2024-03-30T00:00:00.000Z');
+  });
+
+  it('keeps the local time of day across DST changes', () => {
+    // 09:00 in New York, before and after clocks move forward on 2024-03-10
+    const weekly = { anchor: new Date('2024-03-01T14:00:00Z'), interval: resolveBillingInterval('weekly'), timeZone: 'America/New_York' };
+    const monthlyInZone = { anchor: new Date('2024-02-10T14:00:00Z'), interval: monthly, timeZone: 'America/New_York' };
+
+    expect(billingDateAt(weekly, 2).toISOString()).toBe('2024-03-15T13:00:00.000Z');
+    expect(billingDateAt(monthlyInZone, 1).toISOString()).toBe('2024-03-10T13:00:00.000Z');
+    expect(billingDateAt(monthlyInZone, 9).toISOString()).toBe('2024-11-10T14:00:00.000Z');
+  });
+
+  it('follows the local calendar for month ends in other time zones', () => {
+    // Midnight on Jan 31 in Tokyo is still Jan 30 in UTC
+    const billingAnchor = { anchor: new Date('2024-01-30T15:00:00Z'), interval: monthly, timeZone: 'Asia/Tokyo' };
+
+    expect(billingDateAt(billingAnchor, 1).toISOString()).toBe('2024-02-28T15:00:00.000Z');
+  });
+
+  it('finds the billing dates around an instant', () => {
+    const billingAnchor = { anchor: new Date('2024-01-31T00:00:00Z'), interval: monthly };
+    const instant = new Date('2024-04-10T00:00:00Z');
+
+    expect(previousBillingDate(billingAnchor, instant).toISOString()).toBe('2024-03-31T00:00:00.000Z');
+    expect(nextBillingDate(billingAnchor, instant).toISOString()).toBe('2024-04-30T00:00:00.000Z');
+  });
+
+  it('resolves quarterly cycles and custom interval counts', () => {
+    expect(resolveBillingInterval('quarterly')).toEqual({ unit: 'month', count: 3 });
+    expect(resolveBillingInterval('weekly', 2)).toEqual({ unit: 'week', count: 2 });
+    expect(isSameBillingInterval(resolveBillingInterval('weekly', 2), { unit: 'day', count: 14 })).toBe(true);
+    expect(isSameBillingInterval(resolveBillingInterval('quarterly'), resolveBillingInterval('monthly', 3))).toBe(true);
+    expect(() => resolveBillingInterval('monthly', 0)).toThrow('Invalid interval count');
+  });
+});
@@ -0,0 +1,177 @@
+import { BillingCycle } from './types';
+
+export interface BillingInterval {
+  unit: 'day' | 'week' | 'month';
+  count: number;
+}
+
+export interface BillingAnchor {
+  anchor: Date;
+  interval: BillingInterval;
+  timeZone?: string;
+  // Fixed day of month used for monthly intervals; clamped to the last day of short months
+  billingDayOfMonth?: number;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const CYCLE_INTERVALS: Record<BillingCycle, BillingInterval> = {
+  daily: { unit: 'day', count: 1 },
+  weekly: { unit: 'week', count: 1 },
+  monthly: { unit: 'month', count: 1 },
+  quarterly: { unit: 'month', count: 3 },
+  yearly: { unit: 'month', count: 12 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function resolveBillingInterval(billingCycle: BillingCycle, intervalCount: number = 1): BillingInterval {
+  const base = CYCLE_INTERVALS[billingCycle];
+  if (!base) {
+    throw new Error(`Unsupported billing cycle: ${billingCycle}`);
+  }
+  if (!Number.isInteger(intervalCount) || intervalCount < 1) {
+    throw new Error(`Invalid interval count: ${intervalCount}`);
+  }
+  return { unit: base.unit, count: base.count * intervalCount };
+}
+
+export function isSameBillingInterval(a: BillingInterval, b: BillingInterval): boolean {
+  const days = (interval: BillingInterval) => interval.unit === 'week' ? interval.count * 7 : interval.count;
+  const unit = (interval: BillingInterval) => interval.unit === 'month' ? 'month' : 'day';
+  return unit(a) === unit(b) && days(a) === days(b);
+}
+
+export function billingDateAt(billingAnchor: BillingAnchor, index: number): Date {
+  const timeZone = billingAnchor.timeZone || 'UTC';
+  const { interval } = billingAnchor;
+  const local = getZonedParts(billingAnchor.anchor, timeZone);
+
+  if (interval.unit === 'month') {
+    const totalMonths = local.month - 1 + index * interval.count;
+    const year = local.year + Math.floor(totalMonths / 12);
+    const month = ((totalMonths % 12) + 12) % 12 + 1;
+    const day = Math.min(billingAnchor.billingDayOfMonth || local.day, daysInMonth(year, month));
+    return zonedTimeToUtc({ ...local, year, month, day }, timeZone);
+  }
+
+  // Day-based intervals step through calendar days so DST shifts keep the local time of day
+  const days = index * interval.count * (interval.unit === 'week' ? 7 : 1);
+  const shifted = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return zonedTimeToUtc({
+    ...local,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  }, timeZone);
+}
+
+export function nextBillingDate(billingAnchor: BillingAnchor, after: Date): Date {
+  let index = estimateIndex(billingAnchor, after);
+
+  while (billingDateAt(billingAnchor, index) > after) {
+    index--;
+  }
+  while (billingDateAt(billingAnchor, index) <= after) {
+    index++;
+  }
+
+  return billingDateAt(billingAnchor, index);
+}
+
+export function previousBillingDate(billingAnchor: BillingAnchor, before: Date): Date {
+  let index = estimateIndex(billingAnchor, before);
+
+  while (billingDateAt(billingAnchor, index) < before) {
+    index++;
+  }
+  while (billingDateAt(billingAnchor, index) >= before) {
+    index--;
+  }
+
+  return billingDateAt(billingAnchor, index);
+}
+
+function estimateIndex(billingAnchor: BillingAnchor, after: Date): number {
+  const { anchor, interval } = billingAnchor;
+
+  if (interval.unit === 'month') {
+    const months = (after.getUTCFullYear() - anchor.getUTCFullYear()) * 12
+      + (after.getUTCMonth() - anchor.getUTCMonth());
+    return Math.floor(months / interval.count);
+  }
+
+  const intervalMs = interval.count * (interval.unit === 'week' ? 7 : 1) * DAY_MS;
+  return Math.floor((after.getTime() - anchor.getTime()) / intervalMs);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const local = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    local.year, local.month - 1, local.day, local.hour, local.minute, local.second, local.millisecond
+  );
+  return asUtc - date.getTime();
+}
+
+function zonedTimeToUtc(local: ZonedParts, timeZone: string): Date {
+  const wallTime = Date.UTC(
+    local.year, local.month - 1, local.day, local.hour, local.minute, local.second, local.millisecond
+  );
+
+  // Re-check the offset at the candidate instant to settle DST transitions
+  const offset = getTimeZoneOffset(new Date(wallTime), timeZone);
+  const candidate = wallTime - offset;
+  const correctedOffset = getTimeZoneOffset(new Date(candidate), timeZone);
+
+  return new Date(correctedOffset === offset ? candidate : wallTime - correctedOffset);
+}
@@ -0,0 +1,99 @@
+import { ManualClock } from '../core/clock';
+import { InvoiceService } from '../invoices/invoice-service';
+import { PaymentService } from '../payments/payment-service';
+import { MOCK_CARDS, MockProvider } from '../providers/mock/mock-provider';
+import { DunningService } from './dunning-service';
+import { SubscriptionService } from './subscription-service';
+import { DunningConfig, SubscriptionPlan } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const plan: SubscriptionPlan = {
+  id: 'plan_pro',
+  name: 'Pro',
+  amount: 2500,
+  currency: 'USD',
+  billingCycle: 'monthly',
+};
+
+// A trial whose first charge was declined leaves the subscription past_due with an open invoice
+async function pastDueSetup(config: Partial<DunningConfig> = {}) {
+  const clock = new ManualClock(new Date('2024-03-01T00:00:00Z'));
+  const paymentService = new PaymentService({ providers: { mock: new MockProvider({ clock }) }, clock });
+  const invoiceService = new InvoiceService({ clock });
+  const subscriptionService = new SubscriptionService({
+    plans: [plan],
+    clock,
+    paymentService,
+    invoiceService,
+    defaultProvider: 'mock',
+  });
+  const dunningService = new DunningService(subscriptionService, invoiceService, { retryDays: [1, 3], clock, ...config });
+
+  const subscription = await subscriptionService.createSubscription({
+    customerId: 'cus_1',
+    planId: plan.id,
+    billingCycle: 'monthly',
+    trialDays: 7,
+    paymentMethodId: `pm_card_${MOCK_CARDS.declined}`,
+  });
+  clock.set(new Date(subscription.trialEnd!));
+  await subscriptionService.endTrial(subscription.id);
+  const [invoice] = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+
+  return { clock, invoiceService, subscriptionService, dunningService, subscription, invoice };
+}
+
+describe('DunningService', () => {
+  it('retries on the retryDays schedule and ends unpaid', async () => {
+    const { clock, invoiceService, subscriptionService, dunningService, subscription, invoice } = await pastDueSetup();
+    const started = clock.now().getTime();
+
+    const inDunning = await dunningService.handlePaymentFailure(subscription.id, invoice.id, 'card_declined');
+    expect(inDunning.status).toBe('past_due');
+    expect(inDunning.dunning!.nextRetryAt).toBe(new Date(started + DAY_MS).toISOString());
+
+    clock.advance(DAY_MS / 2);
+    await dunningService.runOnce();
+    expect((await invoiceService.getInvoice(invoice.id))!.attemptCount).toBe(1);
+
+    clock.set(new Date(started + DAY_MS));
+    await dunningService.runOnce();
+    const retried = await subscriptionService.getSubscription(subscription.id);
+    expect(retried!.dunning).toMatchObject({ attempt: 1, nextRetryAt: new Date(started + 3 * DAY_MS).toISOString() });
+
+    clock.set(new Date(started + 3 * DAY_MS));
+    await dunningService.runOnce();
+    const exhausted = await subscriptionService.getSubscription(subscription.id);
+    expect(exhausted!.status).toBe('unpaid');
+    expect(exhausted!.dunning).toMatchObject({ attempt: 2, nextRetryAt: undefined });
+    expect((await invoiceService.getInvoice(invoice.id))!.attemptCount).toBe(3);
+  });
+
+  it('recovers into the first paid period once the invoice is paid', async () => {
+    const { clock, invoiceService, subscriptionService, dunningService, subscription, invoice } = await pastDueSetup();
+    await dunningService.handlePaymentFailure(subscription.id, invoice.id);
+    await invoiceService.markPaid(invoice.id, { paymentId: 'py_manual', amount: invoice.amountDue });
+
+    clock.advance(DAY_MS);
+    await dunningService.runOnce();
+
+    const recovered = await subscriptionService.getSubscription(subscription.id);
+    expect(recovered!.status).toBe('active');
+    expect(recovered!.dunning).toBeUndefined();
+    expect(recovered!.currentPeriodStart).toBe(invoice.periodStart);
+    expect(recovered!.currentPeriodEnd).toBe(invoice.periodEnd);
+  });
+
+  it('cancels and writes off the invoice when finalAction is canceled', async () => {
+    const { clock, invoiceService, subscriptionService, dunningService, subscription, invoice } =
+      await pastDueSetup({ retryDays: [2], finalAction: 'canceled' });
+    await dunningService.handlePaymentFailure(subscription.id, invoice.id);
+
+    clock.advance(2 * DAY_MS);
+    await dunningService.runOnce();
+
+    expect((await subscriptionService.getSubscription(subscription.id))!.status).toBe('canceled');
+    expect((await invoiceService.getInvoice(invoice.id))!.status).toBe('uncollectible');
+  });
+});
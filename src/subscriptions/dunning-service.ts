@@ -0,0 +1,247 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { systemClock } from '../core/clock';
+import { InvoiceService } from '../invoices/invoice-service';
+import { RetryService } from '../retry/retry-service';
+import { RetryConfig } from '../retry/types';
+import { SubscriptionService } from './subscription-service';
+import { SUBSCRIPTION_EVENTS } from './subscription-events';
+import { SubscriptionNotFoundError } from './errors';
+import { DunningConfig, DunningStep, DunningStepData, Subscription } from './types';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STEP_EVENTS: Record<DunningStep, string> = {
+  started: SUBSCRIPTION_EVENTS.DUNNING_STARTED,
+  retry_scheduled: SUBSCRIPTION_EVENTS.DUNNING_RETRY_SCHEDULED,
+  retry_failed: SUBSCRIPTION_EVENTS.DUNNING_RETRY_FAILED,
+  recovered: SUBSCRIPTION_EVENTS.DUNNING_RECOVERED,
+  exhausted: SUBSCRIPTION_EVENTS.DUNNING_EXHAUSTED,
+};
+
+export class DunningService {
+  private eventEmitter: CheckoutEventEmitter;
+  private subscriptionService: SubscriptionService;
+  private invoiceService: InvoiceService;
+  private retryService: RetryService;
+  private config: DunningConfig;
+  private maxAttempts: number;
+  private timer: NodeJS.Timeout | null = null;
+  private renewalFailedListener = (data: any) => {
+    if (!data.invoiceId) {
+      return;
+    }
+    this.handlePaymentFailure(data.subscriptionId, data.invoiceId, data.error).catch(error => {
+      logger.error(`Dunning could not start for subscription ${data.subscriptionId}: ${error.message}`);
+    });
+  };
+
+  constructor(
+    subscriptionService: SubscriptionService,
+    invoiceService: InvoiceService,
+    config?: Partial<DunningConfig>
+  ) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.subscriptionService = subscriptionService;
+    this.invoiceService = invoiceService;
+    this.config = {
+      ...config,
+      retryDays: config?.retryDays || [1, 3, 5, 7],
+      finalAction: config?.finalAction || 'unpaid',
+      intervalMs: config?.intervalMs || 60 * 60 * 1000,
+      clock: config?.clock || systemClock,
+    };
+    this.retryService = this.config.retryService || new RetryService(
+      this.config.retryConfig || this.scheduleFromRetryDays(this.config.retryDays)
+    );
+    this.maxAttempts = this.config.retryConfig?.maxAttempts || this.config.retryDays.length;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.eventEmitter.on(SUBSCRIPTION_EVENTS.RENEWAL_FAILED, this.renewalFailedListener);
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error(`Dunning run failed: ${error.message}`);
+      });
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    this.eventEmitter.off(SUBSCRIPTION_EVENTS.RENEWAL_FAILED, this.renewalFailedListener);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async handlePaymentFailure(subscriptionId: string, invoiceId: string, error?: string): Promise<Subscription> {
+    const subscription = await this.subscriptionService.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new SubscriptionNotFoundError(subscriptionId);
+    }
+
+    // Retries for an invoice already in dunning are driven by runOnce
+    if (subscription.dunning?.invoiceId === invoiceId) {
+      return subscription;
+    }
+
+    const now = this.config.clock.now();
+    const nextRetryAt = new Date(now.getTime() + this.retryService.calculateDelay(1)).toISOString();
+    const updated = await this.subscriptionService.applyDunningState(subscription.id, {
+      invoiceId,
+      attempt: 0,
+      startedAt: now.toISOString(),
+      nextRetryAt,
+      lastError: error,
+    }, 'past_due');
+
+    await this.emitStep('started', updated, { nextRetryAt, error });
+    await this.emitStep('retry_scheduled', updated, { nextRetryAt });
+    return updated;
+  }
+
+  async runOnce(now: Date = this.config.clock.now()): Promise<void> {
+    const pastDue = await this.subscriptionService.listSubscriptionsByStatus('past_due');
+
+    for (const subscription of pastDue) {
+      if (!subscription.dunning?.nextRetryAt || new Date(subscription.dunning.nextRetryAt) > now) {
+        continue;
+      }
+
+      try {
+        await this.retry(subscription);
+      } catch (error) {
+        logger.error(`Dunning retry failed for subscription ${subscription.id}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  private async retry(subscription: Subscription): Promise<Subscription> {
+    const dunning = subscription.dunning!;
+    const attempt = dunning.attempt + 1;
+    let invoice = await this.invoiceService.getInvoice(dunning.invoiceId);
+    if (!invoice) {
+      throw new Error(`Invoice not found: ${dunning.invoiceId}`);
+    }
+
+    try {
+      // The invoice may have been settled out of band since the last attempt
+      if (invoice.status !== 'paid') {
+        const payment = await this.subscriptionService.handleRecurringPayment(subscription.id, {
+          amount: invoice.amountDue,
+          currency: invoice.currency,
+          invoiceId: invoice.id,
+          idempotencyKey: `${invoice.id}:attempt:${invoice.attemptCount + 1}`,
+        });
+        invoice = await this.invoiceService.markPaid(invoice.id, {
+          paymentId: payment.id,
+          amount: payment.amount,
+        });
+      }
+    } catch (error) {
+      await this.invoiceService.recordPaymentFailure(invoice.id, errorMessage(error));
+      return this.handleRetryFailure(subscription, attempt, errorMessage(error));
+    }
+
+    await this.subscriptionService.applyDunningState(subscription.id, undefined, 'active');
+    const recovered = await this.subscriptionService.advancePeriod(
+      subscription.id,
+      this.subscriptionService.getUpcomingPeriod(subscription)
+    );
+
+    await this.emitStep('recovered', recovered, { attempt, invoiceId: invoice.id });
+    logger.info(`Subscription recovered from dunning: ${recovered.id}`);
+    return recovered;
+  }
+
+  private async handleRetryFailure(
+    subscription: Subscription,
+    attempt: number,
+    error: string
+  ): Promise<Subscription> {
+    const dunning = subscription.dunning!;
+
+    if (attempt >= this.maxAttempts) {
+      const exhaustedState = { ...dunning, attempt, nextRetryAt: undefined, lastError: error };
+      let exhausted: Subscription;
+
+      if (this.config.finalAction === 'canceled') {
+        await this.subscriptionService.applyDunningState(subscription.id, exhaustedState);
+        exhausted = await this.subscriptionService.cancelSubscription({
+          subscriptionId: subscription.id,
+          reason: 'dunning_exhausted',
+          immediate: true,
+        });
+        await this.invoiceService.markUncollectible(dunning.invoiceId);
+      } else {
+        exhausted = await this.subscriptionService.applyDunningState(subscription.id, exhaustedState, 'unpaid');
+      }
+
+      await this.emitStep('retry_failed', exhausted, { attempt, error });
+      await this.emitStep('exhausted', exhausted, { attempt, error });
+      logger.warn(`Dunning exhausted for subscription ${subscription.id}: ${exhausted.status}`);
+      return exhausted;
+    }
+
+    const now = this.config.clock.now();
+    const nextRetryAt = new Date(now.getTime() + this.retryService.calculateDelay(attempt + 1)).toISOString();
+    const updated = await this.subscriptionService.applyDunningState(subscription.id, {
+      ...dunning,
+      attempt,
+      nextRetryAt,
+      lastError: error,
+    });
+
+    await this.emitStep('retry_failed', updated, { attempt, error });
+    await this.emitStep('retry_scheduled', updated, { attempt, nextRetryAt });
+    return updated;
+  }
+
+  private async emitStep(
+    step: DunningStep,
+    subscription: Subscription,
+    details: Partial<DunningStepData>
+  ): Promise<void> {
+    const data: DunningStepData = {
+      step,
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      invoiceId: subscription.dunning?.invoiceId || '',
+      attempt: subscription.dunning?.attempt || 0,
+      maxAttempts: this.maxAttempts,
+      ...details,
+    };
+
+    this.eventEmitter.emitEvent(STEP_EVENTS[step], {
+      ...data,
+      planId: subscription.planId,
+      status: subscription.status,
+      timestamp: this.config.clock.now().toISOString(),
+    });
+
+    // Reminder hooks must never break the dunning flow
+    if (this.config.onStep) {
+      try {
+        await this.config.onStep(data);
+      } catch (error) {
+        logger.error(`Dunning reminder hook failed for subscription ${subscription.id}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  private scheduleFromRetryDays(retryDays: number[]): Partial<RetryConfig> {
+    // RetryService delays are relative to the previous attempt, so convert day offsets to gaps
+    const schedule = retryDays.map((day, index) => (day - (index > 0 ? retryDays[index - 1] : 0)) * DAY_MS);
+    return {
+      strategy: 'schedule',
+      schedule,
+      maxAttempts: retryDays.length,
+    };
+  }
+}
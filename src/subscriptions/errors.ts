@@ -0,0 +1,36 @@
+import { CheckoutError } from '../core/errors';
+import { SubscriptionStatus } from './types';
+
+export class SubscriptionNotFoundError extends CheckoutError {
+  readonly subscriptionId: string;
+
+  constructor(subscriptionId: string) {
+    super(`Subscription not found: ${subscriptionId}`, 'subscription_not_found');
+    this.subscriptionId = subscriptionId;
+  }
+}
+
+export class InvalidSubscriptionTransitionError extends CheckoutError {
+  readonly subscriptionId: string;
+  readonly from: SubscriptionStatus;
+  readonly to: SubscriptionStatus;
+
+  constructor(subscriptionId: string, from: SubscriptionStatus, to: SubscriptionStatus) {
+    super(
+      `Invalid subscription status transition for ${subscriptionId}: ${from} -> ${to}`,
+      'invalid_subscription_transition'
+    );
+    this.subscriptionId = subscriptionId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export class PlanNotFoundError extends CheckoutError {
+  readonly planId: string;
+
+  constructor(planId: string) {
+    super(`Subscription plan not found: ${planId}`, 'plan_not_found');
+    this.planId = planId;
+  }
+}
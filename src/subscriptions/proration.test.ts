@@ -0,0 +1,60 @@
+import { calculateProration, calculateRemainingCharge } from './proration';
+import { SubscriptionPlan } from './types';
+
+const basic: SubscriptionPlan = { id: 'plan_basic', name: 'Basic', amount: 1000, currency: 'USD', billingCycle: 'monthly' };
+const pro: SubscriptionPlan = { id: 'plan_pro', name: 'Pro', amount: 3000, currency: 'USD', billingCycle: 'monthly' };
+
+const periodStart = new Date('2024-04-01T00:00:00Z');
+const periodEnd = new Date('2024-05-01T00:00:00Z');
+const halfway = new Date('2024-04-16T00:00:00Z');
+
+describe('calculateProration', () => {
+  it('credits unused time and charges the rest of the period on an upgrade', () => {
+    const lineItems = calculateProration({ currentPlan: basic, newPlan: pro, periodStart, periodEnd, prorationDate: halfway });
+
+    expect(lineItems.map(item => [item.type, item.amount])).toEqual([['credit', -500], ['charge', 1500]]);
+    expect(lineItems[1]).toMatchObject({ planId: pro.id, periodStart: halfway.toISOString(), periodEnd: periodEnd.toISOString() });
+  });
+
+  it('nets to a credit on a downgrade', () => {
+    const lineItems = calculateProration({ currentPlan: pro, newPlan: basic, periodStart, periodEnd, prorationDate: halfway });
+
+    expect(lineItems.reduce((sum, item) => sum + item.amount, 0)).toBe(-1000);
+  });
+
+  it('clamps change dates outside the period', () => {
+    const before = calculateProration({ currentPlan: basic, newPlan: pro, periodStart, periodEnd, prorationDate: new Date('2024-03-20T00:00:00Z') });
+    const after = calculateProration({ currentPlan: basic, newPlan: pro, periodStart, periodEnd, prorationDate: new Date('2024-05-20T00:00:00Z') });
+
+    expect(before.map(item => item.amount)).toEqual([-1000, 3000]);
+    expect(after).toEqual([]);
+  });
+
+  it('charges a full new period when the billing cycle changes', () => {
+    const yearly = { ...pro, id: 'plan_pro_yearly', amount: 30000, billingCycle: 'yearly' as const };
+    const newPeriodEnd = new Date('2025-04-16T00:00:00Z');
+
+    const lineItems = calculateProration({ currentPlan: basic, newPlan: yearly, periodStart, periodEnd, prorationDate: halfway, newPeriodEnd });
+
+    expect(lineItems[1]).toMatchObject({ amount: 30000, periodEnd: newPeriodEnd.toISOString() });
+  });
+
+  it('rejects plans in different currencies', () => {
+    expect(() => calculateProration({
+      currentPlan: basic,
+      newPlan: { ...pro, currency: 'EUR' },
+      periodStart,
+      periodEnd,
+      prorationDate: halfway,
+    })).toThrow('different currencies');
+  });
+});
+
+describe('calculateRemainingCharge', () => {
+  it('charges the rest of the period from the given date', () => {
+    const [charge] = calculateRemainingCharge(pro, periodStart, periodEnd, halfway);
+
+    expect(charge).toMatchObject({ type: 'charge', amount: 1500, periodStart: halfway.toISOString() });
+    expect(calculateRemainingCharge(pro, periodStart, periodEnd, periodEnd)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { ProrationLineItem, SubscriptionPlan } from './types';
+
+export interface ProrationInput {
+  currentPlan: SubscriptionPlan;
+  newPlan: SubscriptionPlan;
+  periodStart: Date;
+  periodEnd: Date;
+  prorationDate: Date;
+  // End of the period the new plan is charged for; differs from periodEnd when the billing cycle changes
+  newPeriodEnd?: Date;
+}
+
+export function calculateProration(input: ProrationInput): ProrationLineItem[] {
+  const { currentPlan, newPlan, periodStart, periodEnd, prorationDate } = input;
+
+  if (currentPlan.currency !== newPlan.currency) {
+    throw new Error(
+      `Cannot prorate between plans in different currencies: ${currentPlan.currency} -> ${newPlan.currency}`
+    );
+  }
+
+  const periodMs = periodEnd.getTime() - periodStart.getTime();
+  if (periodMs <= 0) {
+    return [];
+  }
+
+  // Clamp the change date into the current period
+  const changeMs = Math.min(Math.max(prorationDate.getTime(), periodStart.getTime()), periodEnd.getTime());
+  const unusedFraction = (periodEnd.getTime() - changeMs) / periodMs;
+  const changeDate = new Date(changeMs).toISOString();
+
+  const lineItems: ProrationLineItem[] = [];
+
+  const credit = Math.round(currentPlan.amount * unusedFraction);
+  if (credit > 0) {
+    lineItems.push({
+      type: 'credit',
+      description: `Unused time on ${currentPlan.name}`,
+      planId: currentPlan.id,
+      amount: -credit,
+      currency: currentPlan.currency,
+      periodStart: changeDate,
+      periodEnd: periodEnd.toISOString(),
+    });
+  }
+
+  // A billing cycle change starts a new full period on the new plan
+  const charge = input.newPeriodEnd
+    ? newPlan.amount
+    : Math.round(newPlan.amount * unusedFraction);
+  if (charge > 0) {
+    lineItems.push({
+      type: 'charge',
+      description: `Remaining time on ${newPlan.name}`,
+      planId: newPlan.id,
+      amount: charge,
+      currency: newPlan.currency,
+      periodStart: changeDate,
+      periodEnd: (input.newPeriodEnd || periodEnd).toISOString(),
+    });
+  }
+
+  return lineItems;
+}
+
+export function calculateRemainingCharge(
+  plan: SubscriptionPlan,
+  periodStart: Date,
+  periodEnd: Date,
+  from: Date
+): ProrationLineItem[] {
+  const periodMs = periodEnd.getTime() - periodStart.getTime();
+  const fromMs = Math.min(Math.max(from.getTime(), periodStart.getTime()), periodEnd.getTime());
+  if (periodMs <= 0) {
+    return [];
+  }
+
+  const charge = Math.round(plan.amount * (periodEnd.getTime() - fromMs) / periodMs);
+  if (charge <= 0) {
+    return [];
+  }
+
+  return [{
+    type: 'charge',
+    description: `Remaining time on ${plan.name}`,
+    planId: plan.id,
+    amount: charge,
+    currency: plan.currency,
+    periodStart: new Date(fromMs).toISOString(),
+    periodEnd: periodEnd.toISOString(),
+  }];
+}
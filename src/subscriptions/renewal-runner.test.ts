@@ -0,0 +1,47 @@
+import { ManualClock } from '../core/clock';
+import { InvoiceService } from '../invoices/invoice-service';
+import { PaymentService } from '../payments/payment-service';
+import { MOCK_CARDS, MockProvider } from '../providers/mock/mock-provider';
+import { RenewalRunner } from './renewal-runner';
+import { SubscriptionService } from './subscription-service';
+import { SubscriptionPlan } from './types';
+
+const plan: SubscriptionPlan = { id: 'plan_team', name: 'Team', amount: 4900, currency: 'USD', billingCycle: 'monthly' };
+
+describe('RenewalRunner', () => {
+  it('charges a due subscription once however often the runner ticks', async () => {
+    const clock = new ManualClock(new Date('2024-04-01T00:00:00Z'));
+    const paymentService = new PaymentService({ providers: { mock: new MockProvider({ clock }) }, clock });
+    const invoiceService = new InvoiceService({ clock });
+    const subscriptionService = new SubscriptionService({
+      plans: [plan],
+      clock,
+      paymentService,
+      invoiceService,
+      defaultProvider: 'mock',
+    });
+    const renewalRunner = new RenewalRunner(subscriptionService, invoiceService, { clock });
+    const charge = jest.spyOn(paymentService, 'createPaymentIntent');
+    const subscription = await subscriptionService.createSubscription({
+      customerId: 'cus_team',
+      planId: plan.id,
+      billingCycle: 'monthly',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+
+    clock.set(new Date('2024-05-01T00:00:00Z'));
+    await Promise.all([renewalRunner.runOnce(), renewalRunner.runOnce()]);
+    await renewalRunner.runOnce();
+
+    // A run that read the subscription before the period advanced reuses the paid invoice
+    await renewalRunner.renewSubscription(subscription);
+
+    expect(charge).toHaveBeenCalledTimes(1);
+    const invoices = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    expect(invoices).toEqual([expect.objectContaining({ status: 'paid', amountPaid: 4900, attemptCount: 1 })]);
+    expect(await subscriptionService.getSubscription(subscription.id)).toMatchObject({
+      currentPeriodStart: '2024-05-01T00:00:00.000Z',
+      currentPeriodEnd: '2024-06-01T00:00:00.000Z',
+    });
+  });
+});
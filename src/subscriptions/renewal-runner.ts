@@ -0,0 +1,223 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { systemClock } from '../core/clock';
+import { InvoiceService } from '../invoices/invoice-service';
+import { SubscriptionService } from './subscription-service';
+import { SUBSCRIPTION_EVENTS } from './subscription-events';
+import { PlanNotFoundError } from './errors';
+import { BillingPeriod, RenewalRunnerConfig, Subscription, SubscriptionPlan } from './types';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+export class RenewalRunner {
+  private eventEmitter: CheckoutEventEmitter;
+  private subscriptionService: SubscriptionService;
+  private invoiceService: InvoiceService;
+  private config: RenewalRunnerConfig;
+  private inFlight: Set<string>;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    subscriptionService: SubscriptionService,
+    invoiceService: InvoiceService,
+    config?: Partial<RenewalRunnerConfig>
+  ) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.subscriptionService = subscriptionService;
+    this.invoiceService = invoiceService;
+    this.config = {
+      intervalMs: config?.intervalMs || 5 * 60 * 1000,
+      clock: config?.clock || systemClock,
+      usageService: config?.usageService,
+    };
+    this.inFlight = new Set();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error(`Renewal run failed: ${error.message}`);
+      });
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now: Date = this.config.clock.now()): Promise<void> {
+    await this.resumeScheduledSubscriptions(now);
+
+    const due = await this.subscriptionService.listDueSubscriptions(now);
+
+    for (const subscription of due) {
+      try {
+        await this.renewSubscription(subscription);
+      } catch (error) {
+        logger.error(`Renewal failed for subscription ${subscription.id}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  async renewSubscription(subscription: Subscription): Promise<Subscription> {
+    // Overlapping runs must not charge the same subscription concurrently
+    if (this.inFlight.has(subscription.id)) {
+      return subscription;
+    }
+    this.inFlight.add(subscription.id);
+
+    try {
+      if (subscription.cancelAtPeriodEnd) {
+        return await this.subscriptionService.expireSubscription(subscription.id);
+      }
+
+      const plan = this.subscriptionService.getPlan(subscription.planId);
+      if (!plan) {
+        throw new PlanNotFoundError(subscription.planId);
+      }
+
+      const period = this.subscriptionService.getUpcomingPeriod(subscription);
+
+      if (subscription.status === 'paused') {
+        return await this.rollOverPausedSubscription(subscription, plan, period);
+      }
+
+      // Emit renewal scheduled event
+      this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.RENEWAL_SCHEDULED, {
+        subscriptionId: subscription.id,
+        customerId: subscription.customerId,
+        planId: subscription.planId,
+        status: subscription.status,
+        currentPeriodStart: period.start,
+        currentPeriodEnd: period.end,
+        timestamp: this.config.clock.now().toISOString(),
+      });
+
+      // Metered usage is billed in arrears for the period that is closing
+      const usageLineItems = this.config.usageService && plan.meteredPrices?.length
+        ? await this.config.usageService.buildUsageLineItems(subscription, plan, {
+          start: subscription.currentPeriodStart,
+          end: subscription.currentPeriodEnd,
+        })
+        : [];
+
+      // The renewal invoice is keyed by period, so an already paid invoice is never charged again
+      let invoice = await this.invoiceService.createRenewalInvoice(subscription, plan, period, {
+        lineItems: usageLineItems,
+      });
+
+      if (invoice.status === 'open' || invoice.status === 'uncollectible') {
+        try {
+          const payment = await this.subscriptionService.handleRecurringPayment(subscription.id, {
+            amount: invoice.amountDue,
+            currency: invoice.currency,
+            invoiceId: invoice.id,
+            idempotencyKey: `${invoice.id}:attempt:${invoice.attemptCount + 1}`,
+          });
+          invoice = await this.invoiceService.markPaid(invoice.id, {
+            paymentId: payment.id,
+            amount: payment.amount,
+          });
+        } catch (error) {
+          await this.invoiceService.recordPaymentFailure(invoice.id, errorMessage(error));
+
+          // Emit renewal failed event
+          this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.RENEWAL_FAILED, {
+            subscriptionId: subscription.id,
+            customerId: subscription.customerId,
+            planId: subscription.planId,
+            status: subscription.status,
+            invoiceId: invoice.id,
+            amount: invoice.amountDue,
+            currency: invoice.currency,
+            error: errorMessage(error),
+            timestamp: this.config.clock.now().toISOString(),
+          });
+          throw error;
+        }
+      }
+
+      if (invoice.status !== 'paid') {
+        throw new Error(`Renewal invoice ${invoice.id} is ${invoice.status}`);
+      }
+
+      const renewed = await this.subscriptionService.advancePeriod(subscription.id, period);
+
+      // Emit renewal completed event
+      this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.RENEWAL_COMPLETED, {
+        subscriptionId: renewed.id,
+        customerId: renewed.customerId,
+        planId: renewed.planId,
+        status: renewed.status,
+        invoiceId: invoice.id,
+        paymentId: invoice.paymentId,
+        amount: invoice.amountPaid,
+        currency: invoice.currency,
+        currentPeriodStart: renewed.currentPeriodStart,
+        currentPeriodEnd: renewed.currentPeriodEnd,
+        timestamp: this.config.clock.now().toISOString(),
+      });
+
+      logger.info(`Subscription renewed: ${renewed.id} until ${renewed.currentPeriodEnd}`);
+      return renewed;
+
+    } finally {
+      this.inFlight.delete(subscription.id);
+    }
+  }
+
+  private async resumeScheduledSubscriptions(now: Date): Promise<void> {
+    const paused = await this.subscriptionService.listSubscriptionsByStatus('paused');
+
+    for (const subscription of paused) {
+      const resumesAt = subscription.pauseCollection?.resumesAt;
+      if (!resumesAt || new Date(resumesAt) > now) {
+        continue;
+      }
+
+      try {
+        await this.subscriptionService.resumeSubscription({ subscriptionId: subscription.id });
+      } catch (error) {
+        logger.error(`Scheduled resume failed for subscription ${subscription.id}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  private async rollOverPausedSubscription(
+    subscription: Subscription,
+    plan: SubscriptionPlan,
+    period: BillingPeriod
+  ): Promise<Subscription> {
+    // Paused periods are invoiced but never charged; the pause behavior decides the invoice outcome
+    const behavior = subscription.pauseCollection?.behavior || 'void';
+    // Queued prorations wait for the first renewal invoice after resume
+    let invoice = await this.invoiceService.createRenewalInvoice(
+      { ...subscription, pendingProrations: undefined },
+      plan,
+      period,
+      { autoFinalize: false }
+    );
+
+    if (behavior === 'void' && invoice.status === 'draft') {
+      invoice = await this.invoiceService.voidInvoice(invoice.id);
+    } else if (behavior === 'mark_uncollectible' && invoice.status !== 'uncollectible') {
+      if (invoice.status === 'draft') {
+        invoice = await this.invoiceService.finalizeInvoice(invoice.id);
+      }
+      if (invoice.status === 'open') {
+        invoice = await this.invoiceService.markUncollectible(invoice.id);
+      }
+    }
+
+    const rolledOver = await this.subscriptionService.advancePeriod(subscription.id, period, { keepPendingProrations: true });
+    logger.info(`Paused subscription rolled over: ${rolledOver.id} (invoice ${invoice.id} ${invoice.status})`);
+    return rolledOver;
+  }
+}
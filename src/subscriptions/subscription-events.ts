@@ -7,6 +7,10 @@ export const SUBSCRIPTION_EVENTS = {
   CANCELLING: 'subscription:cancelling',
   CANCELLED: 'subscription:cancelled',
   CANCEL_FAILED: 'subscription:cancel:failed',
+  PAUSED: 'subscription:paused',
+  PAUSE_FAILED: 'subscription:pause:failed',
+  RESUMED: 'subscription:resumed',
+  RESUME_FAILED: 'subscription:resume:failed',
   
   // Billing Events
   RENEWAL_SCHEDULED: 'subscription:renewal:scheduled',
@@ -18,6 +22,13 @@ export const SUBSCRIPTION_EVENTS = {
   RECURRING_PAYMENT_COMPLETED: 'subscription:recurring:payment:completed',
   RECURRING_PAYMENT_FAILED: 'subscription:recurring:payment:failed',
   
+  // Dunning Events
+  DUNNING_STARTED: 'subscription:dunning:started',
+  DUNNING_RETRY_SCHEDULED: 'subscription:dunning:retry:scheduled',
+  DUNNING_RETRY_FAILED: 'subscription:dunning:retry:failed',
+  DUNNING_RECOVERED: 'subscription:dunning:recovered',
+  DUNNING_EXHAUSTED: 'subscription:dunning:exhausted',
+  
   // Status Change Events
   ACTIVATED: 'subscription:activated',
   SUSPENDED: 'subscription:suspended',
@@ -29,6 +40,11 @@ export const SUBSCRIPTION_EVENTS = {
   INVOICE_CREATED: 'subscription:invoice:created',
   INVOICE_PAID: 'subscription:invoice:paid',
   INVOICE_PAYMENT_FAILED: 'subscription:invoice:payment:failed',
+  INVOICE_CREDIT_UPDATED: 'subscription:invoice:credit:updated',
+  PRORATION_CREATED: 'subscription:invoice:proration:created',
+  
+  // Usage Events
+  USAGE_REPORTED: 'subscription:usage:reported',
 } as const;
 
 export interface SubscriptionEventData {
@@ -0,0 +1,99 @@
+import { ManualClock } from '../core/clock';
+import { InvoiceService } from '../invoices/invoice-service';
+import { PaymentService } from '../payments/payment-service';
+import { MOCK_CARDS, MockProvider } from '../providers/mock/mock-provider';
+import { RenewalRunner } from './renewal-runner';
+import { SubscriptionService } from './subscription-service';
+import { SubscriptionPlan } from './types';
+
+const basic: SubscriptionPlan = { id: 'plan_basic', name: 'Basic', amount: 1000, currency: 'USD', billingCycle: 'monthly' };
+const pro: SubscriptionPlan = { id: 'plan_pro', name: 'Pro', amount: 3000, currency: 'USD', billingCycle: 'monthly' };
+
+// An active Basic subscription billed from April 1st
+async function activeSubscription() {
+  const clock = new ManualClock(new Date('2024-04-01T00:00:00Z'));
+  const paymentService = new PaymentService({ providers: { mock: new MockProvider({ clock }) }, clock });
+  const invoiceService = new InvoiceService({ clock });
+  const subscriptionService = new SubscriptionService({
+    plans: [basic, pro],
+    clock,
+    paymentService,
+    invoiceService,
+    defaultProvider: 'mock',
+  });
+  const renewalRunner = new RenewalRunner(subscriptionService, invoiceService, { clock });
+
+  const subscription = await subscriptionService.createSubscription({
+    customerId: 'cus_pause',
+    planId: basic.id,
+    billingCycle: 'monthly',
+    paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+  });
+
+  return { clock, invoiceService, subscriptionService, renewalRunner, subscription };
+}
+
+describe('resuming a paused subscription', () => {
+  it('invoices and charges the new period when the billing cycle restarts', async () => {
+    const { clock, invoiceService, subscriptionService, subscription } = await activeSubscription();
+    await subscriptionService.pauseSubscription({ subscriptionId: subscription.id });
+
+    clock.set(new Date('2024-04-10T00:00:00Z'));
+    const resumed = await subscriptionService.resumeSubscription({ subscriptionId: subscription.id });
+
+    expect(resumed).toMatchObject({
+      status: 'active',
+      currentPeriodStart: '2024-04-10T00:00:00.000Z',
+      currentPeriodEnd: '2024-05-10T00:00:00.000Z',
+    });
+    const invoices = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    expect(invoices).toHaveLength(1);
+    expect(invoices[0]).toMatchObject({
+      status: 'paid',
+      amountPaid: 1000,
+      periodStart: resumed.currentPeriodStart,
+      periodEnd: resumed.currentPeriodEnd,
+    });
+  });
+
+  it('resumes automatically at resumesAt and invoices the new period', async () => {
+    const { clock, invoiceService, subscriptionService, renewalRunner, subscription } = await activeSubscription();
+    await subscriptionService.pauseSubscription({ subscriptionId: subscription.id, resumesAt: '2024-04-20T00:00:00Z' });
+
+    clock.set(new Date('2024-04-20T00:00:00Z'));
+    await renewalRunner.runOnce();
+
+    expect((await subscriptionService.getSubscription(subscription.id))!.status).toBe('active');
+    const [invoice] = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    expect(invoice).toMatchObject({ status: 'paid', periodStart: '2024-04-20T00:00:00.000Z' });
+  });
+
+  it('keeps queued prorations through paused periods until the first renewal after resume', async () => {
+    const { clock, invoiceService, subscriptionService, renewalRunner, subscription } = await activeSubscription();
+    clock.set(new Date('2024-04-16T00:00:00Z'));
+    await subscriptionService.updateSubscription({
+      subscriptionId: subscription.id,
+      updates: { planId: pro.id },
+      prorationBehavior: 'create_prorations',
+    });
+    await subscriptionService.pauseSubscription({ subscriptionId: subscription.id });
+
+    clock.set(new Date('2024-05-01T00:00:00Z'));
+    await renewalRunner.runOnce();
+    const rolledOver = await subscriptionService.getSubscription(subscription.id);
+    expect(rolledOver!.currentPeriodStart).toBe('2024-05-01T00:00:00.000Z');
+    expect(rolledOver!.pendingProrations).toHaveLength(2);
+
+    await subscriptionService.resumeSubscription({ subscriptionId: subscription.id, billingCycleAnchor: 'unchanged' });
+    clock.set(new Date('2024-06-01T00:00:00Z'));
+    await renewalRunner.runOnce();
+
+    const invoices = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    const paused = invoices.find(invoice => invoice.periodStart === '2024-05-01T00:00:00.000Z')!;
+    const renewal = invoices.find(invoice => invoice.periodStart === '2024-06-01T00:00:00.000Z')!;
+    expect(paused.status).toBe('void');
+    expect(paused.lineItems.some(item => item.proration)).toBe(false);
+    expect(renewal).toMatchObject({ status: 'paid', amountPaid: 3000 + 1500 - 500 });
+    expect((await subscriptionService.getSubscription(subscription.id))!.pendingProrations).toBeUndefined();
+  });
+});
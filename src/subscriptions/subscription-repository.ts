@@ -0,0 +1,51 @@
+import { JsonFileStore } from '../core/json-file-store';
+import { Subscription, SubscriptionRepository } from './types';
+
+export class InMemorySubscriptionRepository implements SubscriptionRepository {
+  private subscriptions: Map<string, Subscription>;
+
+  constructor() {
+    this.subscriptions = new Map();
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    const subscription = this.subscriptions.get(id);
+    return subscription ? { ...subscription } : null;
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    this.subscriptions.set(subscription.id, { ...subscription });
+  }
+
+  async listByCustomer(customerId: string): Promise<Subscription[]> {
+    return (await this.list()).filter(subscription => subscription.customerId === customerId);
+  }
+
+  async list(): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values()).map(subscription => ({ ...subscription }));
+  }
+}
+
+export class FileSubscriptionRepository implements SubscriptionRepository {
+  private store: JsonFileStore<Subscription>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    return this.store.get(id);
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    await this.store.put(subscription);
+  }
+
+  async listByCustomer(customerId: string): Promise<Subscription[]> {
+    return (await this.list()).filter(subscription => subscription.customerId === customerId);
+  }
+
+  async list(): Promise<Subscription[]> {
+    return this.store.values();
+  }
+}
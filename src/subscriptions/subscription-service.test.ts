@@ -0,0 +1,192 @@
+import { ManualClock } from '../core/clock';
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { CustomerService } from '../customers/customer-service';
+import { InvoiceService } from '../invoices/invoice-service';
+import { PaymentService } from '../payments/payment-service';
+import { MOCK_CARDS, MockProvider } from '../providers/mock/mock-provider';
+import { InvalidSubscriptionTransitionError } from './errors';
+import { SubscriptionService } from './subscription-service';
+import { SubscriptionPlan } from './types';
+
+const plan: SubscriptionPlan = {
+  id: 'plan_pro',
+  name: 'Pro',
+  amount: 2500,
+  currency: 'USD',
+  billingCycle: 'monthly',
+};
+
+const premiumPlan: SubscriptionPlan = {
+  id: 'plan_premium',
+  name: 'Premium',
+  amount: 5000,
+  currency: 'USD',
+  billingCycle: 'monthly',
+};
+
+function setup() {
+  const clock = new ManualClock(new Date('2024-03-01T00:00:00Z'));
+  const paymentService = new PaymentService({ providers: { mock: new MockProvider({ clock }) }, clock });
+  const customerService = new CustomerService({ clock });
+  const invoiceService = new InvoiceService({ clock });
+  const subscriptionService = new SubscriptionService({
+    plans: [plan, premiumPlan],
+    clock,
+    paymentService,
+    customerService,
+    invoiceService,
+    defaultProvider: 'mock',
+  });
+  return { clock, customerService, invoiceService, subscriptionService };
+}
+
+describe('SubscriptionService.endTrial', () => {
+  it('invoices and charges the first paid period', async () => {
+    const { clock, invoiceService, subscriptionService } = setup();
+    const subscription = await subscriptionService.createSubscription({
+      customerId: 'cus_1',
+      planId: plan.id,
+      billingCycle: 'monthly',
+      trialDays: 14,
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+
+    clock.set(new Date(subscription.trialEnd!));
+    const ended = await subscriptionService.endTrial(subscription.id);
+
+    expect(ended.status).toBe('active');
+    expect(ended.currentPeriodStart).toBe(subscription.trialEnd);
+
+    const [invoice] = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    expect(invoice.status).toBe('paid');
+    expect(invoice.amountPaid).toBe(plan.amount);
+    expect(invoice.periodStart).toBe(ended.currentPeriodStart);
+    expect(invoice.periodEnd).toBe(ended.currentPeriodEnd);
+  });
+
+  it('charges the customer default payment method when the subscription has none', async () => {
+    const { clock, customerService, invoiceService, subscriptionService } = setup();
+    const customer = await customerService.createCustomer({});
+    await customerService.attachPaymentMethod({
+      customerId: customer.id,
+      provider: 'mock',
+      paymentMethod: { id: `pm_card_${MOCK_CARDS.succeeds}`, type: 'card', expiryMonth: 12, expiryYear: 2030 },
+    });
+    const subscription = await subscriptionService.createSubscription({
+      customerId: customer.id,
+      planId: plan.id,
+      billingCycle: 'monthly',
+      trialDays: 7,
+    });
+
+    clock.set(new Date(subscription.trialEnd!));
+    const ended = await subscriptionService.endTrial(subscription.id);
+
+    expect(ended.status).toBe('active');
+    const [invoice] = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    expect(invoice.status).toBe('paid');
+  });
+
+  it('moves to past_due and keeps the trial period when the first charge fails', async () => {
+    const { clock, invoiceService, subscriptionService } = setup();
+    const subscription = await subscriptionService.createSubscription({
+      customerId: 'cus_2',
+      planId: plan.id,
+      billingCycle: 'monthly',
+      trialDays: 14,
+      paymentMethodId: `pm_card_${MOCK_CARDS.declined}`,
+    });
+
+    clock.set(new Date(subscription.trialEnd!));
+    const ended = await subscriptionService.endTrial(subscription.id);
+
+    expect(ended.status).toBe('past_due');
+    expect(ended.currentPeriodEnd).toBe(subscription.trialEnd);
+    const [invoice] = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    expect(invoice.status).toBe('open');
+    expect(invoice.attemptCount).toBe(1);
+    expect(subscriptionService.getUpcomingPeriod(ended).start).toBe(invoice.periodStart);
+  });
+
+  it('is incomplete when no payment method is available', async () => {
+    const { clock, customerService, subscriptionService } = setup();
+    const customer = await customerService.createCustomer({});
+    const subscription = await subscriptionService.createSubscription({
+      customerId: customer.id,
+      planId: plan.id,
+      billingCycle: 'monthly',
+      trialDays: 14,
+    });
+
+    clock.set(new Date(subscription.trialEnd!));
+    const ended = await subscriptionService.endTrial(subscription.id);
+
+    expect(ended.status).toBe('incomplete');
+  });
+});
+
+describe('SubscriptionService always_invoice prorations', () => {
+  it('invoices and charges the proration immediately', async () => {
+    const { clock, invoiceService, subscriptionService } = setup();
+    const subscription = await subscriptionService.createSubscription({
+      customerId: 'cus_4',
+      planId: plan.id,
+      billingCycle: 'monthly',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+    const created: any[] = [];
+    const listener = (data: any) => created.push(data);
+    CheckoutEventEmitter.getInstance().on('subscription:invoice:created', listener);
+
+    clock.advance(15 * 24 * 60 * 60 * 1000);
+    await subscriptionService.updateSubscription({
+      subscriptionId: subscription.id,
+      updates: { planId: premiumPlan.id },
+      prorationBehavior: 'always_invoice',
+    });
+    CheckoutEventEmitter.getInstance().off('subscription:invoice:created', listener);
+
+    const [invoice] = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    expect(invoice.metadata.proration).toBe(true);
+    expect(invoice.status).toBe('paid');
+    expect(invoice.amountPaid).toBeGreaterThan(0);
+    expect(invoice.lineItems.every(item => item.proration)).toBe(true);
+    expect(created).toHaveLength(1);
+    expect(created[0].invoiceId).toBe(invoice.id);
+
+    const updated = await subscriptionService.getSubscription(subscription.id);
+    expect(updated!.pendingProrations).toBeUndefined();
+  });
+});
+
+describe('SubscriptionService status transitions', () => {
+  it('pauses and resumes an active subscription', async () => {
+    const { subscriptionService } = setup();
+    const subscription = await subscriptionService.createSubscription({
+      customerId: 'cus_5',
+      planId: plan.id,
+      billingCycle: 'monthly',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+
+    const paused = await subscriptionService.pauseSubscription({ subscriptionId: subscription.id });
+    const resumed = await subscriptionService.resumeSubscription({ subscriptionId: subscription.id });
+
+    expect([subscription.status, paused.status, resumed.status]).toEqual(['active', 'paused', 'active']);
+  });
+
+  it('rejects changes to a canceled subscription', async () => {
+    const { subscriptionService } = setup();
+    const subscription = await subscriptionService.createSubscription({
+      customerId: 'cus_6',
+      planId: plan.id,
+      billingCycle: 'monthly',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+    await subscriptionService.cancelSubscription({ subscriptionId: subscription.id, immediate: true });
+
+    await expect(
+      subscriptionService.pauseSubscription({ subscriptionId: subscription.id })
+    ).rejects.toBeInstanceOf(InvalidSubscriptionTransitionError);
+  });
+});
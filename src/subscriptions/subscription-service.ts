@@ -1,40 +1,131 @@
 import { CheckoutEventEmitter } from '../core/event-emitter';
+import { Clock, systemClock } from '../core/clock';
 import { 
   Subscription, 
   SubscriptionPlan, 
   CreateSubscriptionParams,
   UpdateSubscriptionParams,
   CancelSubscriptionParams,
-  SubscriptionStatus
+  PauseSubscriptionParams,
+  ResumeSubscriptionParams,
+  SubscriptionStatus,
+  SubscriptionRepository,
+  SubscriptionServiceConfig,
+  ProrationBehavior,
+  ProrationResult,
+  RecurringPaymentData,
+  BillingPeriod,
+  DunningState
 } from './types';
+import { PaymentService } from '../payments/payment-service';
+import { CustomerService } from '../customers/customer-service';
+import { InvoiceService } from '../invoices/invoice-service';
+import { Invoice } from '../invoices/types';
+import { PaymentResult } from '../payments/types';
+import { PaymentActionRequiredError } from '../payments/errors';
+import { SUBSCRIPTION_EVENTS } from './subscription-events';
+import { InMemorySubscriptionRepository } from './subscription-repository';
+import { canTransition, getStatusEvent } from './subscription-state-machine';
+import { calculateProration, calculateRemainingCharge } from './proration';
+import {
+  BillingAnchor,
+  isSameBillingInterval,
+  nextBillingDate,
+  previousBillingDate,
+  resolveBillingInterval
+} from './billing-anchor';
+import {
+  InvalidSubscriptionTransitionError,
+  PlanNotFoundError,
+  SubscriptionNotFoundError
+} from './errors';
 import { validateSubscriptionParams } from '../utils/validation';
 import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+type BillingSchedule = Pick<
+  Subscription,
+  'billingCycle' | 'intervalCount' | 'billingCycleAnchor' | 'billingDayOfMonth' | 'timeZone'
+>;
 
 export class SubscriptionService {
   private eventEmitter: CheckoutEventEmitter;
+  private repository: SubscriptionRepository;
+  private plans: Map<string, SubscriptionPlan>;
+  private clock: Clock;
+  private timeZone: string;
+  private paymentService?: PaymentService;
+  private customerService?: CustomerService;
+  private invoiceService?: InvoiceService;
+  private defaultProvider: string;
 
-  constructor() {
+  constructor(config: SubscriptionServiceConfig = {}) {
     this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.repository = config.repository || new InMemorySubscriptionRepository();
+    this.plans = new Map((config.plans || []).map(plan => [plan.id, plan]));
+    this.clock = config.clock || systemClock;
+    this.timeZone = config.timeZone || 'UTC';
+    this.paymentService = config.paymentService;
+    this.customerService = config.customerService;
+    this.invoiceService = config.invoiceService;
+    this.defaultProvider = config.defaultProvider || 'stripe';
+  }
+
+  async getSubscription(subscriptionId: string): Promise<Subscription | null> {
+    return this.repository.get(subscriptionId);
+  }
+
+  async listSubscriptions(customerId: string): Promise<Subscription[]> {
+    return this.repository.listByCustomer(customerId);
+  }
+
+  async listSubscriptionsByStatus(status: SubscriptionStatus): Promise<Subscription[]> {
+    return (await this.repository.list()).filter(subscription => subscription.status === status);
+  }
+
+  async previewProration(
+    subscriptionId: string,
+    newPlanId: string,
+    behavior: ProrationBehavior = 'create_prorations'
+  ): Promise<ProrationResult> {
+    const subscription = await this.loadSubscription(subscriptionId);
+    return this.buildProration(subscription, newPlanId, behavior, this.clock.now());
   }
 
   async createSubscription(params: CreateSubscriptionParams): Promise<Subscription> {
     try {
       validateSubscriptionParams(params);
 
+      const now = this.clock.now();
+      const trialEnd = this.resolveTrialEnd(params, now);
+      const billing = {
+        billingCycle: params.billingCycle,
+        intervalCount: params.intervalCount,
+        billingCycleAnchor: this.resolveBillingCycleAnchor(params, trialEnd || now),
+        billingDayOfMonth: params.billingDayOfMonth,
+        timeZone: params.timeZone || this.timeZone,
+      };
+
       // In a real implementation, this would integrate with Stripe/other providers
       const subscription: Subscription = {
         id: `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         customerId: params.customerId,
         planId: params.planId,
-        status: 'active',
-        currentPeriodStart: new Date().toISOString(),
-        currentPeriodEnd: this.calculatePeriodEnd(params.billingCycle),
+        status: trialEnd ? 'trialing' : 'active',
+        ...billing,
+        currentPeriodStart: now.toISOString(),
+        currentPeriodEnd: trialEnd ? trialEnd.toISOString() : this.calculatePeriodEnd(billing, now),
         cancelAtPeriodEnd: false,
+        trialStart: trialEnd ? now.toISOString() : undefined,
+        trialEnd: trialEnd ? trialEnd.toISOString() : undefined,
+        paymentMethodId: params.paymentMethodId,
         metadata: params.metadata || {},
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
       };
 
+      await this.repository.save(subscription);
+
       // Emit subscription created event
       this.eventEmitter.emitEvent('subscription:created', {
         subscriptionId: subscription.id,
@@ -49,9 +140,9 @@ export class SubscriptionService {
 
     } catch (error) {
       this.eventEmitter.emitEvent('subscription:creation:failed', {
-        error: error.message,
+        error: errorMessage(error),
         params,
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
       throw error;
     }
@@ -63,23 +154,35 @@ export class SubscriptionService {
       this.eventEmitter.emitEvent('subscription:updating', {
         subscriptionId: params.subscriptionId,
         updates: params.updates,
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
 
-      // In real implementation, update in database/provider
+      const subscription = await this.loadSubscription(params.subscriptionId);
+      const { metadata, ...updates } = params.updates;
+
       const updatedSubscription: Subscription = {
-        id: params.subscriptionId,
-        customerId: 'customer_123', // Would fetch from DB
-        planId: params.updates.planId || 'plan_123',
-        status: 'active',
-        currentPeriodStart: new Date().toISOString(),
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-        cancelAtPeriodEnd: false,
-        metadata: {},
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        ...subscription,
+        ...updates,
+        metadata: metadata ? { ...subscription.metadata, ...metadata } : subscription.metadata,
+        updatedAt: this.clock.now().toISOString(),
       };
 
+      let proration: ProrationResult | null = null;
+      if (updates.planId && updates.planId !== subscription.planId) {
+        proration = this.applyPlanChange(
+          subscription,
+          updatedSubscription,
+          updates.planId,
+          params.prorationBehavior || 'create_prorations'
+        );
+      }
+
+      await this.repository.save(updatedSubscription);
+
+      if (proration) {
+        await this.applyProration(updatedSubscription, proration);
+      }
+
       // Emit subscription updated event
       this.eventEmitter.emitEvent('subscription:updated', {
         subscriptionId: updatedSubscription.id,
@@ -94,9 +197,9 @@ export class SubscriptionService {
 
     } catch (error) {
       this.eventEmitter.emitEvent('subscription:update:failed', {
-        error: error.message,
+        error: errorMessage(error),
         params,
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
       throw error;
     }
@@ -109,23 +212,22 @@ export class SubscriptionService {
         subscriptionId: params.subscriptionId,
         reason: params.reason,
         immediate: params.immediate,
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
 
-      // In real implementation, cancel with provider
+      const subscription = await this.loadSubscription(params.subscriptionId);
+      this.assertTransition(subscription, 'canceled');
+
       const cancelledSubscription: Subscription = {
-        id: params.subscriptionId,
-        customerId: 'customer_123',
-        planId: 'plan_123',
-        status: params.immediate ? 'canceled' : 'active',
-        currentPeriodStart: new Date().toISOString(),
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+        ...subscription,
+        status: params.immediate ? 'canceled' : subscription.status,
         cancelAtPeriodEnd: !params.immediate,
-        metadata: {},
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        canceledAt: params.immediate ? this.clock.now().toISOString() : subscription.canceledAt,
+        updatedAt: this.clock.now().toISOString(),
       };
 
+      await this.repository.save(cancelledSubscription);
+
       // Emit subscription cancelled event
       this.eventEmitter.emitEvent('subscription:cancelled', {
         subscriptionId: cancelledSubscription.id,
@@ -140,62 +242,736 @@ export class SubscriptionService {
 
     } catch (error) {
       this.eventEmitter.emitEvent('subscription:cancel:failed', {
-        error: error.message,
+        error: errorMessage(error),
+        params,
+        timestamp: this.clock.now().toISOString(),
+      });
+      throw error;
+    }
+  }
+
+  async pauseSubscription(params: PauseSubscriptionParams): Promise<Subscription> {
+    try {
+      const subscription = await this.loadSubscription(params.subscriptionId);
+      const now = this.clock.now();
+
+      if (params.resumesAt) {
+        const resumesAt = new Date(params.resumesAt);
+        if (isNaN(resumesAt.getTime()) || resumesAt <= now) {
+          throw new Error(`Invalid resumesAt: ${params.resumesAt}`);
+        }
+      }
+
+      const paused = await this.transitionSubscription(subscription, 'paused', {
+        pauseCollection: {
+          behavior: params.behavior || 'void',
+          pausedAt: now.toISOString(),
+          resumesAt: params.resumesAt ? new Date(params.resumesAt).toISOString() : undefined,
+        },
+      });
+
+      // Emit subscription paused event
+      this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.PAUSED, {
+        subscriptionId: paused.id,
+        customerId: paused.customerId,
+        planId: paused.planId,
+        status: paused.status,
+        behavior: paused.pauseCollection!.behavior,
+        resumesAt: paused.pauseCollection!.resumesAt,
+        reason: params.reason,
+        timestamp: now.toISOString(),
+      });
+
+      logger.info(`Subscription paused: ${paused.id}`);
+      return paused;
+
+    } catch (error) {
+      this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.PAUSE_FAILED, {
+        error: errorMessage(error),
         params,
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
       throw error;
     }
   }
 
-  async handleRecurringPayment(subscriptionId: string, paymentData: any): Promise<void> {
+  async resumeSubscription(params: ResumeSubscriptionParams): Promise<Subscription> {
+    try {
+      const subscription = await this.loadSubscription(params.subscriptionId);
+      const now = this.clock.now();
+      const behavior = params.prorationBehavior || 'none';
+      const restartsCycle = params.billingCycleAnchor !== 'unchanged';
+
+      // Restarting the cycle invoices a full new period; keeping the anchor prorates what is left of the current one
+      const billingCycleAnchor = restartsCycle ? now.toISOString() : subscription.billingCycleAnchor;
+      const billing = { ...subscription, billingCycleAnchor };
+      const periodEnd = new Date(this.calculatePeriodEnd(billing, now));
+      const periodStart = restartsCycle ? now : this.calculatePeriodStart(billing, periodEnd);
+
+      const changes: Partial<Subscription> = {
+        billingCycleAnchor,
+        currentPeriodStart: periodStart.toISOString(),
+        currentPeriodEnd: periodEnd.toISOString(),
+        pauseCollection: undefined,
+      };
+
+      let proration: ProrationResult | null = null;
+      if (!restartsCycle && behavior !== 'none') {
+        const plan = this.loadPlan(subscription.planId);
+        const lineItems = calculateRemainingCharge(plan, periodStart, periodEnd, now);
+        proration = {
+          subscriptionId: subscription.id,
+          behavior,
+          fromPlanId: plan.id,
+          toPlanId: plan.id,
+          prorationDate: now.toISOString(),
+          periodStart: periodStart.toISOString(),
+          periodEnd: periodEnd.toISOString(),
+          lineItems,
+          total: lineItems.reduce((sum, item) => sum + item.amount, 0),
+          currency: plan.currency,
+        };
+        if (behavior === 'create_prorations') {
+          changes.pendingProrations = [...(subscription.pendingProrations || []), ...lineItems];
+        }
+      }
+
+      let invoice: Invoice | undefined;
+      if (restartsCycle && this.invoiceService) {
+        // The new period is invoiced like a renewal, with any prorations queued before the pause
+        invoice = await this.invoiceService.createRenewalInvoice(subscription, this.loadPlan(subscription.planId), {
+          start: changes.currentPeriodStart!,
+          end: changes.currentPeriodEnd!,
+        });
+        changes.pendingProrations = undefined;
+      }
+
+      const resumed = await this.transitionSubscription(subscription, 'active', changes);
+      if (proration) {
+        await this.applyProration(resumed, proration, 'subscription_resume');
+      }
+      if (invoice && (invoice.status === 'open' || invoice.status === 'uncollectible')) {
+        await this.collectResumeInvoice(resumed, invoice);
+      }
+
+      // Emit subscription resumed event
+      this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.RESUMED, {
+        subscriptionId: resumed.id,
+        customerId: resumed.customerId,
+        planId: resumed.planId,
+        status: resumed.status,
+        currentPeriodStart: resumed.currentPeriodStart,
+        currentPeriodEnd: resumed.currentPeriodEnd,
+        timestamp: now.toISOString(),
+      });
+
+      logger.info(`Subscription resumed: ${resumed.id}`);
+      return resumed;
+
+    } catch (error) {
+      this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.RESUME_FAILED, {
+        error: errorMessage(error),
+        params,
+        timestamp: this.clock.now().toISOString(),
+      });
+      throw error;
+    }
+  }
+
+  async notifyTrialEnding(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.loadSubscription(subscriptionId);
+    if (subscription.status !== 'trialing' || !subscription.trialEnd || subscription.trialEndingNotifiedAt) {
+      return subscription;
+    }
+
+    const notified: Subscription = {
+      ...subscription,
+      trialEndingNotifiedAt: this.clock.now().toISOString(),
+      updatedAt: this.clock.now().toISOString(),
+    };
+    await this.repository.save(notified);
+
+    // Emit trial ending event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.TRIAL_ENDING, {
+      subscriptionId: notified.id,
+      customerId: notified.customerId,
+      planId: notified.planId,
+      status: notified.status,
+      trialEnd: notified.trialEnd,
+      hasPaymentMethod: Boolean(notified.paymentMethodId),
+      timestamp: this.clock.now().toISOString(),
+    });
+
+    logger.info(`Trial ending notice sent for subscription: ${notified.id}`);
+    return notified;
+  }
+
+  async endTrial(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.loadSubscription(subscriptionId);
+    if (subscription.status !== 'trialing') {
+      return subscription;
+    }
+
+    const periodStart = subscription.trialEnd ? new Date(subscription.trialEnd) : this.clock.now();
+    const period = {
+      start: periodStart.toISOString(),
+      end: this.calculatePeriodEnd(subscription, periodStart),
+    };
+    const paymentMethod = await this.resolvePaymentMethod(subscription);
+
+    // The first paid period is invoiced like a renewal, so a rerun reuses the same invoice
+    let invoice: Invoice | undefined;
+    if (this.invoiceService) {
+      invoice = await this.invoiceService.createRenewalInvoice(
+        subscription,
+        this.loadPlan(subscription.planId),
+        period
+      );
+    }
+
+    // Prorations queued during the trial are billed on the first invoice
+    const pendingProrations = invoice ? undefined : subscription.pendingProrations;
+    let ended: Subscription;
+    if (!paymentMethod.id) {
+      // Without a payment method the first invoice cannot be collected
+      ended = await this.transitionSubscription(subscription, 'incomplete', {
+        currentPeriodStart: period.start,
+        currentPeriodEnd: period.end,
+        pendingProrations,
+      });
+    } else {
+      if (invoice && (invoice.status === 'open' || invoice.status === 'uncollectible')) {
+        try {
+          invoice = await this.collectInvoice(subscription, invoice);
+        } catch (error) {
+          return this.failTrialConversion(subscription, invoice, error);
+        }
+      }
+
+      ended = await this.transitionSubscription(subscription, 'active', {
+        currentPeriodStart: period.start,
+        currentPeriodEnd: period.end,
+        pendingProrations,
+      });
+    }
+
+    // Emit trial ended event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.TRIAL_ENDED, {
+      subscriptionId: ended.id,
+      customerId: ended.customerId,
+      planId: ended.planId,
+      status: ended.status,
+      trialEnd: ended.trialEnd,
+      invoiceId: invoice?.id,
+      paymentId: invoice?.paymentId,
+      timestamp: this.clock.now().toISOString(),
+    });
+
+    logger.info(`Trial ended for subscription: ${ended.id} (${ended.status})`);
+    return ended;
+  }
+
+  async handleRecurringPayment(subscriptionId: string, paymentData: RecurringPaymentData): Promise<PaymentResult> {
     try {
       // Emit recurring payment started event
       this.eventEmitter.emitEvent('subscription:recurring:payment:started', {
         subscriptionId,
         amount: paymentData.amount,
         currency: paymentData.currency,
-        timestamp: new Date().toISOString(),
+        invoiceId: paymentData.invoiceId,
+        timestamp: this.clock.now().toISOString(),
+      });
+
+      if (!this.paymentService) {
+        throw new Error('Recurring payments require a PaymentService');
+      }
+
+      const subscription = await this.loadSubscription(subscriptionId);
+
+      const paymentMethod = await this.resolvePaymentMethod(subscription);
+      const paymentMethodId = paymentMethod.id;
+      if (!paymentMethodId) {
+        throw new Error(`Subscription ${subscriptionId} has no payment method`);
+      }
+
+      const provider = paymentData.provider || paymentMethod.provider || this.defaultProvider;
+      const paymentIntent = await this.paymentService.createPaymentIntent({
+        amount: paymentData.amount,
+        currency: paymentData.currency,
+        provider,
+        customerId: subscription.customerId,
+        paymentMethodId,
+        captureMethod: 'automatic',
+        metadata: {
+          subscriptionId,
+          invoiceId: paymentData.invoiceId,
+        },
+        idempotencyKey: paymentData.idempotencyKey,
       });
 
-      // Process payment (would integrate with payment service)
-      // ...
+      let result: PaymentResult;
+      if (paymentIntent.status === 'requires_capture') {
+        result = await this.paymentService.capturePayment({
+          paymentIntentId: paymentIntent.id,
+          provider,
+          idempotencyKey: paymentData.idempotencyKey && `${paymentData.idempotencyKey}:capture`,
+        });
+      } else if (paymentIntent.status === 'succeeded') {
+        result = {
+          id: paymentIntent.id,
+          paymentIntentId: paymentIntent.id,
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency,
+          status: 'succeeded',
+          provider,
+          metadata: paymentIntent.metadata,
+        };
+      } else if (paymentIntent.status === 'requires_action') {
+        // Off-session charges the bank wants authenticated need the customer back on session
+        throw new PaymentActionRequiredError(paymentIntent.id, paymentIntent.nextAction);
+      } else {
+        throw new Error(`Recurring payment ${paymentIntent.id} not completed: ${paymentIntent.status}`);
+      }
+
+      if (result.status !== 'succeeded') {
+        throw new Error(`Recurring payment ${result.id} not completed: ${result.status}`);
+      }
 
       // Emit recurring payment completed event
       this.eventEmitter.emitEvent('subscription:recurring:payment:completed', {
         subscriptionId,
-        paymentId: `pay_${Date.now()}`,
-        amount: paymentData.amount,
-        currency: paymentData.currency,
-        status: 'succeeded',
-        timestamp: new Date().toISOString(),
+        paymentId: result.id,
+        invoiceId: paymentData.invoiceId,
+        amount: result.amount,
+        currency: result.currency,
+        status: result.status,
+        timestamp: this.clock.now().toISOString(),
       });
 
       logger.info(`Recurring payment processed for subscription: ${subscriptionId}`);
+      return result;
 
     } catch (error) {
       this.eventEmitter.emitEvent('subscription:recurring:payment:failed', {
         subscriptionId,
-        error: error.message,
+        error: errorMessage(error),
+        invoiceId: paymentData.invoiceId,
         amount: paymentData.amount,
         currency: paymentData.currency,
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.now().toISOString(),
       });
       throw error;
     }
   }
 
-  private calculatePeriodEnd(billingCycle: 'monthly' | 'yearly' | 'weekly'): string {
-    const now = new Date();
-    switch (billingCycle) {
-      case 'weekly':
-        return new Date(now.setDate(now.getDate() + 7)).toISOString();
-      case 'monthly':
-        return new Date(now.setMonth(now.getMonth() + 1)).toISOString();
-      case 'yearly':
-        return new Date(now.setFullYear(now.getFullYear() + 1)).toISOString();
-      default:
-        return new Date(now.setMonth(now.getMonth() + 1)).toISOString();
+  getPlan(planId: string): SubscriptionPlan | null {
+    return this.plans.get(planId) || null;
+  }
+
+  async listDueSubscriptions(now: Date = this.clock.now()): Promise<Subscription[]> {
+    // Paused subscriptions still roll over so their invoices follow the pause behavior
+    return (await this.repository.list()).filter(subscription =>
+      (subscription.status === 'active' || subscription.status === 'paused')
+      && new Date(subscription.currentPeriodEnd) <= now
+    );
+  }
+
+  getUpcomingPeriod(subscription: Subscription): BillingPeriod {
+    const start = new Date(subscription.currentPeriodEnd);
+    return {
+      start: start.toISOString(),
+      end: this.calculatePeriodEnd(subscription, start),
+    };
+  }
+
+  async advancePeriod(
+    subscriptionId: string,
+    period: BillingPeriod,
+    options: { keepPendingProrations?: boolean } = {}
+  ): Promise<Subscription> {
+    const subscription = await this.loadSubscription(subscriptionId);
+
+    const advanced: Subscription = {
+      ...subscription,
+      currentPeriodStart: period.start,
+      currentPeriodEnd: period.end,
+      pendingProrations: options.keepPendingProrations ? subscription.pendingProrations : undefined,
+      updatedAt: this.clock.now().toISOString(),
+    };
+    await this.repository.save(advanced);
+
+    logger.info(`Subscription period advanced: ${advanced.id} until ${advanced.currentPeriodEnd}`);
+    return advanced;
+  }
+
+  async applyDunningState(
+    subscriptionId: string,
+    dunning: DunningState | undefined,
+    status?: SubscriptionStatus
+  ): Promise<Subscription> {
+    const subscription = await this.loadSubscription(subscriptionId);
+
+    if (status && status !== subscription.status) {
+      return this.transitionSubscription(subscription, status, { dunning });
+    }
+
+    const updated: Subscription = {
+      ...subscription,
+      dunning,
+      updatedAt: this.clock.now().toISOString(),
+    };
+    await this.repository.save(updated);
+    return updated;
+  }
+
+  async expireSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.loadSubscription(subscriptionId);
+    const expired = await this.transitionSubscription(subscription, 'canceled', {
+      canceledAt: subscription.canceledAt || this.clock.now().toISOString(),
+    });
+
+    // Emit subscription expired event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.EXPIRED, {
+      subscriptionId: expired.id,
+      customerId: expired.customerId,
+      planId: expired.planId,
+      status: expired.status,
+      currentPeriodEnd: expired.currentPeriodEnd,
+      timestamp: this.clock.now().toISOString(),
+    });
+
+    logger.info(`Subscription expired: ${expired.id}`);
+    return expired;
+  }
+
+  private async resolvePaymentMethod(subscription: Subscription): Promise<{ id?: string; provider?: string }> {
+    // Subscriptions without their own payment method charge the customer's default
+    const fallback = !subscription.paymentMethodId && this.customerService
+      ? await this.customerService.getDefaultPaymentMethod(subscription.customerId)
+      : null;
+    return {
+      id: subscription.paymentMethodId || fallback?.id,
+      provider: fallback?.provider,
+    };
+  }
+
+  private async collectInvoice(subscription: Subscription, invoice: Invoice): Promise<Invoice> {
+    const payment = await this.handleRecurringPayment(subscription.id, {
+      amount: invoice.amountDue,
+      currency: invoice.currency,
+      invoiceId: invoice.id,
+      idempotencyKey: `${invoice.id}:attempt:${invoice.attemptCount + 1}`,
+    });
+    return this.invoiceService!.markPaid(invoice.id, {
+      paymentId: payment.id,
+      amount: payment.amount,
+    });
+  }
+
+  private async collectResumeInvoice(subscription: Subscription, invoice: Invoice): Promise<void> {
+    try {
+      await this.collectInvoice(subscription, invoice);
+    } catch (error) {
+      // The subscription stays resumed; a failed renewal hands the invoice to dunning
+      await this.invoiceService!.recordPaymentFailure(invoice.id, errorMessage(error));
+
+      // Emit renewal failed event
+      this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.RENEWAL_FAILED, {
+        subscriptionId: subscription.id,
+        customerId: subscription.customerId,
+        planId: subscription.planId,
+        status: subscription.status,
+        invoiceId: invoice.id,
+        amount: invoice.amountDue,
+        currency: invoice.currency,
+        error: errorMessage(error),
+        timestamp: this.clock.now().toISOString(),
+      });
+
+      logger.warn(`Resume payment failed for subscription ${subscription.id}: ${errorMessage(error)}`);
+    }
+  }
+
+  private async failTrialConversion(
+    subscription: Subscription,
+    invoice: Invoice,
+    error: unknown
+  ): Promise<Subscription> {
+    await this.invoiceService!.recordPaymentFailure(invoice.id, errorMessage(error));
+
+    // The period stays on the trial so dunning recovery advances into the first paid period
+    const pastDue = await this.transitionSubscription(subscription, 'past_due');
+
+    // Emit renewal failed event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.RENEWAL_FAILED, {
+      subscriptionId: pastDue.id,
+      customerId: pastDue.customerId,
+      planId: pastDue.planId,
+      status: pastDue.status,
+      invoiceId: invoice.id,
+      amount: invoice.amountDue,
+      currency: invoice.currency,
+      error: errorMessage(error),
+      timestamp: this.clock.now().toISOString(),
+    });
+
+    // Emit trial ended event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.TRIAL_ENDED, {
+      subscriptionId: pastDue.id,
+      customerId: pastDue.customerId,
+      planId: pastDue.planId,
+      status: pastDue.status,
+      trialEnd: pastDue.trialEnd,
+      invoiceId: invoice.id,
+      timestamp: this.clock.now().toISOString(),
+    });
+
+    logger.warn(`Trial conversion payment failed for subscription ${pastDue.id}: ${errorMessage(error)}`);
+    return pastDue;
+  }
+
+  private async loadSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.repository.get(subscriptionId);
+    if (!subscription) {
+      throw new SubscriptionNotFoundError(subscriptionId);
+    }
+    return subscription;
+  }
+
+  private loadPlan(planId: string): SubscriptionPlan {
+    const plan = this.plans.get(planId);
+    if (!plan) {
+      throw new PlanNotFoundError(planId);
+    }
+    return plan;
+  }
+
+  private applyPlanChange(
+    subscription: Subscription,
+    updatedSubscription: Subscription,
+    newPlanId: string,
+    behavior: ProrationBehavior
+  ): ProrationResult | null {
+    const now = this.clock.now();
+    const newPlan = behavior === 'none' ? this.plans.get(newPlanId) : this.loadPlan(newPlanId);
+
+    // Moving to a plan on a different billing interval re-anchors the cycle; otherwise the period is kept
+    if (newPlan && this.isIntervalChange(subscription, newPlan)) {
+      updatedSubscription.billingCycle = newPlan.billingCycle;
+      updatedSubscription.intervalCount = newPlan.intervalCount;
+      updatedSubscription.billingCycleAnchor = now.toISOString();
+      updatedSubscription.billingDayOfMonth = undefined;
+      updatedSubscription.currentPeriodStart = now.toISOString();
+      updatedSubscription.currentPeriodEnd = this.calculatePeriodEnd(updatedSubscription, now);
+    }
+
+    if (behavior === 'none') {
+      return null;
+    }
+
+    const proration = this.buildProration(subscription, newPlanId, behavior, now);
+    if (behavior === 'create_prorations') {
+      updatedSubscription.pendingProrations = [
+        ...(subscription.pendingProrations || []),
+        ...proration.lineItems,
+      ];
     }
+    return proration;
   }
+
+  private buildProration(
+    subscription: Subscription,
+    newPlanId: string,
+    behavior: ProrationBehavior,
+    prorationDate: Date
+  ): ProrationResult {
+    const currentPlan = this.loadPlan(subscription.planId);
+    const newPlan = this.loadPlan(newPlanId);
+    const intervalChanged = this.isIntervalChange(subscription, newPlan);
+
+    const lineItems = behavior === 'none' ? [] : calculateProration({
+      currentPlan,
+      newPlan,
+      periodStart: new Date(subscription.currentPeriodStart),
+      periodEnd: new Date(subscription.currentPeriodEnd),
+      prorationDate,
+      newPeriodEnd: intervalChanged
+        ? new Date(this.calculatePeriodEnd({
+          billingCycle: newPlan.billingCycle,
+          intervalCount: newPlan.intervalCount,
+          billingCycleAnchor: prorationDate.toISOString(),
+          timeZone: subscription.timeZone,
+        }, prorationDate))
+        : undefined,
+    });
+
+    return {
+      subscriptionId: subscription.id,
+      behavior,
+      fromPlanId: currentPlan.id,
+      toPlanId: newPlan.id,
+      prorationDate: prorationDate.toISOString(),
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+      lineItems,
+      total: lineItems.reduce((sum, item) => sum + item.amount, 0),
+      currency: newPlan.currency,
+    };
+  }
+
+  private async applyProration(
+    subscription: Subscription,
+    proration: ProrationResult,
+    reason: string = 'subscription_update'
+  ): Promise<void> {
+    // always_invoice bills the proration on its own invoice straight away; other behaviors queue it for renewal
+    let invoice: Invoice | undefined;
+    if (proration.behavior === 'always_invoice' && this.invoiceService && proration.lineItems.length > 0) {
+      invoice = await this.invoiceService.createInvoice({
+        customerId: subscription.customerId,
+        subscriptionId: subscription.id,
+        currency: proration.currency,
+        periodStart: proration.prorationDate,
+        periodEnd: proration.periodEnd,
+        lineItems: proration.lineItems.map(item => ({
+          description: item.description,
+          unitAmount: item.amount,
+          planId: item.planId,
+          periodStart: item.periodStart,
+          periodEnd: item.periodEnd,
+          proration: true,
+        })),
+        autoFinalize: true,
+        metadata: { proration: true, reason },
+      });
+
+      if (invoice.status === 'open') {
+        try {
+          invoice = await this.collectInvoice(subscription, invoice);
+        } catch (error) {
+          // The plan change stands; the open invoice is left for collection
+          invoice = await this.invoiceService.recordPaymentFailure(invoice.id, errorMessage(error));
+        }
+      }
+    }
+
+    // Emit proration created event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.PRORATION_CREATED, {
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      planId: subscription.planId,
+      status: subscription.status,
+      reason,
+      proration,
+      invoiceId: invoice?.id,
+      amount: proration.total,
+      currency: proration.currency,
+      timestamp: this.clock.now().toISOString(),
+    });
+  }
+
+  private assertTransition(subscription: Subscription, to: SubscriptionStatus): void {
+    if (!canTransition(subscription.status, to)) {
+      throw new InvalidSubscriptionTransitionError(subscription.id, subscription.status, to);
+    }
+  }
+
+  private async transitionSubscription(
+    subscription: Subscription,
+    to: SubscriptionStatus,
+    changes: Partial<Subscription> = {}
+  ): Promise<Subscription> {
+    this.assertTransition(subscription, to);
+
+    const transitioned: Subscription = {
+      ...subscription,
+      ...changes,
+      status: to,
+      updatedAt: this.clock.now().toISOString(),
+    };
+
+    await this.repository.save(transitioned);
+    this.emitStatusChange(subscription.status, transitioned);
+    return transitioned;
+  }
+
+  private emitStatusChange(previousStatus: SubscriptionStatus, subscription: Subscription): void {
+    if (previousStatus === subscription.status) {
+      return;
+    }
+
+    const event = getStatusEvent(subscription.status);
+    if (!event) {
+      return;
+    }
+
+    this.eventEmitter.emitEvent(event, {
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      planId: subscription.planId,
+      status: subscription.status,
+      previousStatus,
+      timestamp: this.clock.now().toISOString(),
+    });
+  }
+
+  private resolveTrialEnd(params: CreateSubscriptionParams, now: Date): Date | null {
+    if (params.trialEnd) {
+      const trialEnd = new Date(params.trialEnd);
+      if (isNaN(trialEnd.getTime()) || trialEnd <= now) {
+        throw new Error(`Invalid trialEnd: ${params.trialEnd}`);
+      }
+      return trialEnd;
+    }
+
+    if (params.trialDays !== undefined) {
+      if (!Number.isInteger(params.trialDays) || params.trialDays <= 0) {
+        throw new Error(`Invalid trialDays: ${params.trialDays}`);
+      }
+      return new Date(now.getTime() + params.trialDays * 24 * 60 * 60 * 1000);
+    }
+
+    return null;
+  }
+
+  private resolveBillingCycleAnchor(params: CreateSubscriptionParams, defaultAnchor: Date): string {
+    if (params.billingDayOfMonth !== undefined
+      && (!Number.isInteger(params.billingDayOfMonth) || params.billingDayOfMonth < 1 || params.billingDayOfMonth > 31)) {
+      throw new Error(`Invalid billingDayOfMonth: ${params.billingDayOfMonth}`);
+    }
+
+    if (!params.billingCycleAnchor) {
+      return defaultAnchor.toISOString();
+    }
+
+    const anchor = new Date(params.billingCycleAnchor);
+    if (isNaN(anchor.getTime())) {
+      throw new Error(`Invalid billingCycleAnchor: ${params.billingCycleAnchor}`);
+    }
+    return anchor.toISOString();
+  }
+
+  private isIntervalChange(subscription: Subscription, plan: SubscriptionPlan): boolean {
+    return !isSameBillingInterval(
+      resolveBillingInterval(subscription.billingCycle, subscription.intervalCount),
+      resolveBillingInterval(plan.billingCycle, plan.intervalCount)
+    );
+  }
+
+  private calculatePeriodStart(subscription: BillingSchedule, periodEnd: Date): Date {
+    return previousBillingDate(this.toBillingAnchor(subscription), periodEnd);
+  }
+
+  private calculatePeriodEnd(subscription: BillingSchedule, from: Date): string {
+    return nextBillingDate(this.toBillingAnchor(subscription), from).toISOString();
+  }
+
+  private toBillingAnchor(subscription: BillingSchedule): BillingAnchor {
+    return {
+      anchor: new Date(subscription.billingCycleAnchor),
+      interval: resolveBillingInterval(subscription.billingCycle, subscription.intervalCount),
+      timeZone: subscription.timeZone || this.timeZone,
+      billingDayOfMonth: subscription.billingDayOfMonth,
+    };
   }
+}
@@ -0,0 +1,40 @@
+import { SUBSCRIPTION_EVENTS } from './subscription-events';
+import { SUBSCRIPTION_TRANSITIONS, canTransition, getStatusEvent } from './subscription-state-machine';
+import { SubscriptionStatus } from './types';
+
+describe('subscription state machine', () => {
+  it('allows the lifecycle transitions', () => {
+    expect(canTransition('trialing', 'active')).toBe(true);
+    expect(canTransition('trialing', 'past_due')).toBe(true);
+    expect(canTransition('active', 'past_due')).toBe(true);
+    expect(canTransition('past_due', 'active')).toBe(true);
+    expect(canTransition('past_due', 'unpaid')).toBe(true);
+    expect(canTransition('unpaid', 'active')).toBe(true);
+    expect(canTransition('paused', 'active')).toBe(true);
+    expect(canTransition('incomplete', 'incomplete_expired')).toBe(true);
+  });
+
+  it('rejects transitions that skip a step', () => {
+    expect(canTransition('active', 'unpaid')).toBe(false);
+    expect(canTransition('active', 'trialing')).toBe(false);
+    expect(canTransition('past_due', 'paused')).toBe(false);
+    expect(canTransition('incomplete', 'paused')).toBe(false);
+  });
+
+  it('ends in canceled or incomplete_expired', () => {
+    const statuses = Object.keys(SUBSCRIPTION_TRANSITIONS) as SubscriptionStatus[];
+
+    expect(SUBSCRIPTION_TRANSITIONS.canceled).toEqual([]);
+    expect(SUBSCRIPTION_TRANSITIONS.incomplete_expired).toEqual([]);
+    expect(statuses.filter(status => status !== 'incomplete_expired').every(status =>
+      status === 'canceled' || canTransition(status, 'canceled')
+    )).toBe(true);
+  });
+
+  it('maps statuses to their events', () => {
+    expect(getStatusEvent('active')).toBe(SUBSCRIPTION_EVENTS.ACTIVATED);
+    expect(getStatusEvent('past_due')).toBe(SUBSCRIPTION_EVENTS.SUSPENDED);
+    expect(getStatusEvent('incomplete_expired')).toBe(SUBSCRIPTION_EVENTS.EXPIRED);
+    expect(getStatusEvent('canceled')).toBeUndefined();
+  });
+});
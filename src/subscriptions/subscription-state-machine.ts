@@ -0,0 +1,31 @@
+import { SUBSCRIPTION_EVENTS } from './subscription-events';
+import { SubscriptionStatus } from './types';
+
+export const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  incomplete: ['active', 'incomplete_expired', 'canceled'],
+  incomplete_expired: [],
+  trialing: ['active', 'incomplete', 'past_due', 'paused', 'canceled'],
+  active: ['past_due', 'paused', 'canceled'],
+  past_due: ['active', 'unpaid', 'canceled'],
+  unpaid: ['active', 'canceled'],
+  paused: ['active', 'canceled'],
+  canceled: [],
+};
+
+// Status events emitted when a subscription enters the given status.
+// Cancellation is reported through SUBSCRIPTION_EVENTS.CANCELLED instead.
+const STATUS_EVENTS: Partial<Record<SubscriptionStatus, string>> = {
+  active: SUBSCRIPTION_EVENTS.ACTIVATED,
+  past_due: SUBSCRIPTION_EVENTS.SUSPENDED,
+  unpaid: SUBSCRIPTION_EVENTS.SUSPENDED,
+  paused: SUBSCRIPTION_EVENTS.SUSPENDED,
+  incomplete_expired: SUBSCRIPTION_EVENTS.EXPIRED,
+};
+
+export function canTransition(from: SubscriptionStatus, to: SubscriptionStatus): boolean {
+  return SUBSCRIPTION_TRANSITIONS[from].includes(to);
+}
+
+export function getStatusEvent(status: SubscriptionStatus): string | undefined {
+  return STATUS_EVENTS[status];
+}
@@ -0,0 +1,65 @@
+import { SubscriptionService } from './subscription-service';
+import { TrialSchedulerConfig } from './types';
+import { systemClock } from '../core/clock';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TrialScheduler {
+  private subscriptionService: SubscriptionService;
+  private config: TrialSchedulerConfig;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(subscriptionService: SubscriptionService, config?: Partial<TrialSchedulerConfig>) {
+    this.subscriptionService = subscriptionService;
+    this.config = {
+      trialEndingNoticeDays: config?.trialEndingNoticeDays ?? 3,
+      intervalMs: config?.intervalMs || 60 * 60 * 1000,
+      clock: config?.clock || systemClock,
+    };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error(`Trial scheduler run failed: ${error.message}`);
+      });
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now: Date = this.config.clock.now()): Promise<void> {
+    const trialing = await this.subscriptionService.listSubscriptionsByStatus('trialing');
+    const noticeMs = this.config.trialEndingNoticeDays * DAY_MS;
+
+    for (const subscription of trialing) {
+      if (!subscription.trialEnd) {
+        continue;
+      }
+
+      try {
+        const trialEnd = new Date(subscription.trialEnd).getTime();
+
+        if (trialEnd <= now.getTime()) {
+          await this.subscriptionService.endTrial(subscription.id);
+        } else if (trialEnd - noticeMs <= now.getTime() && !subscription.trialEndingNotifiedAt) {
+          await this.subscriptionService.notifyTrialEnding(subscription.id);
+        }
+      } catch (error) {
+        logger.error(`Trial processing failed for subscription ${subscription.id}: ${errorMessage(error)}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { Clock } from '../core/clock';
+import type { PaymentService } from '../payments/payment-service';
+import type { CustomerService } from '../customers/customer-service';
+import type { InvoiceService } from '../invoices/invoice-service';
+import type { RetryService } from '../retry/retry-service';
+import type { RetryConfig } from '../retry/types';
+import type { MeteredPrice } from '../usage/types';
+import type { UsageService } from '../usage/usage-service';
+
+export type SubscriptionStatus =
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'unpaid'
+  | 'canceled'
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'paused';
+
+export type BillingCycle = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface Subscription {
+  id: string;
+  customerId: string;
+  planId: string;
+  status: SubscriptionStatus;
+  billingCycle: BillingCycle;
+  intervalCount?: number;
+  billingCycleAnchor: string;
+  billingDayOfMonth?: number;
+  timeZone?: string;
+  currentPeriodStart: string;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  canceledAt?: string;
+  trialStart?: string;
+  trialEnd?: string;
+  trialEndingNotifiedAt?: string;
+  paymentMethodId?: string;
+  pendingProrations?: ProrationLineItem[];
+  dunning?: DunningState;
+  pauseCollection?: PauseCollection;
+  metadata: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  amount: number;
+  currency: string;
+  billingCycle: BillingCycle;
+  intervalCount?: number;
+  meteredPrices?: MeteredPrice[];
+  metadata?: Record<string, any>;
+}
+
+export interface CreateSubscriptionParams {
+  customerId: string;
+  planId: string;
+  billingCycle: BillingCycle;
+  intervalCount?: number;
+  billingCycleAnchor?: string;
+  billingDayOfMonth?: number;
+  timeZone?: string;
+  paymentMethodId?: string;
+  trialDays?: number;
+  trialEnd?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateSubscriptionParams {
+  subscriptionId: string;
+  // Status changes go through pause, resume, cancel and endTrial
+  updates: Partial<Pick<Subscription, 'planId' | 'paymentMethodId' | 'cancelAtPeriodEnd' | 'metadata'>>;
+  prorationBehavior?: ProrationBehavior;
+}
+
+export type ProrationBehavior = 'create_prorations' | 'none' | 'always_invoice';
+
+export interface ProrationLineItem {
+  type: 'credit' | 'charge';
+  description: string;
+  planId: string;
+  amount: number;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface ProrationResult {
+  subscriptionId: string;
+  behavior: ProrationBehavior;
+  fromPlanId: string;
+  toPlanId: string;
+  prorationDate: string;
+  periodStart: string;
+  periodEnd: string;
+  lineItems: ProrationLineItem[];
+  total: number;
+  currency: string;
+}
+
+export interface CancelSubscriptionParams {
+  subscriptionId: string;
+  reason?: string;
+  immediate?: boolean;
+}
+
+// What happens to renewal invoices generated while a subscription is paused
+export type PauseBehavior = 'void' | 'keep_as_draft' | 'mark_uncollectible';
+
+export interface PauseCollection {
+  behavior: PauseBehavior;
+  pausedAt: string;
+  resumesAt?: string;
+}
+
+export interface PauseSubscriptionParams {
+  subscriptionId: string;
+  behavior?: PauseBehavior;
+  resumesAt?: string;
+  reason?: string;
+}
+
+export interface ResumeSubscriptionParams {
+  subscriptionId: string;
+  // 'now' restarts the billing cycle at resume time; 'unchanged' keeps the existing anchor
+  billingCycleAnchor?: 'now' | 'unchanged';
+  prorationBehavior?: ProrationBehavior;
+}
+
+export interface SubscriptionRepository {
+  get(id: string): Promise<Subscription | null>;
+  save(subscription: Subscription): Promise<void>;
+  listByCustomer(customerId: string): Promise<Subscription[]>;
+  list(): Promise<Subscription[]>;
+}
+
+export interface SubscriptionServiceConfig {
+  repository?: SubscriptionRepository;
+  plans?: SubscriptionPlan[];
+  clock?: Clock;
+  timeZone?: string;
+  paymentService?: PaymentService;
+  customerService?: CustomerService;
+  invoiceService?: InvoiceService;
+  defaultProvider?: string;
+}
+
+export interface BillingPeriod {
+  start: string;
+  end: string;
+}
+
+export interface RecurringPaymentData {
+  amount: number;
+  currency: string;
+  invoiceId?: string;
+  provider?: string;
+  idempotencyKey?: string;
+}
+
+export interface RenewalRunnerConfig {
+  intervalMs: number;
+  clock: Clock;
+  usageService?: UsageService;
+}
+
+export interface TrialSchedulerConfig {
+  trialEndingNoticeDays: number;
+  intervalMs: number;
+  clock: Clock;
+}
+
+export type DunningStep = 'started' | 'retry_scheduled' | 'retry_failed' | 'recovered' | 'exhausted';
+
+export interface DunningState {
+  invoiceId: string;
+  attempt: number;
+  startedAt: string;
+  nextRetryAt?: string;
+  lastError?: string;
+}
+
+export interface DunningStepData {
+  step: DunningStep;
+  subscriptionId: string;
+  customerId: string;
+  invoiceId: string;
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt?: string;
+  error?: string;
+}
+
+export interface DunningConfig {
+  // Retry days counted from the first failed charge, e.g. [1, 3, 5, 7]
+  retryDays: number[];
+  // Overrides retryDays with any RetryService strategy
+  retryConfig?: Partial<RetryConfig>;
+  retryService?: RetryService;
+  finalAction: 'unpaid' | 'canceled';
+  onStep?: (data: DunningStepData) => void | Promise<void>;
+  intervalMs: number;
+  clock: Clock;
+}
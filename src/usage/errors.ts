@@ -0,0 +1,21 @@
+import { CheckoutError } from '../core/errors';
+
+export class MeterNotFoundError extends CheckoutError {
+  readonly planId: string;
+  readonly meter: string;
+
+  constructor(planId: string, meter: string) {
+    super(`Plan ${planId} has no metered price for meter: ${meter}`, 'meter_not_found');
+    this.planId = planId;
+    this.meter = meter;
+  }
+}
+
+export class UsageIdempotencyError extends CheckoutError {
+  readonly idempotencyKey: string;
+
+  constructor(idempotencyKey: string) {
+    super(`Idempotency key was already used for different usage: ${idempotencyKey}`, 'usage_idempotency_conflict');
+    this.idempotencyKey = idempotencyKey;
+  }
+}
@@ -0,0 +1,60 @@
+import { Clock } from '../core/clock';
+
+export type UsageAggregation = 'sum' | 'max' | 'last';
+
+export type UsageBillingScheme = 'per_unit' | 'volume' | 'graduated';
+
+export interface PriceTier {
+  // Inclusive upper bound of the tier; null for the last, unbounded tier
+  upTo: number | null;
+  // Price per unit in minor units; may be fractional for sub-cent pricing
+  unitAmount: number;
+  flatAmount?: number;
+}
+
+export interface MeteredPrice {
+  meter: string;
+  description?: string;
+  aggregation: UsageAggregation;
+  billingScheme: UsageBillingScheme;
+  unitAmount?: number;
+  tiers?: PriceTier[];
+}
+
+export interface UsageRecord {
+  id: string;
+  subscriptionId: string;
+  meter: string;
+  quantity: number;
+  timestamp: string;
+  idempotencyKey?: string;
+  createdAt: string;
+}
+
+export interface UsageCharge {
+  description: string;
+  quantity: number;
+  amount: number;
+  tier?: number;
+}
+
+export interface UsageSummary {
+  subscriptionId: string;
+  meter: string;
+  aggregation: UsageAggregation;
+  periodStart: string;
+  periodEnd: string;
+  quantity: number;
+  recordCount: number;
+}
+
+export interface UsageRepository {
+  save(record: UsageRecord): Promise<void>;
+  findByIdempotencyKey(subscriptionId: string, idempotencyKey: string): Promise<UsageRecord | null>;
+  list(subscriptionId: string, meter: string, from: Date, to: Date): Promise<UsageRecord[]>;
+}
+
+export interface UsageServiceConfig {
+  repository?: UsageRepository;
+  clock?: Clock;
+}
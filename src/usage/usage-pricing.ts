@@ -0,0 +1,87 @@
+import { MeteredPrice, PriceTier, UsageAggregation, UsageCharge, UsageRecord } from './types';
+
+export function aggregateUsage(records: UsageRecord[], aggregation: UsageAggregation): number {
+  if (records.length === 0) {
+    return 0;
+  }
+
+  switch (aggregation) {
+    case 'sum':
+      return records.reduce((sum, record) => sum + record.quantity, 0);
+    case 'max':
+      return Math.max(...records.map(record => record.quantity));
+    case 'last':
+      return records.reduce((latest, record) =>
+        new Date(record.timestamp) >= new Date(latest.timestamp) ? record : latest
+      ).quantity;
+    default:
+      throw new Error(`Unsupported usage aggregation: ${aggregation}`);
+  }
+}
+
+export function priceUsage(quantity: number, price: MeteredPrice): UsageCharge[] {
+  const label = price.description || price.meter;
+
+  switch (price.billingScheme) {
+    case 'per_unit': {
+      if (price.unitAmount === undefined) {
+        throw new Error(`Metered price ${price.meter} has no unitAmount`);
+      }
+      return [{ description: `${label} (${quantity} units)`, quantity, amount: Math.round(quantity * price.unitAmount) }];
+    }
+
+    case 'volume': {
+      // The whole quantity is priced at the tier it lands in
+      const tiers = validateTiers(price);
+      const index = tiers.findIndex(tier => tier.upTo === null || quantity <= tier.upTo);
+      const tier = tiers[index];
+      return [{
+        description: `${label} (${quantity} units)`,
+        quantity,
+        amount: Math.round(quantity * tier.unitAmount) + (quantity > 0 ? tier.flatAmount || 0 : 0),
+        tier: index + 1,
+      }];
+    }
+
+    case 'graduated': {
+      // Each tier prices only the units that fall inside it
+      const tiers = validateTiers(price);
+      const charges: UsageCharge[] = [];
+      let lowerBound = 0;
+
+      tiers.forEach((tier, index) => {
+        const upperBound = tier.upTo === null ? quantity : Math.min(quantity, tier.upTo);
+        const tierQuantity = Math.max(upperBound - lowerBound, 0);
+        if (tierQuantity > 0) {
+          charges.push({
+            description: `${label} tier ${index + 1} (${tierQuantity} units)`,
+            quantity: tierQuantity,
+            amount: Math.round(tierQuantity * tier.unitAmount) + (tier.flatAmount || 0),
+            tier: index + 1,
+          });
+        }
+        lowerBound = tier.upTo === null ? lowerBound : tier.upTo;
+      });
+
+      return charges;
+    }
+
+    default:
+      throw new Error(`Unsupported billing scheme: ${price.billingScheme}`);
+  }
+}
+
+function validateTiers(price: MeteredPrice): PriceTier[] {
+  const tiers = price.tiers || [];
+  if (tiers.length === 0 || tiers[tiers.length - 1].upTo !== null) {
+    throw new Error(`Metered price ${price.meter} must end with an unbounded tier`);
+  }
+
+  for (let index = 1; index < tiers.length - 1; index++) {
+    if ((tiers[index].upTo as number) <= (tiers[index - 1].upTo as number)) {
+      throw new Error(`Metered price ${price.meter} tiers must be in ascending order`);
+    }
+  }
+
+  return tiers;
+}
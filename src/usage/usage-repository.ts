@@ -0,0 +1,58 @@
+import { JsonFileStore } from '../core/json-file-store';
+import { UsageRecord, UsageRepository } from './types';
+
+function inRange(record: UsageRecord, subscriptionId: string, meter: string, from: Date, to: Date): boolean {
+  const timestamp = new Date(record.timestamp);
+  return record.subscriptionId === subscriptionId
+    && record.meter === meter
+    && timestamp >= from
+    && timestamp < to;
+}
+
+export class InMemoryUsageRepository implements UsageRepository {
+  private records: UsageRecord[];
+
+  constructor() {
+    this.records = [];
+  }
+
+  async save(record: UsageRecord): Promise<void> {
+    this.records.push({ ...record });
+  }
+
+  async findByIdempotencyKey(subscriptionId: string, idempotencyKey: string): Promise<UsageRecord | null> {
+    const record = this.records.find(candidate =>
+      candidate.subscriptionId === subscriptionId && candidate.idempotencyKey === idempotencyKey
+    );
+    return record ? { ...record } : null;
+  }
+
+  async list(subscriptionId: string, meter: string, from: Date, to: Date): Promise<UsageRecord[]> {
+    return this.records
+      .filter(record => inRange(record, subscriptionId, meter, from, to))
+      .map(record => ({ ...record }));
+  }
+}
+
+export class FileUsageRepository implements UsageRepository {
+  private store: JsonFileStore<UsageRecord>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async save(record: UsageRecord): Promise<void> {
+    await this.store.put(record);
+  }
+
+  async findByIdempotencyKey(subscriptionId: string, idempotencyKey: string): Promise<UsageRecord | null> {
+    const records = await this.store.values();
+    return records.find(candidate =>
+      candidate.subscriptionId === subscriptionId && candidate.idempotencyKey === idempotencyKey
+    ) || null;
+  }
+
+  async list(subscriptionId: string, meter: string, from: Date, to: Date): Promise<UsageRecord[]> {
+    return (await this.store.values()).filter(record => inRange(record, subscriptionId, meter, from, to));
+  }
+}
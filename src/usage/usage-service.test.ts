@@ -0,0 +1,69 @@
+import { ManualClock } from '../core/clock';
+import { InvoiceService } from '../invoices/invoice-service';
+import { PaymentService } from '../payments/payment-service';
+import { MOCK_CARDS, MockProvider } from '../providers/mock/mock-provider';
+import { RenewalRunner } from '../subscriptions/renewal-runner';
+import { SubscriptionService } from '../subscriptions/subscription-service';
+import { SubscriptionPlan } from '../subscriptions/types';
+import { UsageService } from './usage-service';
+
+// A 20.00 base fee plus API calls: the first 1,000 free, then 0.5 cents each, then 0.1 cents above 10,000
+const apiPlan: SubscriptionPlan = {
+  id: 'plan_api',
+  name: 'API',
+  amount: 2000,
+  currency: 'USD',
+  billingCycle: 'monthly',
+  meteredPrices: [{
+    meter: 'api_calls',
+    description: 'API calls',
+    aggregation: 'sum',
+    billingScheme: 'graduated',
+    tiers: [
+      { upTo: 1000, unitAmount: 0 },
+      { upTo: 10000, unitAmount: 0.5 },
+      { upTo: null, unitAmount: 0.1, flatAmount: 100 },
+    ],
+  }],
+};
+
+describe('UsageService renewal billing', () => {
+  it('prices the closing period usage in graduated tiers on the renewal invoice', async () => {
+    const clock = new ManualClock(new Date('2024-04-01T00:00:00Z'));
+    const paymentService = new PaymentService({ providers: { mock: new MockProvider({ clock }) }, clock });
+    const invoiceService = new InvoiceService({ clock });
+    const subscriptionService = new SubscriptionService({
+      plans: [apiPlan],
+      clock,
+      paymentService,
+      invoiceService,
+      defaultProvider: 'mock',
+    });
+    const usageService = new UsageService(subscriptionService, { clock });
+    const renewalRunner = new RenewalRunner(subscriptionService, invoiceService, { clock, usageService });
+    const subscription = await subscriptionService.createSubscription({
+      customerId: 'cus_api',
+      planId: apiPlan.id,
+      billingCycle: 'monthly',
+      paymentMethodId: `pm_card_${MOCK_CARDS.succeeds}`,
+    });
+
+    await usageService.reportUsage(subscription.id, 'api_calls', 3000, new Date('2024-04-05T00:00:00Z'), 'batch_1');
+    await usageService.reportUsage(subscription.id, 'api_calls', 3000, new Date('2024-04-05T00:00:00Z'), 'batch_1');
+    await usageService.reportUsage(subscription.id, 'api_calls', 9000, new Date('2024-04-20T00:00:00Z'));
+    await usageService.reportUsage(subscription.id, 'api_calls', 500, new Date('2024-05-02T00:00:00Z'));
+
+    clock.set(new Date('2024-05-01T00:00:00Z'));
+    await renewalRunner.runOnce();
+
+    const [invoice] = await invoiceService.listInvoices({ subscriptionId: subscription.id });
+    expect(invoice.lineItems.map(item => [item.description, item.amount])).toEqual([
+      ['API', 2000],
+      ['API calls tier 1 (1000 units)', 0],
+      ['API calls tier 2 (9000 units)', 4500],
+      ['API calls tier 3 (2000 units)', 300],
+    ]);
+    expect(invoice).toMatchObject({ status: 'paid', amountPaid: 6800 });
+    expect(invoice.lineItems[3].metadata).toMatchObject({ meter: 'api_calls', usageQuantity: 2000, tier: 3 });
+  });
+});
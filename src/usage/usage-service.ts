@@ -0,0 +1,150 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { Clock, systemClock } from '../core/clock';
+import { CreateInvoiceLineItemParams } from '../invoices/types';
+import { SubscriptionService } from '../subscriptions/subscription-service';
+import { SUBSCRIPTION_EVENTS } from '../subscriptions/subscription-events';
+import { PlanNotFoundError, SubscriptionNotFoundError } from '../subscriptions/errors';
+import { BillingPeriod, Subscription, SubscriptionPlan } from '../subscriptions/types';
+import { MeteredPrice, UsageRecord, UsageRepository, UsageServiceConfig, UsageSummary } from './types';
+import { InMemoryUsageRepository } from './usage-repository';
+import { aggregateUsage, priceUsage } from './usage-pricing';
+import { MeterNotFoundError, UsageIdempotencyError } from './errors';
+import { logger } from '../utils/logger';
+
+export class UsageService {
+  private eventEmitter: CheckoutEventEmitter;
+  private subscriptionService: SubscriptionService;
+  private repository: UsageRepository;
+  private clock: Clock;
+
+  constructor(subscriptionService: SubscriptionService, config: UsageServiceConfig = {}) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.subscriptionService = subscriptionService;
+    this.repository = config.repository || new InMemoryUsageRepository();
+    this.clock = config.clock || systemClock;
+  }
+
+  async reportUsage(
+    subscriptionId: string,
+    meter: string,
+    quantity: number,
+    timestamp: Date = this.clock.now(),
+    idempotencyKey?: string
+  ): Promise<UsageRecord> {
+    if (!Number.isFinite(quantity) || quantity < 0) {
+      throw new Error(`Invalid usage quantity: ${quantity}`);
+    }
+
+    const subscription = await this.loadSubscription(subscriptionId);
+    if (subscription.status === 'canceled' || subscription.status === 'incomplete_expired') {
+      throw new Error(`Cannot report usage for ${subscription.status} subscription ${subscription.id}`);
+    }
+    this.getMeteredPrice(this.loadPlan(subscription), meter);
+
+    // Retried reports with the same key return the original record instead of counting twice
+    if (idempotencyKey) {
+      const existing = await this.repository.findByIdempotencyKey(subscriptionId, idempotencyKey);
+      if (existing) {
+        if (existing.meter !== meter || existing.quantity !== quantity) {
+          throw new UsageIdempotencyError(idempotencyKey);
+        }
+        return existing;
+      }
+    }
+
+    const record: UsageRecord = {
+      id: `ur_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      subscriptionId,
+      meter,
+      quantity,
+      timestamp: timestamp.toISOString(),
+      idempotencyKey,
+      createdAt: this.clock.now().toISOString(),
+    };
+    await this.repository.save(record);
+
+    // Emit usage reported event
+    this.eventEmitter.emitEvent(SUBSCRIPTION_EVENTS.USAGE_REPORTED, {
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      planId: subscription.planId,
+      status: subscription.status,
+      metadata: { meter, quantity, usageRecordId: record.id },
+      timestamp: record.createdAt,
+    });
+
+    logger.info(`Usage reported: ${quantity} ${meter} for subscription ${subscription.id}`);
+    return record;
+  }
+
+  async getUsageSummary(subscriptionId: string, meter: string, period?: BillingPeriod): Promise<UsageSummary> {
+    const subscription = await this.loadSubscription(subscriptionId);
+    const price = this.getMeteredPrice(this.loadPlan(subscription), meter);
+    const range = period || { start: subscription.currentPeriodStart, end: subscription.currentPeriodEnd };
+
+    const records = await this.repository.list(subscription.id, meter, new Date(range.start), new Date(range.end));
+    return {
+      subscriptionId: subscription.id,
+      meter,
+      aggregation: price.aggregation,
+      periodStart: range.start,
+      periodEnd: range.end,
+      quantity: aggregateUsage(records, price.aggregation),
+      recordCount: records.length,
+    };
+  }
+
+  async buildUsageLineItems(
+    subscription: Subscription,
+    plan: SubscriptionPlan,
+    period: BillingPeriod
+  ): Promise<CreateInvoiceLineItemParams[]> {
+    const lineItems: CreateInvoiceLineItemParams[] = [];
+
+    for (const price of plan.meteredPrices || []) {
+      const summary = await this.getUsageSummary(subscription.id, price.meter, period);
+
+      for (const charge of priceUsage(summary.quantity, price)) {
+        // Tier prices may be fractional, so each charge is billed as a single rounded line
+        lineItems.push({
+          description: charge.description,
+          unitAmount: charge.amount,
+          planId: plan.id,
+          periodStart: period.start,
+          periodEnd: period.end,
+          metadata: {
+            meter: price.meter,
+            usageQuantity: charge.quantity,
+            tier: charge.tier,
+          },
+        });
+      }
+    }
+
+    return lineItems;
+  }
+
+  private getMeteredPrice(plan: SubscriptionPlan, meter: string): MeteredPrice {
+    const price = plan.meteredPrices?.find(candidate => candidate.meter === meter);
+    if (!price) {
+      throw new MeterNotFoundError(plan.id, meter);
+    }
+    return price;
+  }
+
+  private async loadSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.subscriptionService.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new SubscriptionNotFoundError(subscriptionId);
+    }
+    return subscription;
+  }
+
+  private loadPlan(subscription: Subscription): SubscriptionPlan {
+    const plan = this.subscriptionService.getPlan(subscription.planId);
+    if (!plan) {
+      throw new PlanNotFoundError(subscription.planId);
+    }
+    return plan;
+  }
+}
@@ -0,0 +1,79 @@
+import Joi from 'joi';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CheckoutError } from '../core/errors';
+import type { CreatePaymentParams } from '../payments/types';
+import type { CreateSubscriptionParams } from '../subscriptions/types';
+import type { WebhookVerificationResult } from '../webhooks/types';
+
+export class ValidationError extends CheckoutError {
+  readonly details: string[];
+
+  constructor(details: string[]) {
+    super(`Invalid parameters: ${details.join('; ')}`, 'validation_error');
+    this.details = details;
+  }
+}
+
+const paymentSchema = Joi.object({
+  amount: Joi.number().integer().positive().required(),
+  currency: Joi.string().length(3).required(),
+  provider: Joi.string(),
+  customerId: Joi.string(),
+  paymentMethodId: Joi.string(),
+  returnUrl: Joi.string().uri(),
+  metadata: Joi.object(),
+  idempotencyKey: Joi.string().max(255),
+}).unknown(true);
+
+const subscriptionSchema = Joi.object({
+  customerId: Joi.string().required(),
+  planId: Joi.string().required(),
+  billingCycle: Joi.string().valid('daily', 'weekly', 'monthly', 'quarterly', 'yearly').required(),
+  intervalCount: Joi.number().integer().min(1),
+  billingDayOfMonth: Joi.number().integer().min(1).max(31),
+  trialDays: Joi.number().integer().min(0),
+  trialEnd: Joi.string().isoDate(),
+  billingCycleAnchor: Joi.string().isoDate(),
+  metadata: Joi.object(),
+}).unknown(true);
+
+export function validatePaymentParams(params: CreatePaymentParams): void {
+  assertValid(paymentSchema, params);
+}
+
+export function validateSubscriptionParams(params: CreateSubscriptionParams): void {
+  assertValid(subscriptionSchema, params);
+}
+
+// Stripe-Signature is "t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">", possibly with several v1 entries
+export async function validateWebhookSignature(
+  payload: string | Buffer,
+  signature: string,
+  secret?: string
+): Promise<WebhookVerificationResult> {
+  if (!secret) {
+    return { valid: false, provider: 'stripe', error: 'Stripe webhook secret is not configured' };
+  }
+
+  const parts = signature.split(',').map(part => part.trim().split('=', 2));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!timestamp || signatures.length === 0) {
+    return { valid: false, provider: 'stripe', error: 'Malformed Stripe-Signature header' };
+  }
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.`).update(payload).digest();
+  const valid = signatures.some(candidate => {
+    const actual = Buffer.from(candidate, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+
+  return valid ? { valid: true, provider: 'stripe' } : { valid: false, provider: 'stripe', error: 'Stripe signature mismatch' };
+}
+
+function assertValid(schema: Joi.ObjectSchema, params: unknown): void {
+  const { error } = schema.validate(params, { abortEarly: false });
+  if (error) {
+    throw new ValidationError(error.details.map(detail => detail.message));
+  }
+}
@@ -0,0 +1,10 @@
+import { CheckoutError } from '../core/errors';
+
+export class InboxEntryNotFoundError extends CheckoutError {
+  readonly entryId: string;
+
+  constructor(entryId: string) {
+    super(`Webhook inbox entry not found: ${entryId}`, 'inbox_entry_not_found');
+    this.entryId = entryId;
+  }
+}
@@ -0,0 +1,161 @@
+import axios from 'axios';
+import { X509Certificate, createVerify } from 'crypto';
+import { Clock, systemClock } from '../core/clock';
+import { WebhookVerificationResult } from './types';
+import { WebhookVerificationRequest, WebhookVerifier, getHeader } from './webhook-verifier';
+import { errorMessage } from '../core/errors';
+
+const PAYPAL_CERT_HOSTS = ['api.paypal.com', 'api-m.paypal.com', 'api.sandbox.paypal.com', 'api-m.sandbox.paypal.com'];
+
+// PayPal signs with SHA256withRSA; weaker algorithms are refused even when the header asks for them
+const AUTH_ALGORITHM = 'SHA256withRSA';
+
+export interface CertificateCache {
+  // Resolves the PEM certificate published at a PayPal cert URL
+  get(url: string): Promise<string>;
+}
+
+export class RemoteCertificateCache implements CertificateCache {
+  private certificates: Map<string, { pem: Promise<string>; fetchedAt: number }>;
+  private ttlMs: number;
+  private timeoutMs: number;
+
+  constructor(ttlMs: number = 24 * 60 * 60 * 1000, timeoutMs: number = 5000) {
+    this.certificates = new Map();
+    this.ttlMs = ttlMs;
+    this.timeoutMs = timeoutMs;
+  }
+
+  get(url: string): Promise<string> {
+    const cached = this.certificates.get(url);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return cached.pem;
+    }
+
+    const pem = axios.get<string>(url, { responseType: 'text', timeout: this.timeoutMs }).then(response => response.data);
+    this.certificates.set(url, { pem, fetchedAt: Date.now() });
+
+    // A failed download must not stay cached
+    pem.catch(() => this.certificates.delete(url));
+    return pem;
+  }
+}
+
+export class StaticCertificateCache implements CertificateCache {
+  private certificates: Map<string, string>;
+
+  constructor(certificates: Record<string, string> = {}) {
+    this.certificates = new Map(Object.entries(certificates));
+  }
+
+  set(url: string, pem: string): void {
+    this.certificates.set(url, pem);
+  }
+
+  async get(url: string): Promise<string> {
+    const pem = this.certificates.get(url);
+    if (!pem) {
+      throw new Error(`No certificate cached for ${url}`);
+    }
+    return pem;
+  }
+}
+
+export interface PayPalWebhookVerifierConfig {
+  // The id PayPal assigned to this webhook subscription; it is part of the signed message
+  webhookId?: string;
+  certificateCache?: CertificateCache;
+  // Sandbox certificates are only trusted when explicitly allowed
+  allowSandbox?: boolean;
+  clock?: Clock;
+}
+
+export class PayPalWebhookVerifier implements WebhookVerifier {
+  private config: PayPalWebhookVerifierConfig;
+  private certificateCache: CertificateCache;
+
+  constructor(config: PayPalWebhookVerifierConfig = {}) {
+    this.config = config;
+    this.certificateCache = config.certificateCache || new RemoteCertificateCache();
+  }
+
+  async verify(request: WebhookVerificationRequest): Promise<WebhookVerificationResult> {
+    const fail = (error: string): WebhookVerificationResult => ({ valid: false, provider: request.provider, error });
+
+    if (!this.config.webhookId) {
+      return fail('PayPal webhook id is not configured');
+    }
+
+    const transmissionId = getHeader(request.headers, 'paypal-transmission-id');
+    const transmissionTime = getHeader(request.headers, 'paypal-transmission-time');
+    const signature = getHeader(request.headers, 'paypal-transmission-sig') || request.signature;
+    const certUrl = getHeader(request.headers, 'paypal-cert-url');
+    const authAlgo = getHeader(request.headers, 'paypal-auth-algo') || AUTH_ALGORITHM;
+    if (!transmissionId || !transmissionTime || !signature || !certUrl) {
+      return fail('Missing PayPal transmission headers');
+    }
+
+    if (authAlgo !== AUTH_ALGORITHM) {
+      return fail(`Unsupported PayPal auth algorithm: ${authAlgo}`);
+    }
+    if (!this.isTrustedCertUrl(certUrl)) {
+      return fail(`Untrusted PayPal certificate URL: ${certUrl}`);
+    }
+
+    let certificate: X509Certificate;
+    try {
+      certificate = new X509Certificate(await this.certificateCache.get(certUrl));
+    } catch (error) {
+      return fail(`PayPal certificate unavailable: ${errorMessage(error)}`);
+    }
+
+    const now = (this.config.clock || systemClock).now().getTime();
+    if (now < new Date(certificate.validFrom).getTime() || now > new Date(certificate.validTo).getTime()) {
+      return fail('PayPal certificate is not valid at this time');
+    }
+
+    // PayPal signs transmission id, time, webhook id and the CRC32 of the raw body, pipe separated
+    const message = `${transmissionId}|${transmissionTime}|${this.config.webhookId}|${crc32(request.rawBody)}`;
+    const valid = createVerify('RSA-SHA256').update(message).verify(certificate.publicKey, signature, 'base64');
+
+    return valid ? { valid: true, provider: request.provider } : fail('PayPal signature mismatch');
+  }
+
+  getTimestamp(request: WebhookVerificationRequest): Date | null {
+    const transmissionTime = getHeader(request.headers, 'paypal-transmission-time');
+    const timestamp = transmissionTime ? new Date(transmissionTime) : null;
+    return timestamp && !isNaN(timestamp.getTime()) ? timestamp : null;
+  }
+
+  private isTrustedCertUrl(certUrl: string): boolean {
+    try {
+      const url = new URL(certUrl);
+      const hosts = this.config.allowSandbox ? PAYPAL_CERT_HOSTS : PAYPAL_CERT_HOSTS.filter(host => !host.includes('sandbox'));
+      return url.protocol === 'https:' && hosts.includes(url.hostname);
+    } catch {
+      return false;
+    }
+  }
+}
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: string | Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  const bytes = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
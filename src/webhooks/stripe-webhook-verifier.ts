@@ -0,0 +1,27 @@
+import { WebhookVerificationResult } from './types';
+import { WebhookVerificationRequest, WebhookVerifier, getHeader } from './webhook-verifier';
+import { validateWebhookSignature } from '../utils/validation';
+
+export class StripeWebhookVerifier implements WebhookVerifier {
+  private secret?: string;
+
+  constructor(secret?: string) {
+    this.secret = secret;
+  }
+
+  async verify(request: WebhookVerificationRequest): Promise<WebhookVerificationResult> {
+    if (!this.secret) {
+      return { valid: false, provider: request.provider, error: 'Stripe webhook secret is not configured' };
+    }
+
+    const signature = request.signature || getHeader(request.headers, 'stripe-signature') || '';
+    return validateWebhookSignature(request.rawBody, signature, this.secret);
+  }
+
+  getTimestamp(request: WebhookVerificationRequest): Date | null {
+    // Stripe-Signature is "t=<unix seconds>,v1=<hmac>", and t is covered by the signature
+    const signature = request.signature || getHeader(request.headers, 'stripe-signature') || '';
+    const match = /(?:^|,)t=(\d+)/.exec(signature);
+    return match ? new Date(Number(match[1]) * 1000) : null;
+  }
+}
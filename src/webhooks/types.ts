@@ -0,0 +1,25 @@
+export interface WebhookEvent {
+  id?: string;
+  provider: string;
+  eventType: string;
+  payload: any;
+  receivedAt: string;
+}
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  provider: string;
+  error?: string;
+}
+
+export interface ProcessWebhookParams {
+  provider: string;
+  // Pass the raw request body (string or Buffer) so signatures verify byte for byte
+  payload: any;
+  signature?: string;
+  headers?: Record<string, string>;
+}
+
+export interface WebhookHandlerConfig {
+  stripeWebhookSecret?: string;
+}
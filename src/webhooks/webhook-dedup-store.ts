@@ -0,0 +1,74 @@
+import { Clock } from '../core/clock';
+import type { RedisCompatibleClient } from '../payments/idempotency-store';
+
+export interface WebhookDedupStore {
+  // Atomically records an event key; resolves false when the key was already recorded
+  claim(key: string, ttlMs: number): Promise<boolean>;
+  // Forgets a key so the provider's next delivery is processed again
+  release(key: string): Promise<void>;
+}
+
+export interface WebhookReplayOptions {
+  // Deliveries signed longer ago than this are rejected; 0 disables the check
+  toleranceMs?: number;
+  dedupStore?: WebhookDedupStore;
+  // Providers retry for days, so event ids are remembered for longer than that
+  dedupTtlMs?: number;
+  clock?: Clock;
+}
+
+export class InMemoryWebhookDedupStore implements WebhookDedupStore {
+  private keys: Map<string, number>;
+  private claims = 0;
+
+  constructor() {
+    this.keys = new Map();
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const expiresAt = this.keys.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.keys.set(key, now + ttlMs);
+
+    // Sweeping expired keys now and then keeps claims cheap
+    if (++this.claims % 1000 === 0) {
+      this.prune(now);
+    }
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    this.keys.delete(key);
+  }
+
+  private prune(now: number): void {
+    for (const [key, expiresAt] of this.keys) {
+      if (expiresAt <= now) {
+        this.keys.delete(key);
+      }
+    }
+  }
+}
+
+export class RedisWebhookDedupStore implements WebhookDedupStore {
+  private client: RedisCompatibleClient;
+  private prefix: string;
+
+  constructor(client: RedisCompatibleClient, prefix: string = 'checkout:webhook:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(this.prefix + key, new Date().toISOString(), 'PX', ttlMs, 'NX');
+    return result === 'OK';
+  }
+
+  async release(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
@@ -0,0 +1,77 @@
+import type { PaymentEventData } from '../payments/payment-events';
+import type { SubscriptionEventData } from '../subscriptions/subscription-events';
+import {
+  normalizePayPalPayment,
+  normalizePayPalSubscription,
+  normalizeStripePayment,
+  normalizeStripeSubscription
+} from './webhook-normalizers';
+
+// Provider event type -> internal event name, e.g. 'payment_intent.succeeded' -> 'payment:captured'
+export type ProviderEventMap = Record<string, string>;
+
+export interface WebhookNormalizers {
+  // Used for events mapped to payment:* names
+  payment?: (payload: any) => PaymentEventData;
+  // Used for events mapped to subscription:* names
+  subscription?: (payload: any) => SubscriptionEventData;
+}
+
+export interface WebhookEventMapOptions {
+  // Merged over the built-in mappings, per provider
+  eventMaps?: Record<string, ProviderEventMap>;
+  // Merged over the built-in normalizers, per provider
+  normalizers?: Record<string, WebhookNormalizers>;
+}
+
+const STRIPE_EVENTS: ProviderEventMap = {
+  'payment_intent.succeeded': 'payment:captured',
+  'payment_intent.payment_failed': 'payment:failed',
+  'charge.refunded': 'payment:refunded',
+  'customer.subscription.created': 'subscription:created',
+  'customer.subscription.updated': 'subscription:updated',
+  'customer.subscription.deleted': 'subscription:cancelled',
+  'invoice.payment_succeeded': 'subscription:invoice:paid',
+  'invoice.payment_failed': 'subscription:invoice:payment:failed',
+};
+
+export const DEFAULT_EVENT_MAPS: Record<string, ProviderEventMap> = {
+  stripe: STRIPE_EVENTS,
+  paypal: {
+    'PAYMENT.CAPTURE.COMPLETED': 'payment:captured',
+    'PAYMENT.CAPTURE.DENIED': 'payment:declined',
+    'PAYMENT.CAPTURE.REFUNDED': 'payment:refunded',
+    'BILLING.SUBSCRIPTION.ACTIVATED': 'subscription:activated',
+    'BILLING.SUBSCRIPTION.CANCELLED': 'subscription:cancelled',
+    'BILLING.SUBSCRIPTION.EXPIRED': 'subscription:expired',
+  },
+  // The mock provider emits Stripe-shaped events
+  mock: STRIPE_EVENTS,
+};
+
+export const DEFAULT_NORMALIZERS: Record<string, WebhookNormalizers> = {
+  stripe: {
+    payment: normalizeStripePayment,
+    subscription: normalizeStripeSubscription,
+  },
+  paypal: {
+    payment: normalizePayPalPayment,
+    subscription: normalizePayPalSubscription,
+  },
+  mock: {
+    payment: payload => ({ ...normalizeStripePayment(payload), provider: 'mock' }),
+    subscription: normalizeStripeSubscription,
+  },
+};
+
+// Overrides extend a provider's built-in entries rather than replacing them
+export function mergeByProvider<T extends object>(
+  defaults: Record<string, T>,
+  overrides: Record<string, T> = {}
+): Record<string, T> {
+  const merged: Record<string, T> = {};
+  for (const provider of new Set([...Object.keys(defaults), ...Object.keys(overrides)])) {
+    merged[provider] = { ...defaults[provider], ...overrides[provider] };
+  }
+  return merged;
+}
@@ -0,0 +1,24 @@
+export const WEBHOOK_EVENTS = {
+  // Delivery Events
+  RECEIVED: 'webhook:received',
+  PROCESSED: 'webhook:processed',
+  PROCESSING_FAILED: 'webhook:processing:failed',
+  VERIFICATION_FAILED: 'webhook:verification:failed',
+  DUPLICATE: 'webhook:duplicate',
+  EVENT: 'webhook:event',
+
+  // Inbox Events
+  STORED: 'webhook:stored',
+  HELD: 'webhook:held',
+  SKIPPED: 'webhook:skipped',
+  DEAD_LETTERED: 'webhook:dead_lettered',
+  REPLAYED: 'webhook:replayed',
+} as const;
+
+export interface WebhookEventData {
+  provider: string;
+  eventType: string;
+  payload?: any;
+  error?: string;
+  timestamp: string;
+}
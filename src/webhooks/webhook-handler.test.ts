@@ -0,0 +1,75 @@
+import { createHmac } from 'crypto';
+import { ManualClock } from '../core/clock';
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { WebhookHandler } from './webhook-handler';
+
+const SECRET = 'whsec_test';
+const eventEmitter = CheckoutEventEmitter.getInstance();
+
+function stripeDelivery(id: string, sentAt: Date) {
+  const payload = JSON.stringify({
+    id,
+    type: 'customer.created',
+    created: Math.floor(sentAt.getTime() / 1000),
+    data: { object: { id: 'cus_1', object: 'customer' } },
+  });
+  const timestamp = Math.floor(sentAt.getTime() / 1000);
+  const hmac = createHmac('sha256', SECRET).update(`${timestamp}.${payload}`).digest('hex');
+  return { provider: 'stripe', payload, signature: `t=${timestamp},v1=${hmac}` };
+}
+
+function record(event: string, eventId: string): { events: any[]; stop: () => void } {
+  const events: any[] = [];
+  const listener = (data: any) => {
+    if ((data.payload?.id ?? data.eventId) === eventId) {
+      events.push(data);
+    }
+  };
+  eventEmitter.on(event, listener);
+  return { events, stop: () => eventEmitter.off(event, listener) };
+}
+
+describe('WebhookHandler.processWebhook', () => {
+  const sentAt = new Date('2024-04-10T12:00:00Z');
+
+  it('rejects a delivery signed outside the tolerance window', async () => {
+    const clock = new ManualClock(new Date(sentAt.getTime() + 6 * 60 * 1000));
+    const handler = new WebhookHandler({ stripeWebhookSecret: SECRET, clock });
+    const received = record('webhook:received', 'evt_late');
+
+    await expect(handler.processWebhook(stripeDelivery('evt_late', sentAt)))
+      .rejects.toThrow('Webhook timestamp outside the tolerance window');
+    received.stop();
+
+    expect(received.events).toHaveLength(0);
+  });
+
+  it('routes a redelivered event id once', async () => {
+    const handler = new WebhookHandler({ stripeWebhookSecret: SECRET, clock: new ManualClock(sentAt) });
+    const processed = record('webhook:processed', 'evt_twice');
+    const duplicates = record('webhook:duplicate', 'evt_twice');
+
+    await handler.processWebhook(stripeDelivery('evt_twice', sentAt));
+    await handler.processWebhook(stripeDelivery('evt_twice', sentAt));
+    processed.stop();
+    duplicates.stop();
+
+    expect(processed.events).toHaveLength(1);
+    expect(duplicates.events).toHaveLength(1);
+  });
+
+  it('lets the next delivery through when processing fails', async () => {
+    const handler = new WebhookHandler({ stripeWebhookSecret: SECRET, clock: new ManualClock(sentAt) });
+    const processed = record('webhook:processed', 'evt_retry');
+    const failing = () => {
+      throw new Error('listener unavailable');
+    };
+    eventEmitter.once('webhook:stripe:customer.created', failing);
+
+    await expect(handler.processWebhook(stripeDelivery('evt_retry', sentAt))).rejects.toThrow('listener unavailable');
+    await handler.processWebhook(stripeDelivery('evt_retry', sentAt));
+    processed.stop();
+
+    expect(processed.events).toHaveLength(1);
+  });
+});
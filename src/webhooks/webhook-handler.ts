@@ -5,26 +5,80 @@ import {
   ProcessWebhookParams,
   WebhookHandlerConfig
 } from './types';
-import { validateWebhookSignature } from '../utils/validation';
+import { WebhookVerifier, WebhookVerifierOptions } from './webhook-verifier';
+import { StripeWebhookVerifier } from './stripe-webhook-verifier';
+import { PayPalWebhookVerifier } from './paypal-webhook-verifier';
+import { InMemoryWebhookDedupStore, WebhookDedupStore, WebhookReplayOptions } from './webhook-dedup-store';
+import { WebhookInboxOptions } from './webhook-inbox';
+import {
+  DEFAULT_EVENT_MAPS,
+  DEFAULT_NORMALIZERS,
+  ProviderEventMap,
+  WebhookEventMapOptions,
+  WebhookNormalizers,
+  mergeByProvider
+} from './webhook-event-map';
+import { paymentEventKey } from '../payments/payment-events';
+import { Clock, systemClock } from '../core/clock';
 import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+export type WebhookHandlerOptions = WebhookHandlerConfig
+  & WebhookVerifierOptions
+  & WebhookReplayOptions
+  & WebhookInboxOptions
+  & WebhookEventMapOptions;
+
+export interface WebhookDispatchOptions {
+  // Inbox replays and retries deliver again events that were already emitted
+  redelivery?: boolean;
+}
 
 export class WebhookHandler {
   private eventEmitter: CheckoutEventEmitter;
-  private config: WebhookHandlerConfig;
+  private config: WebhookHandlerOptions;
+  private verifiers: Map<string, WebhookVerifier>;
+  private eventMaps: Record<string, ProviderEventMap>;
+  private normalizers: Record<string, WebhookNormalizers>;
+  private dedupStore: WebhookDedupStore;
+  private toleranceMs: number;
+  private dedupTtlMs: number;
+  private clock: Clock;
 
-  constructor(config: WebhookHandlerConfig) {
+  constructor(config: WebhookHandlerOptions) {
     this.eventEmitter = CheckoutEventEmitter.getInstance();
     this.config = config;
+    this.dedupStore = config.dedupStore || new InMemoryWebhookDedupStore();
+    this.toleranceMs = config.toleranceMs ?? 5 * 60 * 1000;
+    this.dedupTtlMs = config.dedupTtlMs || 7 * 24 * 60 * 60 * 1000;
+    this.clock = config.clock || systemClock;
+    this.verifiers = new Map<string, WebhookVerifier>([
+      ['stripe', new StripeWebhookVerifier(config.stripeWebhookSecret)],
+      ['paypal', new PayPalWebhookVerifier(config.paypal)],
+      ...Object.entries<WebhookVerifier>(config.verifiers || {}),
+    ]);
+    this.eventMaps = mergeByProvider<ProviderEventMap>(DEFAULT_EVENT_MAPS, config.eventMaps);
+    this.normalizers = mergeByProvider<WebhookNormalizers>(DEFAULT_NORMALIZERS, config.normalizers);
+  }
+
+  registerVerifier(provider: string, verifier: WebhookVerifier): void {
+    this.verifiers.set(provider, verifier);
+    logger.info(`Webhook verifier registered for ${provider}`);
+  }
+
+  unregisterVerifier(provider: string): void {
+    this.verifiers.delete(provider);
   }
 
   async processWebhook(params: ProcessWebhookParams): Promise<void> {
+    let dedupKey: string | null = null;
     try {
-      const { provider, payload, signature, headers } = params;
+      const { provider, signature, headers } = params;
 
       // Verify webhook signature
       const verification = await this.verifyWebhook({
         provider,
-        payload,
+        payload: params.payload,
         signature,
         headers,
       });
@@ -38,9 +92,31 @@ export class WebhookHandler {
         throw new Error(`Webhook verification failed: ${verification.error}`);
       }
 
+      // Raw bodies are parsed only after their signature checked out
+      const payload = typeof params.payload === 'string' || Buffer.isBuffer(params.payload)
+        ? JSON.parse(params.payload.toString())
+        : params.payload;
+
       // Determine event type from provider-specific payload
       const eventType = this.mapProviderEvent(provider, payload);
 
+      // Providers deliver at least once; a repeated event id is acknowledged but not routed again
+      const eventId = this.getProviderEventId(provider, payload);
+      if (eventId) {
+        const key = `${provider}:${eventId}`;
+        if (!(await this.dedupStore.claim(key, this.dedupTtlMs))) {
+          this.eventEmitter.emitEvent('webhook:duplicate', {
+            provider,
+            eventId,
+            eventType,
+            timestamp: new Date().toISOString(),
+          });
+          logger.info(`Duplicate webhook ignored: ${eventType} ${eventId} from ${provider}`);
+          return;
+        }
+        dedupKey = key;
+      }
+
       // Emit raw webhook received event
       this.eventEmitter.emitEvent('webhook:received', {
         provider,
@@ -50,23 +126,32 @@ export class WebhookHandler {
         timestamp: new Date().toISOString(),
       });
 
-      // Process based on event type
-      await this.routeWebhookEvent(provider, eventType, payload);
-
-      // Emit webhook processed event
-      this.eventEmitter.emitEvent('webhook:processed', {
-        provider,
-        eventType,
-        payload,
-        timestamp: new Date().toISOString(),
-      });
+      // Stored events are acknowledged now and routed by the inbox worker
+      if (this.config.inbox) {
+        await this.config.inbox.store({
+          provider,
+          eventId,
+          eventType,
+          objectId: this.getProviderObjectId(provider, payload),
+          eventCreatedAt: this.getProviderEventTime(provider, payload),
+          payload,
+        });
+        return;
+      }
 
-      logger.info(`Webhook processed: ${eventType} from ${provider}`);
+      await this.dispatchEvent(provider, eventType, payload);
 
     } catch (error) {
+      // Let the provider's next delivery of a failed event through
+      if (dedupKey) {
+        await this.dedupStore.release(dedupKey).catch(releaseError => {
+          logger.error(`Could not release webhook ${dedupKey}: ${releaseError.message}`);
+        });
+      }
+
       this.eventEmitter.emitEvent('webhook:processing:failed', {
         provider: params.provider,
-        error: error.message,
+        error: errorMessage(error),
         payload: params.payload,
         timestamp: new Date().toISOString(),
       });
@@ -76,6 +161,26 @@ export class WebhookHandler {
     }
   }
 
+  async dispatchEvent(
+    provider: string,
+    eventType: string,
+    payload: any,
+    options: WebhookDispatchOptions = {}
+  ): Promise<void> {
+    // Process based on event type
+    await this.routeWebhookEvent(provider, eventType, payload, options);
+
+    // Emit webhook processed event
+    this.eventEmitter.emitEvent('webhook:processed', {
+      provider,
+      eventType,
+      payload,
+      timestamp: new Date().toISOString(),
+    });
+
+    logger.info(`Webhook processed: ${eventType} from ${provider}`);
+  }
+
   private async verifyWebhook(params: {
     provider: string;
     payload: any;
@@ -85,27 +190,37 @@ export class WebhookHandler {
     try {
       const { provider, payload, signature, headers } = params;
 
-      switch (provider) {
-        case 'stripe':
-          return await validateWebhookSignature(
-            payload,
-            signature || '',
-            this.config.stripeWebhookSecret
-          );
-        
-        case 'paypal':
-          // PayPal verification logic
-          return { valid: true, provider };
-        
-        default:
-          // For providers without signature verification
-          return { valid: true, provider };
+      const verifier = this.verifiers.get(provider);
+      if (!verifier) {
+        // Providers must register a verifier before their webhooks are trusted
+        return this.config.allowUnverifiedProviders
+          ? { valid: true, provider }
+          : { valid: false, provider, error: `No webhook verifier registered for provider: ${provider}` };
+      }
+
+      const request = {
+        provider,
+        // Parsed payloads are re-serialized, which only verifies if the provider sent compact JSON
+        rawBody: typeof payload === 'string' || Buffer.isBuffer(payload) ? payload : JSON.stringify(payload),
+        signature,
+        headers: headers || {},
+      };
+      const result = await verifier.verify(request);
+      if (!result.valid || !this.toleranceMs || !verifier.getTimestamp) {
+        return result;
+      }
+
+      // A valid signature on an old delivery is a replay; future timestamps allow for clock skew only
+      const sentAt = verifier.getTimestamp(request);
+      if (!sentAt || Math.abs(this.clock.now().getTime() - sentAt.getTime()) > this.toleranceMs) {
+        return { valid: false, provider, error: 'Webhook timestamp outside the tolerance window' };
       }
+      return result;
     } catch (error) {
       return {
         valid: false,
         provider: params.provider,
-        error: error.message,
+        error: errorMessage(error),
       };
     }
   }
@@ -123,50 +238,82 @@ export class WebhookHandler {
     }
   }
 
-  private async routeWebhookEvent(provider: string, eventType: string, payload: any): Promise<void> {
+  private getProviderEventId(provider: string, payload: any): string | undefined {
+    switch (provider) {
+      case 'stripe':
+      case 'paypal':
+        return payload.id;
+
+      default:
+        return payload.id || payload.event_id;
+    }
+  }
+
+  private getProviderObjectId(provider: string, payload: any): string | undefined {
+    switch (provider) {
+      case 'paypal':
+        return payload.resource?.id;
+
+      default:
+        return payload.data?.object?.id;
+    }
+  }
+
+  private getProviderEventTime(provider: string, payload: any): string | undefined {
+    const createdAt = provider === 'paypal'
+      ? payload.create_time && new Date(payload.create_time)
+      : typeof payload.created === 'number' && new Date(payload.created * 1000);
+    return createdAt && !isNaN(createdAt.getTime()) ? createdAt.toISOString() : undefined;
+  }
+
+  private async routeWebhookEvent(
+    provider: string,
+    eventType: string,
+    payload: any,
+    options: WebhookDispatchOptions
+  ): Promise<void> {
     // Map provider events to internal events
-    const eventMap = this.getEventMap(provider);
+    const eventMap = this.eventMaps[provider] || {};
     const internalEvent = eventMap[eventType] || `webhook:${provider}:${eventType}`;
+    const data = this.normalizePayload(provider, internalEvent, payload);
 
-    // Emit provider-specific event
-    this.eventEmitter.emitEvent(internalEvent, {
+    // Emit provider-specific event; listeners get the same fields whichever provider sent it.
+    // Captures and refunds PaymentService already reported are not emitted again, unless this is a redelivery.
+    const key = data && !options.redelivery ? paymentEventKey(internalEvent, data) : null;
+    await this.eventEmitter.emitEventOnce(internalEvent, key, {
+      ...data,
       provider,
       originalEvent: eventType,
       payload,
-      timestamp: new Date().toISOString(),
+      timestamp: data?.timestamp || new Date().toISOString(),
     });
 
     // Also emit generic webhook event for general handlers
     this.eventEmitter.emitEvent('webhook:event', {
       provider,
       eventType,
+      internalEvent,
+      data,
       payload,
       timestamp: new Date().toISOString(),
     });
   }
 
-  private getEventMap(provider: string): Record<string, string> {
-    const maps: Record<string, Record<string, string>> = {
-      stripe: {
-        'payment_intent.succeeded': 'payment:captured',
-        'payment_intent.payment_failed': 'payment:failed',
-        'charge.refunded': 'payment:refunded',
-        'customer.subscription.created': 'subscription:created',
-        'customer.subscription.updated': 'subscription:updated',
-        'customer.subscription.deleted': 'subscription:cancelled',
-        'invoice.payment_succeeded': 'subscription:invoice:paid',
-        'invoice.payment_failed': 'subscription:invoice:payment:failed',
-      },
-      paypal: {
-        'PAYMENT.CAPTURE.COMPLETED': 'payment:captured',
-        'PAYMENT.CAPTURE.DENIED': 'payment:declined',
-        'PAYMENT.CAPTURE.REFUNDED': 'payment:refunded',
-        'BILLING.SUBSCRIPTION.ACTIVATED': 'subscription:activated',
-        'BILLING.SUBSCRIPTION.CANCELLED': 'subscription:cancelled',
-        'BILLING.SUBSCRIPTION.EXPIRED': 'subscription:expired',
-      },
-    };
-
-    return maps[provider] || {};
+  private normalizePayload(provider: string, internalEvent: string, payload: any): Record<string, any> | undefined {
+    const normalizers = this.normalizers[provider] || {};
+    const normalize = internalEvent.startsWith('payment:')
+      ? normalizers.payment
+      : internalEvent.startsWith('subscription:') ? normalizers.subscription : undefined;
+    if (!normalize) {
+      return undefined;
+    }
+
+    // A payload the normalizer cannot read is still routed, with the raw payload only
+    try {
+      return normalize(payload);
+    } catch (error) {
+      logger.warn(`Could not normalize ${internalEvent} from ${provider}: ${errorMessage(error)}`);
+      return undefined;
+    }
   }
-            }
+}
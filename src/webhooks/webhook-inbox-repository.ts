@@ -0,0 +1,70 @@
+import { JsonFileStore } from '../core/json-file-store';
+import { InboxEntry, InboxFilter, WebhookInboxRepository } from './webhook-inbox-types';
+
+export class InMemoryWebhookInboxRepository implements WebhookInboxRepository {
+  private entries: Map<string, InboxEntry>;
+
+  constructor() {
+    this.entries = new Map();
+  }
+
+  async get(id: string): Promise<InboxEntry | null> {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async save(entry: InboxEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async list(filter: InboxFilter = {}): Promise<InboxEntry[]> {
+    return sortByEventTime(Array.from(this.entries.values()).filter(entry => matchesFilter(entry, filter)))
+      .map(entry => ({ ...entry }));
+  }
+}
+
+export class FileWebhookInboxRepository implements WebhookInboxRepository {
+  private store: JsonFileStore<InboxEntry>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(id: string): Promise<InboxEntry | null> {
+    return this.store.get(id);
+  }
+
+  async save(entry: InboxEntry): Promise<void> {
+    await this.store.put(entry);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  async list(filter: InboxFilter = {}): Promise<InboxEntry[]> {
+    return sortByEventTime((await this.store.values()).filter(entry => matchesFilter(entry, filter)));
+  }
+}
+
+export function matchesFilter(entry: InboxEntry, filter: InboxFilter): boolean {
+  const statuses = filter.status === undefined ? undefined : ([] as string[]).concat(filter.status);
+  const receivedAt = new Date(entry.receivedAt).getTime();
+
+  return (!statuses || statuses.includes(entry.status))
+    && (!filter.provider || entry.provider === filter.provider)
+    && (!filter.eventType || entry.eventType === filter.eventType)
+    && (!filter.objectId || entry.objectId === filter.objectId)
+    && (!filter.from || receivedAt >= filter.from.getTime())
+    && (!filter.to || receivedAt <= filter.to.getTime());
+}
+
+function sortByEventTime(entries: InboxEntry[]): InboxEntry[] {
+  return entries.sort((a, b) =>
+    a.eventCreatedAt.localeCompare(b.eventCreatedAt) || a.receivedAt.localeCompare(b.receivedAt)
+  );
+}
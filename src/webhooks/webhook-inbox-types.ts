@@ -0,0 +1,70 @@
+import { Clock } from '../core/clock';
+import type { RetryConfig } from '../retry/types';
+
+export type InboxEntryStatus = 'pending' | 'held' | 'processed' | 'skipped' | 'dead_lettered';
+
+export interface InboxEntry {
+  // `${provider}:${eventId}` when the provider sends an event id
+  id: string;
+  provider: string;
+  eventId?: string;
+  eventType: string;
+  // The provider object the event is about; events for one object are processed in order
+  objectId?: string;
+  payload: any;
+  status: InboxEntryStatus;
+  attempts: number;
+  lastError?: string;
+  // When the provider created the event; falls back to receivedAt
+  eventCreatedAt: string;
+  receivedAt: string;
+  nextAttemptAt: string;
+  heldSince?: string;
+  processedAt?: string;
+  replayedAt?: string;
+  deadLetteredAt?: string;
+}
+
+export interface StoreInboxEntryParams {
+  provider: string;
+  eventId?: string;
+  eventType: string;
+  objectId?: string;
+  eventCreatedAt?: string;
+  payload: any;
+}
+
+export interface InboxFilter {
+  status?: InboxEntryStatus | InboxEntryStatus[];
+  provider?: string;
+  eventType?: string;
+  objectId?: string;
+  // Range on receivedAt, inclusive
+  from?: Date;
+  to?: Date;
+}
+
+export interface WebhookInboxRepository {
+  get(id: string): Promise<InboxEntry | null>;
+  save(entry: InboxEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(filter?: InboxFilter): Promise<InboxEntry[]>;
+}
+
+export interface WebhookInboxConfig {
+  repository: WebhookInboxRepository;
+  deadLetterRepository: WebhookInboxRepository;
+  // Failed attempts before an entry moves to the dead-letter store
+  maxAttempts: number;
+  retryConfig?: Partial<RetryConfig>;
+  clock: Clock;
+}
+
+export interface WebhookInboxWorkerConfig {
+  intervalMs: number;
+  // Event families whose updates wait for the object's ".created" event, e.g. 'customer.subscription'
+  holdUntilCreated: string[];
+  // How long an update waits for its created event before it is processed anyway
+  holdMs: number;
+  clock: Clock;
+}
@@ -0,0 +1,150 @@
+import { ManualClock } from '../core/clock';
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { WebhookHandler } from './webhook-handler';
+import { WebhookInbox } from './webhook-inbox';
+import { WebhookInboxWorker } from './webhook-inbox-worker';
+
+const HOUR_MS = 60 * 60 * 1000;
+const eventEmitter = CheckoutEventEmitter.getInstance();
+
+function inboxWorker(maxAttempts: number = 5) {
+  const clock = new ManualClock(new Date('2024-04-10T12:00:00Z'));
+  const inbox = new WebhookInbox({ clock, maxAttempts });
+  const worker = new WebhookInboxWorker(inbox, new WebhookHandler({}), { clock, holdMs: HOUR_MS });
+
+  // Stores a Stripe event as WebhookHandler.processWebhook would, `minutesAgo` after the provider created it
+  const store = (id: string, type: string, objectId: string, minutesAgo: number, object: any = {}) =>
+    inbox.store({
+      provider: 'stripe',
+      eventId: id,
+      eventType: type,
+      objectId,
+      eventCreatedAt: new Date(clock.now().getTime() - minutesAgo * 60 * 1000).toISOString(),
+      payload: { id, type, data: { object: { id: objectId, ...object } } },
+    });
+
+  return { clock, inbox, worker, store };
+}
+
+// Event ids of routed webhooks, in the order the worker dispatched them
+function recordProcessed(): { ids: string[]; stop: () => void } {
+  const ids: string[] = [];
+  const listener = (data: any) => ids.push(data.payload.id);
+  eventEmitter.on('webhook:processed', listener);
+  return { ids, stop: () => eventEmitter.off('webhook:processed', listener) };
+}
+
+// Makes every delivery of one event type fail until the returned function is called
+function failEvents(eventType: string): () => void {
+  const listener = () => {
+    throw new Error(`${eventType} handler unavailable`);
+  };
+  eventEmitter.on(`webhook:stripe:${eventType}`, listener);
+  return () => eventEmitter.off(`webhook:stripe:${eventType}`, listener);
+}
+
+describe('WebhookInboxWorker', () => {
+  it('processes one object in provider order and waits for a failed earlier event', async () => {
+    const { clock, inbox, worker, store } = inboxWorker();
+    const processed = recordProcessed();
+    const recover = failEvents('invoice.finalized');
+    await store('evt_paid', 'invoice.paid', 'in_1', 1);
+    await store('evt_finalized', 'invoice.finalized', 'in_1', 2);
+    await store('evt_other', 'invoice.paid', 'in_2', 1);
+
+    await worker.runOnce();
+    expect(processed.ids).toEqual(['evt_other']);
+    expect(await inbox.get('stripe:evt_paid')).toMatchObject({ status: 'pending', attempts: 0 });
+
+    recover();
+    clock.advance(HOUR_MS);
+    await worker.runOnce();
+    processed.stop();
+
+    expect(processed.ids).toEqual(['evt_other', 'evt_finalized', 'evt_paid']);
+  });
+
+  it('holds updates until the created event arrives', async () => {
+    const { clock, inbox, worker, store } = inboxWorker();
+    const processed = recordProcessed();
+    await store('evt_updated', 'customer.subscription.updated', 'sub_1', 1);
+
+    await worker.runOnce();
+    expect(await inbox.get('stripe:evt_updated')).toMatchObject({ status: 'held' });
+
+    await store('evt_created', 'customer.subscription.created', 'sub_1', 2);
+    clock.advance(HOUR_MS / 2);
+    await worker.runOnce();
+    processed.stop();
+
+    expect(processed.ids).toEqual(['evt_created', 'evt_updated']);
+  });
+
+  it('processes a held update anyway once holdMs has passed', async () => {
+    const { clock, inbox, worker, store } = inboxWorker();
+    await store('evt_orphan', 'customer.subscription.updated', 'sub_2', 1);
+
+    await worker.runOnce();
+    clock.advance(HOUR_MS);
+    await worker.runOnce();
+
+    expect(await inbox.get('stripe:evt_orphan')).toMatchObject({ status: 'processed' });
+  });
+
+  it('skips an update older than one already applied', async () => {
+    const { inbox, worker, store } = inboxWorker();
+    await store('evt_created', 'customer.subscription.created', 'sub_3', 10);
+    await store('evt_newer', 'customer.subscription.updated', 'sub_3', 1);
+    await worker.runOnce();
+
+    await store('evt_older', 'customer.subscription.updated', 'sub_3', 5);
+    await worker.runOnce();
+
+    expect(await inbox.get('stripe:evt_older')).toMatchObject({
+      status: 'skipped',
+      lastError: 'Superseded by customer.subscription.updated stripe:evt_newer',
+    });
+  });
+
+  it('dead-letters an event after maxAttempts and replays it on request', async () => {
+    const { clock, inbox, worker, store } = inboxWorker(2);
+    const recover = failEvents('charge.dispute.created');
+    await store('evt_dispute', 'charge.dispute.created', 'dp_1', 1);
+
+    await worker.runOnce();
+    clock.advance(HOUR_MS);
+    await worker.runOnce();
+
+    expect(await inbox.listDeadLetters()).toEqual([
+      expect.objectContaining({ id: 'stripe:evt_dispute', attempts: 2, lastError: 'charge.dispute.created handler unavailable' }),
+    ]);
+
+    recover();
+    await inbox.replay('stripe:evt_dispute');
+    await worker.runOnce();
+
+    expect(await inbox.listDeadLetters()).toEqual([]);
+    expect(await inbox.get('stripe:evt_dispute')).toMatchObject({ status: 'processed' });
+  });
+
+  it('emits a replayed capture again even though it was already reported', async () => {
+    const { inbox, worker, store } = inboxWorker();
+    const captured: any[] = [];
+    const listener = (data: any) => captured.push(data);
+    eventEmitter.on('payment:captured', listener);
+    await store('evt_captured', 'payment_intent.succeeded', 'pi_replay', 1, {
+      object: 'payment_intent',
+      status: 'succeeded',
+      amount: 1000,
+      currency: 'usd',
+      latest_charge: 'ch_replay',
+    });
+
+    await worker.runOnce();
+    await inbox.replay('stripe:evt_captured');
+    await worker.runOnce();
+    eventEmitter.off('payment:captured', listener);
+
+    expect(captured.map(data => data.chargeId)).toEqual(['ch_replay', 'ch_replay']);
+  });
+});
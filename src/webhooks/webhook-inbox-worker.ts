@@ -0,0 +1,133 @@
+import { WebhookInbox } from './webhook-inbox';
+import { WebhookHandler } from './webhook-handler';
+import { InboxEntry, WebhookInboxWorkerConfig } from './webhook-inbox-types';
+import { systemClock } from '../core/clock';
+import { logger } from '../utils/logger';
+
+export class WebhookInboxWorker {
+  private inbox: WebhookInbox;
+  private handler: WebhookHandler;
+  private config: WebhookInboxWorkerConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(inbox: WebhookInbox, handler: WebhookHandler, config?: Partial<WebhookInboxWorkerConfig>) {
+    this.inbox = inbox;
+    this.handler = handler;
+    this.config = {
+      intervalMs: config?.intervalMs || 1000,
+      holdUntilCreated: config?.holdUntilCreated || ['customer.subscription', 'BILLING.SUBSCRIPTION'],
+      holdMs: config?.holdMs ?? 5 * 60 * 1000,
+      clock: config?.clock || systemClock,
+    };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error(`Webhook inbox run failed: ${error.message}`);
+      });
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now: Date = this.config.clock.now()): Promise<void> {
+    // Overlapping ticks would process the same entries twice
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const due = await this.inbox.listDue(now);
+
+      // Events about one object run in provider order; different objects do not wait on each other
+      const byObject = new Map<string, InboxEntry[]>();
+      for (const entry of due) {
+        const key = entry.objectId ? `${entry.provider}:${entry.objectId}` : entry.id;
+        byObject.set(key, [...(byObject.get(key) || []), entry]);
+      }
+
+      for (const entries of byObject.values()) {
+        await this.processObject(entries, now);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processObject(entries: InboxEntry[], now: Date): Promise<void> {
+    const first = entries[0];
+    const history = first.objectId
+      ? await this.inbox.list({ provider: first.provider, objectId: first.objectId })
+      : [];
+
+    for (const entry of entries) {
+      // An earlier event that is not due yet (backing off, or held) blocks everything after it
+      const blocked = history.some(other =>
+        (other.status === 'pending' || other.status === 'held')
+        && other.eventCreatedAt < entry.eventCreatedAt
+        && !entries.includes(other)
+      );
+      if (blocked) {
+        return;
+      }
+
+      // Replays are operator decisions and skip the ordering checks
+      if (!entry.replayedAt) {
+        if (this.awaitsCreated(entry, history) && !this.holdExpired(entry, now)) {
+          await this.inbox.markHeld(entry, new Date(now.getTime() + this.config.intervalMs));
+          return;
+        }
+
+        // Provider payloads are full snapshots; applying an older one after a newer one would roll state back
+        const newer = history.find(other =>
+          other.status === 'processed' && other.eventCreatedAt > entry.eventCreatedAt
+        );
+        if (newer && /\.updated$/i.test(entry.eventType)) {
+          await this.inbox.markSkipped(entry, `Superseded by ${newer.eventType} ${newer.id}`);
+          continue;
+        }
+      }
+
+      try {
+        await this.handler.dispatchEvent(entry.provider, entry.eventType, entry.payload, {
+          redelivery: !!entry.replayedAt || entry.attempts > 0,
+        });
+        const processed = await this.inbox.markProcessed(entry);
+        const index = history.findIndex(other => other.id === entry.id);
+        if (index >= 0) {
+          history[index] = processed;
+        }
+      } catch (error) {
+        await this.inbox.markFailed(entry, error);
+        return;
+      }
+    }
+  }
+
+  private awaitsCreated(entry: InboxEntry, history: InboxEntry[]): boolean {
+    const family = this.config.holdUntilCreated.find(prefix => entry.eventType.startsWith(`${prefix}.`));
+    if (!family || !entry.objectId || /\.created$/i.test(entry.eventType)) {
+      return false;
+    }
+
+    return !history.some(other => other.status === 'processed' && /\.created$/i.test(other.eventType));
+  }
+
+  private holdExpired(entry: InboxEntry, now: Date): boolean {
+    const heldSince = entry.heldSince ? new Date(entry.heldSince).getTime() : now.getTime();
+    return now.getTime() - heldSince >= this.config.holdMs;
+  }
+}
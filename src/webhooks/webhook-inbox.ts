@@ -0,0 +1,247 @@
+import { CheckoutEventEmitter } from '../core/event-emitter';
+import { systemClock } from '../core/clock';
+import { RetryService } from '../retry/retry-service';
+import {
+  InboxEntry,
+  InboxFilter,
+  StoreInboxEntryParams,
+  WebhookInboxConfig
+} from './webhook-inbox-types';
+import { InMemoryWebhookInboxRepository } from './webhook-inbox-repository';
+import { InboxEntryNotFoundError } from './errors';
+import { logger } from '../utils/logger';
+import { errorMessage } from '../core/errors';
+
+export interface WebhookInboxOptions {
+  // When set, verified events are stored and acknowledged; a WebhookInboxWorker routes them later
+  inbox?: WebhookInbox;
+}
+
+export class WebhookInbox {
+  private eventEmitter: CheckoutEventEmitter;
+  private config: WebhookInboxConfig;
+  private retryService: RetryService;
+
+  constructor(config?: Partial<WebhookInboxConfig>) {
+    this.eventEmitter = CheckoutEventEmitter.getInstance();
+    this.config = {
+      repository: config?.repository || new InMemoryWebhookInboxRepository(),
+      deadLetterRepository: config?.deadLetterRepository || new InMemoryWebhookInboxRepository(),
+      maxAttempts: config?.maxAttempts || 5,
+      retryConfig: config?.retryConfig,
+      clock: config?.clock || systemClock,
+    };
+    this.retryService = new RetryService({ initialDelay: 30000, maxDelay: 60 * 60 * 1000, ...config?.retryConfig });
+  }
+
+  async store(params: StoreInboxEntryParams): Promise<InboxEntry> {
+    const id = params.eventId
+      ? `${params.provider}:${params.eventId}`
+      : `${params.provider}:evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // A redelivery of an event already in the inbox keeps the stored entry and its progress
+    const existing = await this.config.repository.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const now = this.config.clock.now().toISOString();
+    const entry: InboxEntry = {
+      id,
+      provider: params.provider,
+      eventId: params.eventId,
+      eventType: params.eventType,
+      objectId: params.objectId,
+      payload: params.payload,
+      status: 'pending',
+      attempts: 0,
+      eventCreatedAt: params.eventCreatedAt || now,
+      receivedAt: now,
+      nextAttemptAt: now,
+    };
+    await this.config.repository.save(entry);
+
+    // Emit webhook stored event
+    this.eventEmitter.emitEvent('webhook:stored', {
+      entryId: entry.id,
+      provider: entry.provider,
+      eventType: entry.eventType,
+      objectId: entry.objectId,
+      timestamp: now,
+    });
+
+    return entry;
+  }
+
+  async get(id: string): Promise<InboxEntry | null> {
+    return (await this.config.repository.get(id)) || this.config.deadLetterRepository.get(id);
+  }
+
+  async list(filter: InboxFilter = {}): Promise<InboxEntry[]> {
+    return this.config.repository.list(filter);
+  }
+
+  async listDeadLetters(filter: InboxFilter = {}): Promise<InboxEntry[]> {
+    return this.config.deadLetterRepository.list(filter);
+  }
+
+  async listDue(now: Date = this.config.clock.now()): Promise<InboxEntry[]> {
+    const open = await this.config.repository.list({ status: ['pending', 'held'] });
+    return open.filter(entry => new Date(entry.nextAttemptAt).getTime() <= now.getTime());
+  }
+
+  async markProcessed(entry: InboxEntry): Promise<InboxEntry> {
+    const processed: InboxEntry = {
+      ...entry,
+      status: 'processed',
+      attempts: entry.attempts + 1,
+      lastError: undefined,
+      heldSince: undefined,
+      processedAt: this.config.clock.now().toISOString(),
+    };
+    await this.config.repository.save(processed);
+    return processed;
+  }
+
+  async markSkipped(entry: InboxEntry, reason: string): Promise<InboxEntry> {
+    const skipped: InboxEntry = {
+      ...entry,
+      status: 'skipped',
+      lastError: reason,
+      heldSince: undefined,
+      processedAt: this.config.clock.now().toISOString(),
+    };
+    await this.config.repository.save(skipped);
+
+    // Emit webhook skipped event
+    this.eventEmitter.emitEvent('webhook:skipped', {
+      entryId: entry.id,
+      provider: entry.provider,
+      eventType: entry.eventType,
+      objectId: entry.objectId,
+      reason,
+      timestamp: skipped.processedAt,
+    });
+
+    return skipped;
+  }
+
+  async markHeld(entry: InboxEntry, retryAt: Date): Promise<InboxEntry> {
+    const now = this.config.clock.now().toISOString();
+    const held: InboxEntry = {
+      ...entry,
+      status: 'held',
+      heldSince: entry.heldSince || now,
+      nextAttemptAt: retryAt.toISOString(),
+    };
+    await this.config.repository.save(held);
+
+    if (!entry.heldSince) {
+      // Emit webhook held event
+      this.eventEmitter.emitEvent('webhook:held', {
+        entryId: entry.id,
+        provider: entry.provider,
+        eventType: entry.eventType,
+        objectId: entry.objectId,
+        timestamp: now,
+      });
+    }
+
+    return held;
+  }
+
+  async markFailed(entry: InboxEntry, error: unknown): Promise<InboxEntry> {
+    const now = this.config.clock.now();
+    const attempts = entry.attempts + 1;
+    const message = errorMessage(error);
+
+    if (attempts >= this.config.maxAttempts) {
+      const dead: InboxEntry = {
+        ...entry,
+        status: 'dead_lettered',
+        attempts,
+        lastError: message,
+        deadLetteredAt: now.toISOString(),
+      };
+
+      // Save to the dead-letter store first so a crash in between cannot lose the event
+      await this.config.deadLetterRepository.save(dead);
+      await this.config.repository.delete(entry.id);
+
+      // Emit webhook dead lettered event
+      this.eventEmitter.emitEvent('webhook:dead_lettered', {
+        entryId: dead.id,
+        provider: dead.provider,
+        eventType: dead.eventType,
+        objectId: dead.objectId,
+        attempts,
+        error: message,
+        timestamp: dead.deadLetteredAt,
+      });
+
+      logger.error(`Webhook ${dead.id} moved to dead letters after ${attempts} attempts: ${message}`);
+      return dead;
+    }
+
+    const retrying: InboxEntry = {
+      ...entry,
+      status: 'pending',
+      attempts,
+      lastError: message,
+      nextAttemptAt: new Date(now.getTime() + this.retryService.calculateDelay(attempts)).toISOString(),
+    };
+    await this.config.repository.save(retrying);
+
+    logger.warn(`Webhook ${entry.id} failed (attempt ${attempts}), retrying at ${retrying.nextAttemptAt}`);
+    return retrying;
+  }
+
+  async replay(id: string): Promise<InboxEntry> {
+    const entry = await this.get(id);
+    if (!entry) {
+      throw new InboxEntryNotFoundError(id);
+    }
+
+    const now = this.config.clock.now().toISOString();
+    const replayed: InboxEntry = {
+      ...entry,
+      status: 'pending',
+      attempts: 0,
+      lastError: undefined,
+      heldSince: undefined,
+      processedAt: undefined,
+      deadLetteredAt: undefined,
+      nextAttemptAt: now,
+      replayedAt: now,
+    };
+    await this.config.repository.save(replayed);
+    if (entry.status === 'dead_lettered') {
+      await this.config.deadLetterRepository.delete(entry.id);
+    }
+
+    // Emit webhook replayed event
+    this.eventEmitter.emitEvent('webhook:replayed', {
+      entryId: replayed.id,
+      provider: replayed.provider,
+      eventType: replayed.eventType,
+      previousStatus: entry.status,
+      timestamp: now,
+    });
+
+    logger.info(`Webhook ${replayed.id} queued for replay`);
+    return replayed;
+  }
+
+  async replayRange(filter: InboxFilter): Promise<InboxEntry[]> {
+    const entries = [
+      ...(await this.config.repository.list(filter)),
+      ...(await this.config.deadLetterRepository.list(filter)),
+    ];
+
+    const replayed: InboxEntry[] = [];
+    for (const entry of entries) {
+      replayed.push(await this.replay(entry.id));
+    }
+    return replayed;
+  }
+}
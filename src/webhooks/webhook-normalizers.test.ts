@@ -0,0 +1,73 @@
+import { normalizePayPalPayment, normalizeStripePayment } from './webhook-normalizers';
+
+function stripeRefundedCharge(refunds: any[] | undefined, previousAmountRefunded?: number) {
+  return {
+    type: 'charge.refunded',
+    created: 1714521600,
+    data: {
+      object: {
+        id: 'ch_1',
+        object: 'charge',
+        payment_intent: 'pi_1',
+        status: 'succeeded',
+        amount: 2000,
+        amount_refunded: 800,
+        currency: 'usd',
+        refunds: refunds && { data: refunds },
+      },
+      previous_attributes: previousAmountRefunded === undefined ? undefined : { amount_refunded: previousAmountRefunded },
+    },
+  };
+}
+
+describe('normalizeStripePayment', () => {
+  it('reports the newest refund of a charge, not the refunded total', () => {
+    const data = normalizeStripePayment(stripeRefundedCharge([
+      { id: 're_1', amount: 500, created: 1714500000 },
+      { id: 're_2', amount: 300, created: 1714521600 },
+    ]));
+
+    expect(data).toMatchObject({ paymentId: 'pi_1', chargeId: 'ch_1', refundId: 're_2', amount: 300, currency: 'USD' });
+  });
+
+  it('falls back to how much amount_refunded grew when refunds are not expanded', () => {
+    const data = normalizeStripePayment(stripeRefundedCharge(undefined, 500));
+
+    expect(data.refundId).toBeUndefined();
+    expect(data.amount).toBe(300);
+  });
+});
+
+describe('normalizePayPalPayment', () => {
+  const related = { supplementary_data: { related_ids: { order_id: 'ORDER_1' } } };
+
+  it('reports a capture against its order, like a Stripe charge against its intent', () => {
+    const data = normalizePayPalPayment({
+      event_type: 'PAYMENT.CAPTURE.COMPLETED',
+      resource: { id: 'CAPTURE_1', status: 'COMPLETED', amount: { value: '20.00', currency_code: 'USD' }, ...related },
+    });
+
+    expect(data).toMatchObject({
+      paymentId: 'ORDER_1',
+      paymentIntentId: 'ORDER_1',
+      chargeId: 'CAPTURE_1',
+      amount: 2000,
+      status: 'succeeded',
+    });
+  });
+
+  it('reports a refund with its own id and amount', () => {
+    const data = normalizePayPalPayment({
+      event_type: 'PAYMENT.CAPTURE.REFUNDED',
+      resource: {
+        id: 'REFUND_1',
+        status: 'COMPLETED',
+        amount: { value: '5.00', currency_code: 'USD' },
+        links: [{ rel: 'up', href: 'https://api.paypal.com/v2/payments/captures/CAPTURE_1' }],
+        ...related,
+      },
+    });
+
+    expect(data).toMatchObject({ paymentId: 'ORDER_1', chargeId: 'CAPTURE_1', refundId: 'REFUND_1', amount: 500 });
+  });
+});
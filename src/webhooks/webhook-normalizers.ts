@@ -0,0 +1,158 @@
+import { Money } from '../core/money';
+import type { PaymentEventData } from '../payments/payment-events';
+import type { PaymentStatus } from '../payments/types';
+import type { SubscriptionEventData } from '../subscriptions/subscription-events';
+import type { SubscriptionStatus } from '../subscriptions/types';
+
+const STRIPE_CHARGE_STATUSES: Record<string, PaymentStatus> = {
+  succeeded: 'succeeded',
+  pending: 'processing',
+  failed: 'failed',
+};
+
+const PAYPAL_PAYMENT_STATUSES: Record<string, PaymentStatus> = {
+  COMPLETED: 'succeeded',
+  PARTIALLY_REFUNDED: 'succeeded',
+  REFUNDED: 'succeeded',
+  PENDING: 'processing',
+  DECLINED: 'failed',
+  FAILED: 'failed',
+  CANCELLED: 'canceled',
+};
+
+const PAYPAL_SUBSCRIPTION_STATUSES: Record<string, SubscriptionStatus> = {
+  APPROVAL_PENDING: 'incomplete',
+  APPROVED: 'incomplete',
+  ACTIVE: 'active',
+  SUSPENDED: 'paused',
+  CANCELLED: 'canceled',
+  EXPIRED: 'canceled',
+};
+
+export function normalizeStripePayment(payload: any): PaymentEventData {
+  const object = payload.data?.object || {};
+
+  // Charge events carry the charge; the payment is the intent it belongs to
+  const isCharge = object.object === 'charge';
+  const refund = isCharge && payload.type === 'charge.refunded'
+    ? latestStripeRefund(object, payload.data?.previous_attributes)
+    : undefined;
+  return {
+    paymentId: isCharge ? object.payment_intent || object.id : object.id,
+    paymentIntentId: isCharge ? object.payment_intent || undefined : object.id,
+    chargeId: isCharge ? object.id : object.latest_charge || undefined,
+    refundId: refund?.id,
+    provider: 'stripe',
+    amount: refund ? refund.amount : object.amount,
+    currency: object.currency?.toUpperCase(),
+    status: isCharge ? STRIPE_CHARGE_STATUSES[object.status] || 'processing' : object.status,
+    customerId: object.customer || undefined,
+    error: object.last_payment_error?.message || object.failure_message || undefined,
+    metadata: object.metadata || {},
+    timestamp: stripeTime(payload.created),
+  };
+}
+
+export function normalizeStripeSubscription(payload: any): SubscriptionEventData {
+  const object = payload.data?.object || {};
+
+  // Invoice events describe a subscription through the invoice's first line
+  if (object.object === 'invoice') {
+    const line = object.lines?.data?.[0];
+    return {
+      subscriptionId: object.subscription,
+      customerId: object.customer,
+      planId: line?.price?.id || line?.plan?.id,
+      status: object.status,
+      amount: object.status === 'paid' ? object.amount_paid : object.amount_due,
+      currency: object.currency?.toUpperCase(),
+      currentPeriodStart: line?.period ? stripeTime(line.period.start) : undefined,
+      currentPeriodEnd: line?.period ? stripeTime(line.period.end) : undefined,
+      metadata: object.metadata || {},
+      timestamp: stripeTime(payload.created),
+    };
+  }
+
+  const item = object.items?.data?.[0];
+  const price = item?.price || item?.plan || object.plan;
+  return {
+    subscriptionId: object.id,
+    customerId: object.customer,
+    planId: price?.id,
+    status: object.status,
+    amount: price?.unit_amount ?? price?.amount,
+    currency: (price?.currency || object.currency)?.toUpperCase(),
+    currentPeriodStart: object.current_period_start ? stripeTime(object.current_period_start) : undefined,
+    currentPeriodEnd: object.current_period_end ? stripeTime(object.current_period_end) : undefined,
+    cancelAtPeriodEnd: object.cancel_at_period_end,
+    metadata: object.metadata || {},
+    timestamp: stripeTime(payload.created),
+  };
+}
+
+export function normalizePayPalPayment(payload: any): PaymentEventData {
+  const resource = payload.resource || {};
+
+  // Refund events carry the refund and link the capture as "up"; like Stripe's intent, the payment is the order
+  const isRefund = payload.event_type === 'PAYMENT.CAPTURE.REFUNDED';
+  const captureLink = (resource.links || []).find((link: any) => link.rel === 'up');
+  const captureId = isRefund ? captureLink?.href?.split('/').pop() : resource.id;
+  const orderId = resource.supplementary_data?.related_ids?.order_id;
+  const amount = resource.amount;
+
+  return {
+    paymentId: orderId || captureId,
+    paymentIntentId: orderId,
+    chargeId: captureId,
+    refundId: isRefund ? resource.id : undefined,
+    provider: 'paypal',
+    amount: amount ? Money.of(amount.value, amount.currency_code).amount : undefined,
+    currency: amount?.currency_code,
+    status: isRefund ? 'succeeded' : PAYPAL_PAYMENT_STATUSES[resource.status] || 'processing',
+    customerId: resource.payer?.payer_id,
+    error: resource.status_details?.reason,
+    metadata: resource.custom_id ? { customId: resource.custom_id } : {},
+    timestamp: paypalTime(payload.create_time),
+  };
+}
+
+export function normalizePayPalSubscription(payload: any): SubscriptionEventData {
+  const resource = payload.resource || {};
+  const lastPayment = resource.billing_info?.last_payment?.amount;
+
+  return {
+    subscriptionId: resource.id,
+    customerId: resource.subscriber?.payer_id || '',
+    planId: resource.plan_id,
+    status: PAYPAL_SUBSCRIPTION_STATUSES[resource.status] || resource.status?.toLowerCase(),
+    amount: lastPayment ? Money.of(lastPayment.value, lastPayment.currency_code).amount : undefined,
+    currency: lastPayment?.currency_code,
+    currentPeriodStart: resource.billing_info?.last_payment?.time,
+    currentPeriodEnd: resource.billing_info?.next_billing_time,
+    metadata: resource.custom_id ? { customId: resource.custom_id } : {},
+    timestamp: paypalTime(payload.create_time),
+  };
+}
+
+// charge.refunded describes the whole charge; the event is about its newest refund.
+// Without the expanded refund list, the amount is what amount_refunded grew by.
+function latestStripeRefund(charge: any, previous: any): { id?: string; amount: number } {
+  const refunds: any[] = charge.refunds?.data || [];
+  const refund = refunds.reduce(
+    (latest, candidate) => (candidate.created ?? 0) > (latest.created ?? 0) ? candidate : latest,
+    refunds[0]
+  );
+  if (refund) {
+    return { id: refund.id, amount: refund.amount };
+  }
+  return { amount: charge.amount_refunded - (previous?.amount_refunded ?? 0) };
+}
+
+function stripeTime(seconds: number | undefined): string {
+  return typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : new Date().toISOString();
+}
+
+function paypalTime(time: string | undefined): string {
+  const date = time ? new Date(time) : new Date();
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
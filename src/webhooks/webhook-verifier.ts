@@ -0,0 +1,28 @@
+import { WebhookVerificationResult } from './types';
+import type { PayPalWebhookVerifierConfig } from './paypal-webhook-verifier';
+
+export interface WebhookVerificationRequest {
+  provider: string;
+  // Exactly the bytes the provider sent; signatures are computed over these, not re-serialized JSON
+  rawBody: string | Buffer;
+  signature?: string;
+  headers: Record<string, string>;
+}
+
+export interface WebhookVerifier {
+  verify(request: WebhookVerificationRequest): Promise<WebhookVerificationResult>;
+  // When this delivery was sent, taken from signed data, for the replay tolerance check
+  getTimestamp?(request: WebhookVerificationRequest): Date | null;
+}
+
+export interface WebhookVerifierOptions {
+  verifiers?: Record<string, WebhookVerifier>;
+  paypal?: PayPalWebhookVerifierConfig;
+  // Accept webhooks from providers without a verifier; never enable this in production
+  allowUnverifiedProviders?: boolean;
+}
+
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers[key];
+}